@@ -0,0 +1,99 @@
+// Service worker: keeps the app shell available offline. Each build registers it with a
+// new `v` so the browser installs it as an update; built assets are content-hashed.
+const CACHE_VERSION = new URL(self.location.href).searchParams.get('v') || 'dev';
+const CACHE_NAME = `bea-more-organised-${CACHE_VERSION}`;
+const SHELL = [
+  '/',
+  '/manifest.webmanifest',
+  '/icons/icon.svg',
+  '/icons/maskable.svg',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png',
+  '/icons/maskable-192.png',
+  '/icons/maskable-512.png',
+  '/icons/apple-touch-icon.png'
+];
+
+// Vite writes hashed file names into index.html, so read them from there
+const findAssets = (html) =>
+  Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), match => match[1]);
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    const response = await fetch('/', { cache: 'reload' });
+    const html = await response.clone().text();
+    await cache.put('/', response);
+    await cache.addAll([...SHELL.filter(url => url !== '/'), ...findAssets(html)]);
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(
+      keys.filter(key => key.startsWith('bea-more-organised-') && key !== CACHE_NAME).map(key => caches.delete(key))
+    );
+    await self.clients.claim();
+  })());
+});
+
+// The page asks for this when the user accepts the update prompt
+self.addEventListener('message', event => {
+  if (event.data === 'SKIP_WAITING') self.skipWaiting();
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Pages: network first so a fresh deploy shows up, the cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => {
+          // An error page or a redirect elsewhere must not become the offline app shell
+          if (response.ok && response.type === 'basic') {
+            const copy = response.clone();
+            caches.open(CACHE_NAME).then(cache => cache.put('/', copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match('/'))
+    );
+    return;
+  }
+
+  // Everything else: cache first, caching anything new on the way through
+  event.respondWith(
+    caches.match(request).then(cached =>
+      cached || fetch(request).then(response => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+        }
+        return response;
+      })
+    )
+  );
+});
+
+// Reminder notifications: hand the button (or a tap) to the app, opening it if it is closed
+self.addEventListener('notificationclick', event => {
+  const { notification, action } = event;
+  const taskId = notification.data?.taskId;
+  notification.close();
+  if (!taskId) return;
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = windows[0];
+    if (client) {
+      client.postMessage({ type: 'reminder-action', taskId, action: action || 'open' });
+      // Done and snooze work in the background; only a tap on the notification brings the app up
+      if (!action) await client.focus();
+      return;
+    }
+    await self.clients.openWindow(`/?reminder=${encodeURIComponent(taskId)}&action=${action || 'open'}`);
+  })());
+});
@@ -0,0 +1,115 @@
+// Reference sync server for trying multi-device sync locally; not meant for production.
+//
+//   node server/sync-server.mjs            keeps everything in memory
+//   SYNC_DATA=sync.json node server/...    persists to a JSON file
+//   PORT=8787 (default)
+//
+// Then set the app's sync endpoint to http://<this machine>:8787
+//
+// GET  /changes?since=N  -> { rev, changes }   records stored after revision N
+// POST /changes { changes } -> { rev, accepted, rejected }
+// A record is accepted unless the server already holds a copy with a newer updated_at;
+// deletions arrive as records with `data: null` and are kept as tombstones.
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = process.env.SYNC_DATA;
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+const db = DATA_FILE && existsSync(DATA_FILE)
+  ? JSON.parse(readFileSync(DATA_FILE, 'utf8'))
+  : { rev: 0, records: {} };
+
+const save = () => {
+  if (DATA_FILE) writeFileSync(DATA_FILE, JSON.stringify(db));
+};
+
+const key = (record) => `${record.kind}:${record.id}`;
+
+const isRecord = (record) =>
+  record
+  && (record.kind === 'task' || record.kind === 'week')
+  && typeof record.id === 'string'
+  && typeof record.updated_at === 'string'
+  && (record.data === null || typeof record.data === 'object');
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, X-Device-Id',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const pull = (since) => ({
+  rev: db.rev,
+  changes: Object.values(db.records)
+    .filter(entry => entry.rev > since)
+    .sort((a, b) => a.rev - b.rev)
+    .map(entry => entry.record)
+});
+
+const push = (changes) => {
+  const accepted = [];
+  const rejected = [];
+  changes.forEach(record => {
+    const existing = db.records[key(record)];
+    if (existing && existing.record.updated_at > record.updated_at) {
+      rejected.push(existing.record);
+      return;
+    }
+    db.rev += 1;
+    db.records[key(record)] = { rev: db.rev, record };
+    accepted.push(key(record));
+  });
+  if (accepted.length > 0) save();
+  return { rev: db.rev, accepted, rejected };
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (url.pathname !== '/changes') return send(res, 404, { error: 'Not found' });
+
+  try {
+    if (req.method === 'GET') {
+      return send(res, 200, pull(Number(url.searchParams.get('since')) || 0));
+    }
+    if (req.method === 'POST') {
+      const body = JSON.parse(await readBody(req));
+      if (!Array.isArray(body?.changes) || !body.changes.every(isRecord)) {
+        return send(res, 400, { error: 'Expected { changes: SyncRecord[] }' });
+      }
+      const result = push(body.changes);
+      console.log(`${req.headers['x-device-id'] || 'unknown device'}: ${result.accepted.length} accepted, ${result.rejected.length} rejected`);
+      return send(res, 200, result);
+    }
+    return send(res, 405, { error: 'Method not allowed' });
+  } catch (error) {
+    return send(res, 400, { error: error.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Sync server listening on http://localhost:${PORT}${DATA_FILE ? `, saving to ${DATA_FILE}` : ''}`);
+});
@@ -1,113 +1,195 @@
 import React, { useState, useEffect } from 'react';
-import { Calendar, Plus, ChevronLeft, ChevronRight, Check, X, Clock, Dumbbell, Utensils, ListTodo, LayoutGrid } from 'lucide-react';
-
-// Types
-type Board = 'todos' | 'exercise' | 'dinner';
-type TaskStatus = 'open' | 'done' | 'skipped';
-type Priority = 'low' | 'med' | 'high';
-
-interface Task {
-  id: string;
-  board: Board;
-  title: string;
-  notes?: string;
-  status: TaskStatus;
-  scheduled_for: string;
-  week_id: string;
-  remind_at?: string;
-  priority: Priority;
-  created_at: string;
-  updated_at: string;
-  meta?: any;
-}
-
-interface Week {
-  id: string;
-  start_date: string;
-  end_date: string;
-  created_at: string;
-}
-
-// Utility functions
-const formatDate = (date: Date): string => {
-  return date.toISOString().split('T')[0];
-};
-
-const getStartOfWeek = (date: Date): Date => {
-  const d = new Date(date);
-  const day = d.getDay();
-  const diff = d.getDate() - day + (day === 0 ? -6 : 1);
-  return new Date(d.setDate(diff));
-};
-
-const getWeekId = (date: Date): string => {
-  const start = getStartOfWeek(date);
-  return `wk_${formatDate(start)}`;
-};
-
-const getWeekDates = (weekId: string): Date[] => {
-  const dateStr = weekId.replace('wk_', '');
-  const startDate = new Date(dateStr + 'T00:00:00');
-  return Array.from({ length: 7 }, (_, i) => {
-    const d = new Date(startDate);
-    d.setDate(startDate.getDate() + i);
-    return d;
-  });
-};
-
-const generateId = () => `tsk_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-// Storage wrapper
-const storage = {
-  async getTasks(): Promise<Task[]> {
-    try {
-      const result = await window.storage.get('tasks');
-      return result ? JSON.parse(result.value) : [];
-    } catch {
-      return [];
-    }
-  },
-  async saveTasks(tasks: Task[]): Promise<void> {
-    await window.storage.set('tasks', JSON.stringify(tasks));
-  },
-  async getWeeks(): Promise<Week[]> {
-    try {
-      const result = await window.storage.get('weeks');
-      return result ? JSON.parse(result.value) : [];
-    } catch {
-      return [];
-    }
-  },
-  async saveWeeks(weeks: Week[]): Promise<void> {
-    await window.storage.set('weeks', JSON.stringify(weeks));
-  }
-};
+import { Calendar, Plus, ChevronLeft, ChevronRight, Check, X, Clock, Dumbbell, LayoutGrid, Repeat, Bell, BellRing, AlertTriangle, ChefHat, ShoppingCart, ExternalLink, Trophy, BarChart3, Settings, SkipForward, Undo2, Redo2, GripVertical, CopyPlus, Search, SlidersHorizontal, CloudOff, RefreshCw, ListChecks, ChevronDown, ChevronUp, Timer, Inbox, Target, Flame, CheckSquare } from 'lucide-react';
+import { ActivityType, Board, BoardConfig, Member, Priority, Recipe, RepeatFrequency, RepeatRule, ScheduledTask, Task, TrashedTask, Week, WeekTemplate } from './types';
+import { generateId } from './utils';
+import { addDays, configureDates, formatDate, shiftDate, getLocale, getWeekDates, getWeekdayLabel, getWeekdayOrder, getWeekId, parseDate } from './dates';
+import { describeRepeat, endSeriesBefore, getSeriesFields, materialiseWeek, occursOn, recordSeriesExceptions } from './recurrence';
+import { flushPendingWrites, storage } from './storage';
+import { usePendingWrites, useServiceWorkerUpdate } from './offline';
+import { SyncRecord, useSync } from './sync';
+import { AppSettings, DEFAULT_SETTINGS } from './settings';
+import { rollTasks } from './rollover';
+import { rekeyWeeks } from './migrations';
+import { isScheduled, toBacklog } from './backlog';
+import { HistoryEntry, applyHistory, createHistoryEntry, pushHistory } from './history';
+import { purgeExpired } from './trash';
+import { activityLabels, describeWorkout, getWeekTotals } from './workouts';
+import { validateTasks, validateWeeks } from './validation';
+import { DEFAULT_BOARDS, getActiveBoards, getBoard, getBoardKind } from './boards';
+import { getBoardColor, getBoardIcon } from './boardStyles';
+import { compareTasks, nextSortOrder, reorderDay } from './ordering';
+import { previewTemplate } from './templates';
+import { getStreak, getTarget, getTargetProgress, inheritTargets } from './targets';
+import { BulkAction, applyBulkAction, describeBulkAction, getBulkTargetWeeks } from './bulk';
+import { formatDuration, formatTime } from './timeline';
+import { getChecklistProgress, isChecklistComplete, toggleChecklistItem } from './checklist';
+import { DropTarget, useTaskDrag } from './dragDrop';
+import { EMPTY_FILTERS, TaskFilters, countActiveFilters, matchesFilters } from './search';
+import { AssigneeFilter, getActiveMembers, getAssigneeLabel, getMember, matchesAssignee } from './members';
+import BackupDialog from './BackupDialog';
+import CalendarDialog from './CalendarDialog';
+import RecipeFields from './RecipeFields';
+import ShoppingList from './ShoppingList';
+import WorkoutFields from './WorkoutFields';
+import ChecklistFields from './ChecklistFields';
+import PersonalBests from './PersonalBests';
+import WeekReview from './WeekReview';
+import SettingsDialog from './SettingsDialog';
+import TrashDialog from './TrashDialog';
+import BoardManager from './BoardManager';
+import MemberManager from './MemberManager';
+import TemplateManager from './TemplateManager';
+import TargetsDialog from './TargetsDialog';
+import BulkActionBar from './BulkActionBar';
+import DayTimeline from './DayTimeline';
+import MemberAvatar from './MemberAvatar';
+import SyncDialog from './SyncDialog';
+import SearchView from './SearchView';
+import BacklogView from './BacklogView';
+import TaskFilterFields from './TaskFilterFields';
+import QuickAdd from './QuickAdd';
+import WeekGrid from './WeekGrid';
+import MonthCalendar from './MonthCalendar';
+import { SnoozeOption, canNotify, getSnoozeTime, moveReminder, showNotification, useReminderActions, useReminderScheduler } from './reminders';
 
 const WeeklyTaskApp = () => {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [weeks, setWeeks] = useState<Week[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [boards, setBoards] = useState<BoardConfig[]>(DEFAULT_BOARDS);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [templates, setTemplates] = useState<WeekTemplate[]>([]);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [trash, setTrash] = useState<TrashedTask[]>([]);
+  const [undoStack, setUndoStack] = useState<HistoryEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<HistoryEntry[]>([]);
+  const [snackbar, setSnackbar] = useState<{ message: string; action: 'undo' | 'redo' } | null>(null);
   const [currentWeekId, setCurrentWeekId] = useState<string>('');
   const [selectedBoard, setSelectedBoard] = useState<Board | 'all'>('all');
+  const [assigneeFilter, setAssigneeFilter] = useState<AssigneeFilter>('everyone');
   const [showAddTask, setShowAddTask] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [loading, setLoading] = useState(true);
   const [selectedDate, setSelectedDate] = useState<string>('');
+  const [seriesAction, setSeriesAction] = useState<{
+    type: 'edit' | 'delete';
+    task: ScheduledTask;
+    updates?: Partial<Task>;
+  } | null>(null);
+  const [activeReminders, setActiveReminders] = useState<string[]>([]);
+  const [missedReminders, setMissedReminders] = useState<string[]>([]);
+  const [showBackup, setShowBackup] = useState(false);
+  const [showCalendar, setShowCalendar] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showBoards, setShowBoards] = useState(false);
+  const [showMembers, setShowMembers] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [showTargets, setShowTargets] = useState(false);
+  const [showSync, setShowSync] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [view, setView] = useState<'day' | 'timeline' | 'week' | 'month' | 'backlog'>('day');
+  const [listFilters, setListFilters] = useState<TaskFilters>(EMPTY_FILTERS);
+  const [showListFilters, setShowListFilters] = useState(false);
+  // Ids picked for a bulk action; null when not selecting
+  const [selection, setSelection] = useState<string[] | null>(null);
+  const [skippingTask, setSkippingTask] = useState<Task | null>(null);
+  const [completePrompt, setCompletePrompt] = useState<string | null>(null);
+  const [showShoppingList, setShowShoppingList] = useState(false);
+  const [showPersonalBests, setShowPersonalBests] = useState(false);
+  const [showNextWeekPrompt, setShowNextWeekPrompt] = useState(false);
+  const [review, setReview] = useState<{ weekId: string; beforeNextWeek: boolean } | null>(null);
+  const [loadErrors, setLoadErrors] = useState<string[]>([]);
+  const [notificationPermission, setNotificationPermission] = useState(
+    typeof Notification !== 'undefined' ? Notification.permission : 'denied'
+  );
+
+  const { updateReady, applyUpdate, dismissUpdate } = useServiceWorkerUpdate();
+  const pendingWrites = usePendingWrites();
 
   // Initialize
   useEffect(() => {
     loadData();
   }, []);
 
+  // A selection only makes sense for the list it was made on
+  useEffect(() => {
+    setSelection(null);
+  }, [view, currentWeekId]);
+
+  // The snackbar only offers undo briefly; the keyboard shortcuts work for the whole history
+  useEffect(() => {
+    if (!snackbar) return;
+    const timer = window.setTimeout(() => setSnackbar(null), 5000);
+    return () => window.clearTimeout(timer);
+  }, [snackbar]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (!(e.ctrlKey || e.metaKey) || target.closest('input, textarea, select')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
   const loadData = async () => {
     try {
       setLoading(true);
-      const [loadedTasks, loadedWeeks] = await Promise.all([
+      const [
+        rawTasks, rawWeeks, loadedBoards, loadedMembers, loadedTemplates, loadedRecipes, loadedSettings, loadedTrash
+      ] = await Promise.all([
         storage.getTasks(),
-        storage.getWeeks()
+        storage.getWeeks(),
+        storage.getBoards(),
+        storage.getMembers(),
+        storage.getTemplates(),
+        storage.getRecipes(),
+        storage.getSettings(),
+        storage.getTrash()
       ]);
+      // Before anything works out which week a date is in
+      configureDates(loadedSettings);
+      
+      // Skip records that can't be used rather than crashing on them later
+      const taskCheck = validateTasks(rawTasks);
+      const weekCheck = validateWeeks(rawWeeks);
+      const loadedTasks = taskCheck.valid;
+      const loadedWeeks = weekCheck.valid;
+      const errors = [...taskCheck.errors, ...weekCheck.errors];
+      if (errors.length > 0) {
+        console.warn('Skipped malformed records:', errors);
+        setLoadErrors(errors);
+        // The next save writes only the valid ones, so keep the rest aside first
+        const rejected_at = new Date().toISOString();
+        await storage.keepRejected([
+          ...taskCheck.rejected.map((record, i) => ({ key: 'tasks', record, problem: taskCheck.errors[i], rejected_at })),
+          ...weekCheck.rejected.map((record, i) => ({ key: 'weeks', record, problem: weekCheck.errors[i], rejected_at }))
+        ]);
+      }
       
       setTasks(loadedTasks);
       setWeeks(loadedWeeks);
+      setBoards(loadedBoards.length > 0 ? loadedBoards : DEFAULT_BOARDS);
+      setMembers(loadedMembers);
+      setTemplates(loadedTemplates);
+      setRecipes(loadedRecipes);
+      setSettings(loadedSettings);
+      
+      // Deleted tasks are kept in the trash for a while before they are gone for good
+      const keptTrash = purgeExpired(loadedTrash);
+      setTrash(keptTrash);
+      if (keptTrash.length !== loadedTrash.length) {
+        await storage.saveTrash(keptTrash);
+      }
       
       const today = new Date();
       const weekId = getWeekId(today);
@@ -116,7 +198,12 @@ const WeeklyTaskApp = () => {
       
       // Create current week if it doesn't exist
       if (!loadedWeeks.find(w => w.id === weekId)) {
-        await createWeek(weekId);
+        await createWeek(
+          weekId,
+          loadedWeeks,
+          loadedTasks,
+          loadedTemplates.find(t => t.id === loadedSettings.new_week_template)
+        );
       }
       
       setLoading(false);
@@ -126,50 +213,466 @@ const WeeklyTaskApp = () => {
     }
   };
 
-  const createWeek = async (weekId: string) => {
+  const createWeek = async (
+    weekId: string,
+    baseWeeks: Week[] = weeks,
+    baseTasks: Task[] = tasks,
+    template = templates.find(t => t.id === settings.new_week_template)
+  ) => {
     const dates = getWeekDates(weekId);
     const newWeek: Week = {
       id: weekId,
       start_date: formatDate(dates[0]),
       end_date: formatDate(dates[6]),
-      created_at: new Date().toISOString()
+      created_at: new Date().toISOString(),
+      targets: inheritTargets(baseWeeks, weekId)
     };
     
-    const updatedWeeks = [...weeks, newWeek];
+    const updatedWeeks = [...baseWeeks, newWeek];
+    setWeeks(updatedWeeks);
+    await storage.saveWeeks(updatedWeeks);
+    
+    // Generate recurring task occurrences for the new week
+    const occurrences = materialiseWeek(baseTasks, weekId);
+    // Then the new-week template, skipping anything a series already put there
+    const fromTemplate = template ? previewTemplate(template, weekId, [...baseTasks, ...occurrences]).added : [];
+    if (occurrences.length === 0 && fromTemplate.length === 0) return baseTasks;
+    
+    const updatedTasks = [...baseTasks, ...occurrences, ...fromTemplate];
+    setTasks(updatedTasks);
+    await storage.saveTasks(updatedTasks);
+    return updatedTasks;
+  };
+
+  const updateWeek = async (weekId: string, updates: Partial<Week>) => {
+    const updatedWeeks = weeks.map(w =>
+      w.id === weekId ? { ...w, ...updates, updated_at: new Date().toISOString() } : w
+    );
     setWeeks(updatedWeeks);
     await storage.saveWeeks(updatedWeeks);
   };
 
+  const toggleShoppingItem = async (week: Week, key: string) => {
+    const checked = week.shopping_checked || [];
+    await updateWeek(week.id, {
+      shopping_checked: checked.includes(key) ? checked.filter(k => k !== key) : [...checked, key]
+    });
+  };
+
+  const saveSettings = async (updated: AppSettings) => {
+    configureDates(updated);
+    setSettings(updated);
+    await storage.saveSettings(updated);
+    if (updated.week_starts_on !== settings.week_starts_on) {
+      await applyWeekStart(settings.week_starts_on, updated.week_starts_on);
+    }
+  };
+
+  // Weeks are keyed by their first day, so a new week start refiles every task and week
+  const applyWeekStart = async (oldStart: number, newStart: number) => {
+    const now = new Date().toISOString();
+    const rekeyed = rekeyWeeks({ tasks, weeks });
+    // Template days count from the start of the week; keep each on the same weekday
+    const shiftedTemplates = templates.map(template => ({
+      ...template,
+      tasks: template.tasks.map(t => ({ ...t, day_offset: (t.day_offset + oldStart - newStart + 7) % 7 })),
+      updated_at: now
+    }));
+    // Undoing to tasks filed under the old week ids would hide them
+    setUndoStack([]);
+    setRedoStack([]);
+    setTasks(rekeyed.tasks);
+    setWeeks(rekeyed.weeks);
+    setTemplates(shiftedTemplates);
+    await Promise.all([
+      storage.saveTasks(rekeyed.tasks),
+      storage.saveWeeks(rekeyed.weeks),
+      storage.saveTemplates(shiftedTemplates)
+    ]);
+    
+    const weekId = getWeekId(parseDate(selectedDate));
+    if (!rekeyed.weeks.find(w => w.id === weekId)) {
+      await createWeek(
+        weekId,
+        rekeyed.weeks,
+        rekeyed.tasks,
+        shiftedTemplates.find(t => t.id === settings.new_week_template)
+      );
+    }
+    setCurrentWeekId(weekId);
+  };
+
+  const saveRecipe = async (recipe: Recipe) => {
+    const updatedRecipes = recipes.some(r => r.id === recipe.id)
+      ? recipes.map(r => r.id === recipe.id ? recipe : r)
+      : [...recipes, recipe];
+    setRecipes(updatedRecipes);
+    await storage.saveRecipes(updatedRecipes);
+  };
+
+  const saveBoards = async (updatedBoards: BoardConfig[]) => {
+    setBoards(updatedBoards);
+    if (selectedBoard !== 'all' && getBoard(updatedBoards, selectedBoard).archived) {
+      setSelectedBoard('all');
+    }
+    await storage.saveBoards(updatedBoards);
+  };
+
+  const saveTemplates = async (updatedTemplates: WeekTemplate[]) => {
+    setTemplates(updatedTemplates);
+    await storage.saveTemplates(updatedTemplates);
+  };
+
+  const saveMembers = async (updatedMembers: Member[]) => {
+    setMembers(updatedMembers);
+    // A person who is no longer in the household can't be filtered on
+    if (!getActiveMembers(updatedMembers).some(m => m.id === assigneeFilter)) {
+      setAssigneeFilter(filter => filter === 'mine' ? filter : 'everyone');
+    }
+    await storage.saveMembers(updatedMembers);
+  };
+
+  const restoreData = async (
+    restoredTasks: Task[],
+    restoredWeeks: Week[],
+    restoredRecipes: Recipe[],
+    restoredBoards: BoardConfig[],
+    restoredMembers: Member[]
+  ) => {
+    // Tasks a replace drops are not trashed; the backup file itself is the way back
+    await commitTasks('Backup restored', restoredTasks, { trashRemoved: false, seriesExceptions: false });
+    setWeeks(restoredWeeks);
+    setRecipes(restoredRecipes);
+    await Promise.all([
+      storage.saveWeeks(restoredWeeks),
+      storage.saveRecipes(restoredRecipes),
+      saveBoards(restoredBoards),
+      saveMembers(restoredMembers)
+    ]);
+    if (!restoredWeeks.find(w => w.id === currentWeekId)) {
+      await createWeek(currentWeekId, restoredWeeks, restoredTasks);
+    }
+  };
+
+  // Every user-visible change to tasks goes through here so it can be undone.
+  // Tasks the change removes move to the trash, and tasks it brings back leave it.
+  const commitTasks = async (
+    label: string,
+    updatedTasks: Task[],
+    options: { base?: Task[]; trashRemoved?: boolean; seriesExceptions?: boolean } = {}
+  ) => {
+    const { base = tasks, trashRemoved = true, seriesExceptions = true } = options;
+    // Occurrences deleted or moved one at a time are not made again by the next fill
+    if (seriesExceptions) updatedTasks = recordSeriesExceptions(base, updatedTasks);
+    const kept = new Set(updatedTasks.map(t => t.id));
+    const removed = trashRemoved ? base.filter(t => !kept.has(t.id)) : [];
+    const removedIds = new Set(removed.map(t => t.id));
+    const deleted_at = new Date().toISOString();
+    const updatedTrash = removed.length > 0 || trash.some(item => kept.has(item.task.id))
+      ? [
+          ...trash.filter(item => !kept.has(item.task.id) && !removedIds.has(item.task.id)),
+          ...removed.map(task => ({ task, deleted_at }))
+        ]
+      : trash;
+    
+    const entry = createHistoryEntry(label, { before: base, after: updatedTasks }, { before: trash, after: updatedTrash });
+    setUndoStack(stack => pushHistory(stack, entry));
+    setRedoStack([]);
+    setSnackbar({ message: label, action: 'undo' });
+    await saveTasksAndTrash(updatedTasks, updatedTrash);
+  };
+
+  const saveTasksAndTrash = async (updatedTasks: Task[], updatedTrash: TrashedTask[]) => {
+    setTasks(updatedTasks);
+    setTrash(updatedTrash);
+    await Promise.all([
+      storage.saveTasks(updatedTasks),
+      updatedTrash !== trash ? storage.saveTrash(updatedTrash) : Promise.resolve()
+    ]);
+  };
+
+  const undo = async () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+    setUndoStack(stack => stack.slice(0, -1));
+    setRedoStack(stack => pushHistory(stack, entry));
+    setSnackbar({ message: `Undone: ${entry.label}`, action: 'redo' });
+    const result = applyHistory(tasks, trash, entry.undo);
+    await saveTasksAndTrash(result.tasks, result.trash);
+  };
+
+  const redo = async () => {
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) return;
+    setRedoStack(stack => stack.slice(0, -1));
+    setUndoStack(stack => pushHistory(stack, entry));
+    setSnackbar({ message: entry.label, action: 'undo' });
+    const result = applyHistory(tasks, trash, entry.redo);
+    await saveTasksAndTrash(result.tasks, result.trash);
+  };
+
+  // Changes from other devices are not undoable here; a deletion still goes to the trash
+  const applySyncedRecords = async (updates: SyncRecord[]) => {
+    const taskMap = new Map(tasks.map(t => [t.id, t]));
+    const weekMap = new Map(weeks.map(w => [w.id, w]));
+    const deleted_at = new Date().toISOString();
+    let updatedTrash = trash;
+    updates.forEach(record => {
+      if (record.kind === 'week') {
+        if (record.data) weekMap.set(record.id, record.data as Week);
+        else weekMap.delete(record.id);
+        return;
+      }
+      const existing = taskMap.get(record.id);
+      if (record.data) {
+        taskMap.set(record.id, record.data as Task);
+        updatedTrash = updatedTrash.filter(item => item.task.id !== record.id);
+      } else if (existing) {
+        taskMap.delete(record.id);
+        updatedTrash = [...updatedTrash, { task: existing, deleted_at }];
+      }
+    });
+    const updatedWeeks = Array.from(weekMap.values());
+      setWeeks(updatedWeeks);
+    // Awaited so a failed save shows up as a sync error rather than being lost
+    await Promise.all([storage.saveWeeks(updatedWeeks), saveTasksAndTrash(Array.from(taskMap.values()), updatedTrash)]);
+  };
+
+  const sync = useSync(tasks, weeks, applySyncedRecords);
+
+  const restoreFromTrash = async (item: TrashedTask) => {
+    // Generated ids repeat, so a deleted occurrence may have been made again since
+    await commitTasks('Task restored', [
+      ...tasks.filter(t => t.id !== item.task.id),
+      { ...item.task, updated_at: new Date().toISOString() }
+    ]);
+  };
+
+  // Purging is permanent, so it is not recorded in the undo history
+  const purgeFromTrash = async (taskIds: string[]) => {
+    const updatedTrash = trash.filter(item => !taskIds.includes(item.task.id));
+    setTrash(updatedTrash);
+    await storage.saveTrash(updatedTrash);
+  };
+
+  // Fill weeks that already exist with a series' occurrences from `fromDate` on
+  const fillSeries = (baseTasks: Task[], seriesId: string, fromDate: string): Task[] =>
+    weeks
+      .filter(w => w.end_date >= fromDate)
+      .reduce((acc, w) => [...acc, ...materialiseWeek(acc, w.id, { fromDate, seriesId })], baseTasks);
+
+  // A task without a date goes to the backlog; only dated tasks can repeat
   const addTask = async (task: Omit<Task, 'id' | 'created_at' | 'updated_at' | 'week_id'>) => {
     const now = new Date().toISOString();
+    const id = generateId();
+    const { scheduled_for } = task;
+    const repeat = task.repeat && scheduled_for
+      ? { ...task.repeat, starts_on: scheduled_for, fields: getSeriesFields(task) }
+      : undefined;
     const newTask: Task = {
       ...task,
-      id: generateId(),
-      week_id: getWeekId(new Date(task.scheduled_for + 'T00:00:00')),
+      id,
+      week_id: scheduled_for ? getWeekId(parseDate(scheduled_for)) : undefined,
       created_at: now,
-      updated_at: now
+      updated_at: now,
+      series_id: repeat ? id : undefined,
+      repeat
     };
     
-    const updatedTasks = [...tasks, newTask];
-    setTasks(updatedTasks);
-    await storage.saveTasks(updatedTasks);
+    let updatedTasks = [...tasks, newTask];
+    if (repeat) {
+      updatedTasks = fillSeries(updatedTasks, id, repeat.starts_on);
+    }
+    await commitTasks(scheduled_for ? 'Task added' : 'Added to backlog', updatedTasks);
     return newTask;
   };
 
-  const updateTask = async (taskId: string, updates: Partial<Task>) => {
-    const updatedTasks = tasks.map(t => 
-      t.id === taskId 
-        ? { ...t, ...updates, updated_at: new Date().toISOString() }
+  const updateTask = async (taskId: string, updates: Partial<Task>, label = 'Task updated') => {
+    const updatedTasks = tasks.map(t => {
+      if (t.id !== taskId) return t;
+      const updated = { ...t, ...updates, updated_at: new Date().toISOString() };
+      // Reminders follow the task to its new date, and re-arm when their time changes
+      if (updated.scheduled_for !== t.scheduled_for) {
+        return updated.scheduled_for
+          ? {
+              ...updated,
+              ...moveReminder(updated, updated.scheduled_for),
+              week_id: getWeekId(parseDate(updated.scheduled_for))
+            }
+          : toBacklog(updated);
+      }
+      if ('remind_at' in updates && updates.remind_at !== t.remind_at) {
+        return { ...updated, snoozed_until: undefined, reminded_at: undefined };
+      }
+      return updated;
+    });
+    await commitTasks(label, updatedTasks);
+  };
+
+  // Moves a task to the end of another day, creating that day's week if nobody has opened it yet
+  const moveTaskToDate = async (task: Task, scheduled_for: string) => {
+    if (scheduled_for === task.scheduled_for) return;
+    const weekId = getWeekId(parseDate(scheduled_for));
+    const baseTasks = weeks.find(w => w.id === weekId) ? tasks : await createWeek(weekId);
+    const sort_order = nextSortOrder(baseTasks, scheduled_for);
+    const now = new Date().toISOString();
+    const updatedTasks = baseTasks.map(t =>
+      t.id === task.id
+        ? { ...t, ...moveReminder(t, scheduled_for), scheduled_for, week_id: weekId, sort_order, updated_at: now }
         : t
     );
-    setTasks(updatedTasks);
-    await storage.saveTasks(updatedTasks);
+    const label = parseDate(scheduled_for).toLocaleDateString(getLocale(), {
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short'
+    });
+    await commitTasks(`${task.scheduled_for ? 'Moved' : 'Planned'} for ${label}`, updatedTasks, { base: baseTasks });
+  };
+
+  // Backlog tasks join the end of their new days in one week, all in one step for undo
+  const planTasks = async (plans: { task: Task; date: string }[]) => {
+    if (plans.length === 0) return;
+    if (plans.length === 1) return moveTaskToDate(plans[0].task, plans[0].date);
+    const weekId = getWeekId(parseDate(plans[0].date));
+    const baseTasks = weeks.find(w => w.id === weekId) ? tasks : await createWeek(weekId);
+    const now = new Date().toISOString();
+    const updatedTasks = plans.reduce((acc, { task, date }) => {
+      const sort_order = nextSortOrder(acc, date);
+      return acc.map(t =>
+        t.id === task.id
+          ? { ...t, scheduled_for: date, week_id: weekId, sort_order, updated_at: now }
+          : t
+      );
+    }, baseTasks);
+    await commitTasks(`${plans.length} tasks planned`, updatedTasks, { base: baseTasks });
+  };
+
+  const toggleSelected = (task: Task) => {
+    if (!selection) return;
+    setSelection(selection.includes(task.id) ? selection.filter(id => id !== task.id) : [...selection, task.id]);
+  };
+
+  // One commit for the lot, so one storage write and one undo step however many are selected
+  const applyBulk = async (action: BulkAction) => {
+    if (!selection || selection.length === 0) return;
+    // Selections never leave the week on screen, so a move lands in one week at most
+    const missing = getBulkTargetWeeks(tasks, selection, action).filter(id => !weeks.some(w => w.id === id));
+    const baseTasks = missing.length > 0 ? await createWeek(missing[0]) : tasks;
+    await commitTasks(
+      describeBulkAction(action, selection.length),
+      applyBulkAction(baseTasks, selection, action),
+      { base: baseTasks }
+    );
+    setSelection(null);
+  };
+
+  const sendToBacklog = async (task: Task) => {
+    await commitTasks('Moved to backlog', tasks.map(t => t.id === task.id ? toBacklog(t) : t));
+  };
+
+  const dropTask = async (taskId: string, target: DropTarget) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+    if (target.type === 'day') {
+      await moveTaskToDate(task, target.date);
+    } else if (target.type === 'week') {
+      // Same weekday in the neighbouring week; the backlog has no weekday to keep
+      if (!task.scheduled_for) return;
+      await moveTaskToDate(task, shiftDate(task.scheduled_for, target.direction === 'next' ? 7 : -7));
+    } else {
+      const updatedTasks = reorderDay(tasks, taskId, target.taskId, target.after);
+      if (updatedTasks !== tasks) await commitTasks('Tasks reordered', updatedTasks);
+    }
+  };
+
+  const { drag, startDrag } = useTaskDrag(dropTask);
+
+  // Ticking off the last item offers to finish the task itself
+  const toggleChecklist = async (task: Task, itemId: string) => {
+    const checklist = toggleChecklistItem(task.checklist || [], itemId);
+    await updateTask(task.id, { checklist }, 'Checklist updated');
+    setCompletePrompt(task.status === 'open' && isChecklistComplete(checklist) ? task.id : null);
   };
 
   const deleteTask = async (taskId: string) => {
-    const updatedTasks = tasks.filter(t => t.id !== taskId);
-    setTasks(updatedTasks);
-    await storage.saveTasks(updatedTasks);
+    await commitTasks('Task deleted', tasks.filter(t => t.id !== taskId));
+  };
+
+  // Turn a one-off task into the first occurrence of a new series
+  const startSeries = async (task: ScheduledTask, updates: Partial<Task>, rule: RepeatRule) => {
+    let updatedTasks = tasks.map(t =>
+      t.id === task.id
+        ? {
+            ...t,
+            ...updates,
+            series_id: task.id,
+            repeat: { ...rule, starts_on: task.scheduled_for, fields: getSeriesFields({ ...t, ...updates }) },
+            updated_at: new Date().toISOString()
+          }
+        : t
+    );
+    updatedTasks = fillSeries(updatedTasks, task.id, task.scheduled_for);
+    await commitTasks('Task now repeats', updatedTasks);
+  };
+
+  // Apply an edit to this occurrence and every later one; earlier occurrences are kept as history
+  const updateSeries = async (task: ScheduledTask, updates: Partial<Task>) => {
+    const now = new Date().toISOString();
+    const { scheduled_for: _date, status: _status, remind_at, repeat, ...shared } = updates;
+    const time = remind_at?.split('T')[1];
+    const rule = repeat
+      ? {
+          ...repeat,
+          starts_on: task.repeat?.starts_on || task.scheduled_for,
+          exceptions: task.repeat?.exceptions,
+          fields: getSeriesFields({ ...task, ...shared, remind_at })
+        }
+      : undefined;
+    
+    let updatedTasks = tasks.flatMap(t => {
+      if (t.series_id !== task.series_id || !isScheduled(t)) return [t];
+      if (t.scheduled_for < task.scheduled_for) {
+        return [rule || !t.repeat ? t : { ...t, repeat: endSeriesBefore(t.repeat, task.scheduled_for), updated_at: now }];
+      }
+      // Open occurrences the new rule no longer produces are removed
+      const keep = t.id === task.id
+        || t.status !== 'open'
+        || (rule && occursOn(rule, parseDate(t.scheduled_for)));
+      if (!keep) return [];
+      const reminder = time ? `${t.scheduled_for}T${time}` : undefined;
+      return [{
+        ...t,
+        ...shared,
+        // Later occurrences get the edited items, but not what was ticked off on this one
+        ...(shared.checklist && t.id !== task.id
+          ? { checklist: shared.checklist.map(item => ({ ...item, done: false })) }
+          : {}),
+        repeat: rule,
+        ...(reminder === t.remind_at
+          ? {}
+          : { remind_at: reminder, snoozed_until: undefined, reminded_at: undefined }),
+        updated_at: now
+      }];
+    });
+    
+    if (rule) {
+      updatedTasks = fillSeries(updatedTasks, task.series_id!, task.scheduled_for);
+    }
+    // Occurrences the new rule drops are not exceptions; a later rule may want those dates
+    await commitTasks('Series updated', updatedTasks, { seriesExceptions: false });
+  };
+
+  // Remove this occurrence and every later one, and stop the series generating more
+  const deleteSeries = async (task: ScheduledTask) => {
+    const now = new Date().toISOString();
+    const updatedTasks = tasks
+      .filter(t => t.series_id !== task.series_id || !isScheduled(t) || t.scheduled_for < task.scheduled_for)
+      .map(t =>
+        t.series_id === task.series_id && t.repeat
+          ? { ...t, repeat: endSeriesBefore(t.repeat, task.scheduled_for), updated_at: now }
+          : t
+      );
+    await commitTasks('Series deleted', updatedTasks, { seriesExceptions: false });
   };
 
   const startNextWeek = async () => {
@@ -178,33 +681,18 @@ const WeeklyTaskApp = () => {
     nextStart.setDate(nextStart.getDate() + 7);
     const nextWeekId = getWeekId(nextStart);
     
-    if (!weeks.find(w => w.id === nextWeekId)) {
-      await createWeek(nextWeekId);
-      
-      // Rollover open tasks
-      const openTasks = tasks.filter(t => 
-        t.week_id === currentWeekId && t.status === 'open'
+    const baseTasks = weeks.find(w => w.id === nextWeekId)
+      ? tasks
+      : await createWeek(nextWeekId);
+    
+    // Rollover runs every time so tasks added since the last run still move across
+    const rolledTasks = rollTasks(baseTasks, currentWeekId, nextWeekId, settings, boards);
+    if (rolledTasks.length > 0) {
+      await commitTasks(
+        `${rolledTasks.length} ${rolledTasks.length === 1 ? 'task' : 'tasks'} rolled over`,
+        [...baseTasks, ...rolledTasks],
+        { base: baseTasks }
       );
-      
-      const nextWeekDates = getWeekDates(nextWeekId);
-      const rolledTasks = openTasks.map(t => {
-        const taskDate = new Date(t.scheduled_for);
-        const dayOfWeek = taskDate.getDay();
-        const newDate = nextWeekDates[dayOfWeek === 0 ? 6 : dayOfWeek - 1];
-        
-        return {
-          ...t,
-          id: generateId(),
-          week_id: nextWeekId,
-          scheduled_for: formatDate(newDate),
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        };
-      });
-      
-      const updatedTasks = [...tasks, ...rolledTasks];
-      setTasks(updatedTasks);
-      await storage.saveTasks(updatedTasks);
     }
     
     setCurrentWeekId(nextWeekId);
@@ -214,8 +702,7 @@ const WeeklyTaskApp = () => {
 
   const navigateWeek = async (direction: 'prev' | 'next') => {
     const currentDates = getWeekDates(currentWeekId);
-    const newStart = new Date(currentDates[0]);
-    newStart.setDate(newStart.getDate() + (direction === 'next' ? 7 : -7));
+    const newStart = addDays(currentDates[0], direction === 'next' ? 7 : -7);
     const newWeekId = getWeekId(newStart);
     
     if (!weeks.find(w => w.id === newWeekId)) {
@@ -227,7 +714,92 @@ const WeeklyTaskApp = () => {
     setSelectedDate(formatDate(newWeekDates[0]));
   };
 
-  const getTasksForDay = (date: Date, board: Board | 'all'): Task[] => {
+  // Like navigateWeek, but straight to any date; its week is created if nobody has opened it yet
+  const goToDate = async (date: string, nextView: 'day' | 'week' = 'day') => {
+    const weekId = getWeekId(parseDate(date));
+    if (!weeks.find(w => w.id === weekId)) {
+      await createWeek(weekId);
+    }
+    setCurrentWeekId(weekId);
+    setSelectedDate(date);
+    setView(nextView);
+  };
+
+  const jumpToTask = async (task: Task) => {
+    if (task.scheduled_for) {
+      await goToDate(task.scheduled_for);
+    } else {
+      setView('backlog');
+    }
+    // Make sure the task is actually visible once we get there
+    if (selectedBoard !== 'all' && selectedBoard !== task.board) setSelectedBoard('all');
+    if (!matchesFilters(task, listFilters)) setListFilters(EMPTY_FILTERS);
+    if (!matchesAssignee(task, assigneeFilter, settings.member_id)) setAssigneeFilter('everyone');
+    setShowSearch(false);
+  };
+
+  // Reminders
+  const markReminded = async (taskIds: string[]) => {
+    const now = new Date().toISOString();
+    const updatedTasks = tasks.map(t =>
+      taskIds.includes(t.id) ? { ...t, reminded_at: now } : t
+    );
+    setTasks(updatedTasks);
+    await storage.saveTasks(updatedTasks);
+  };
+
+  const closeReminder = (taskId: string) => {
+    setActiveReminders(ids => ids.filter(id => id !== taskId));
+    setMissedReminders(ids => ids.filter(id => id !== taskId));
+  };
+
+  const snoozeReminder = async (task: Task, option: SnoozeOption) => {
+    closeReminder(task.id);
+    await updateTask(task.id, { snoozed_until: getSnoozeTime(task, option) }, 'Reminder snoozed');
+  };
+
+  const completeFromReminder = async (task: Task) => {
+    closeReminder(task.id);
+    await updateTask(task.id, { status: 'done' }, 'Task done');
+  };
+
+  const requestNotifications = async () => {
+    if (typeof Notification === 'undefined') return;
+    setNotificationPermission(await Notification.requestPermission());
+  };
+
+  const showReminderToast = (taskId: string) =>
+    setActiveReminders(ids => ids.includes(taskId) ? ids : [...ids, taskId]);
+
+  useReminderScheduler(tasks, (due, missed) => {
+    due.forEach(task => {
+      if (canNotify()) {
+        // A notification the browser refuses still shows in the app
+        showNotification(task, () => showReminderToast(task.id)).catch(() => showReminderToast(task.id));
+      } else {
+        showReminderToast(task.id);
+      }
+    });
+    if (missed.length > 0) {
+      setMissedReminders(ids => [...ids, ...missed.map(t => t.id).filter(id => !ids.includes(id))]);
+    }
+    markReminded([...due, ...missed].map(t => t.id));
+  });
+
+  // Buttons on the system notification
+  useReminderActions(!loading, (taskId, action) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task || task.status !== 'open') return;
+    if (action === 'done') {
+      completeFromReminder(task);
+    } else if (action === 'open') {
+      showReminderToast(task.id);
+    } else {
+      snoozeReminder(task, action);
+    }
+  });
+
+  const getTasksForDay = (date: Date, board: Board | 'all'): ScheduledTask[] => {
     if (!date || isNaN(date.getTime())) {
       console.log('Invalid date:', date);
       return [];
@@ -235,34 +807,47 @@ const WeeklyTaskApp = () => {
     const dateStr = formatDate(date);
     console.log('Getting tasks for:', dateStr, 'board:', board);
     console.log('All tasks:', tasks);
-    const filtered = tasks.filter(t => {
+    const filtered = tasks.filter(isScheduled).filter(t => {
       const matchesDate = t.scheduled_for === dateStr;
       const matchesBoard = board === 'all' || t.board === board;
       console.log('Task:', t.title, 'Date match:', matchesDate, 'Board match:', matchesBoard);
-      return matchesDate && matchesBoard;
-    }).sort((a, b) => {
-      if (a.status === 'done' && b.status !== 'done') return 1;
-      if (a.status !== 'done' && b.status === 'done') return -1;
-      return 0;
-    });
+      return matchesDate && matchesBoard && matchesAssignee(t, assigneeFilter, settings.member_id) && matchesFilters(t, listFilters);
+    }).sort(compareTasks);
     console.log('Filtered tasks:', filtered);
     return filtered;
   };
 
-  const boardConfig = {
-    all: { icon: LayoutGrid, label: 'All Tasks', color: 'gray' },
-    todos: { icon: ListTodo, label: 'To-Dos', color: 'blue' },
-    exercise: { icon: Dumbbell, label: 'Exercise', color: 'green' },
-    dinner: { icon: Utensils, label: 'Dinner', color: 'orange' }
-  };
+  const boardTabs = [
+    { id: 'all' as const, icon: LayoutGrid, label: 'All Tasks' },
+    ...getActiveBoards(boards).map(b => ({ id: b.id, icon: getBoardIcon(b.icon), label: b.name }))
+  ];
+  const selectedKind = selectedBoard === 'all' ? null : getBoardKind(boards, selectedBoard);
+  const defaultBoard = selectedBoard === 'all' ? getActiveBoards(boards)[0]?.id || 'todos' : selectedBoard;
+  const activeMembers = getActiveMembers(members);
+  // New tasks go to whoever the list is showing
+  const defaultAssignee = assigneeFilter === 'mine'
+    ? settings.member_id
+    : getMember(activeMembers, assigneeFilter)?.id;
 
   const weekDates = currentWeekId ? getWeekDates(currentWeekId) : [];
-  const dayNames = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
-  const selectedDateObj = selectedDate ? new Date(selectedDate + 'T12:00:00') : new Date();
+  const currentWeek = weeks.find(w => w.id === currentWeekId);
+  const exerciseTotals = getWeekTotals(tasks, currentWeekId, selectedBoard);
+  const dayNames = getWeekdayOrder().map(day => getWeekdayLabel(day));
+  const selectedDateObj = selectedDate ? parseDate(selectedDate) : new Date();
   console.log('Selected date string:', selectedDate);
   console.log('Selected date object:', selectedDateObj);
   console.log('Formatted selected date:', formatDate(selectedDateObj));
   const currentTasks = getTasksForDay(selectedDateObj, selectedBoard);
+  // Whatever the list on screen shows, for "Select all"
+  const selectableTasks = view === 'week' ? tasks.filter(t => t.week_id === currentWeekId) : currentTasks;
+  const listFilterCount = countActiveFilters(listFilters);
+  // Completed or skipped tasks never show a reminder, even if one was already raised
+  const findOpenTasks = (ids: string[]) =>
+    ids
+      .map(id => tasks.find(t => t.id === id))
+      .filter((t): t is Task => !!t && t.status === 'open');
+  const activeReminderTasks = findOpenTasks(activeReminders);
+  const missedReminderTasks = findOpenTasks(missedReminders);
 
   if (loading) {
     return (
@@ -273,12 +858,28 @@ const WeeklyTaskApp = () => {
   }
 
   return (
-    <div className="min-h-screen bg-gray-50 pb-20">
+    <div className={`min-h-screen bg-gray-50 ${selection ? 'pb-48' : 'pb-20'}`}>
       {/* Header - Fixed */}
       <div className="bg-gradient-to-r from-teal-400 to-teal-500 border-b sticky top-0 z-10 shadow-md">
         <div className="px-4 py-3">
           {/* Logo and Title */}
-          <div className="flex items-center justify-center mb-3">
+          <div className="relative flex items-center justify-center mb-3">
+            <div className="absolute left-0 flex">
+              <button
+                onClick={() => setShowSettings(true)}
+                className="p-2 rounded-lg text-white hover:bg-white hover:bg-opacity-30"
+                title="Settings"
+              >
+                <Settings className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setShowSearch(true)}
+                className="p-2 rounded-lg text-white hover:bg-white hover:bg-opacity-30"
+                title="Search"
+              >
+                <Search className="w-5 h-5" />
+              </button>
+            </div>
             <div className="flex items-center gap-3">
               <div className="w-10 h-10 bg-white rounded-full flex items-center justify-center shadow-sm">
                 <span className="text-2xl">🐝</span>
@@ -288,25 +889,45 @@ const WeeklyTaskApp = () => {
                 <p className="text-xs text-teal-100">Daily Task Tracker</p>
               </div>
             </div>
+            {notificationPermission === 'default' && (
+              <button
+                onClick={requestNotifications}
+                className="absolute right-0 p-2 rounded-lg text-white hover:bg-white hover:bg-opacity-30"
+                title="Enable reminder notifications"
+              >
+                <Bell className="w-5 h-5" />
+              </button>
+            )}
           </div>
           
           {/* Week Navigation */}
           <div className="flex items-center justify-between mb-3 bg-white bg-opacity-20 rounded-lg px-3 py-2">
             <button
               onClick={() => navigateWeek('prev')}
-              className="p-1.5 hover:bg-white hover:bg-opacity-30 rounded-lg active:bg-opacity-40 text-white"
+              data-drop-week="prev"
+              className={`p-1.5 hover:bg-white hover:bg-opacity-30 rounded-lg active:bg-opacity-40 text-white ${
+                drag?.target?.type === 'week' && drag.target.direction === 'prev' ? 'ring-2 ring-amber-400' : ''
+              }`}
             >
               <ChevronLeft className="w-5 h-5" />
             </button>
-            <div className="flex items-center gap-2">
+            <button
+              onClick={() => setReview({ weekId: currentWeekId, beforeNextWeek: false })}
+              className="flex items-center gap-2"
+              title="Week review"
+            >
               <Calendar className="w-4 h-4 text-white" />
               <span className="text-sm font-medium text-white">
-                {weekDates.length > 0 && `${weekDates[0].toLocaleDateString('en-AU', { day: 'numeric', month: 'short' })} - ${weekDates[6].toLocaleDateString('en-AU', { day: 'numeric', month: 'short' })}`}
+                {weekDates.length > 0 && `${weekDates[0].toLocaleDateString(getLocale(), { day: 'numeric', month: 'short' })} - ${weekDates[6].toLocaleDateString(getLocale(), { day: 'numeric', month: 'short' })}`}
               </span>
-            </div>
+              <BarChart3 className="w-4 h-4 text-white" />
+            </button>
             <button
               onClick={() => navigateWeek('next')}
-              className="p-1.5 hover:bg-white hover:bg-opacity-30 rounded-lg active:bg-opacity-40 text-white"
+              data-drop-week="next"
+              className={`p-1.5 hover:bg-white hover:bg-opacity-30 rounded-lg active:bg-opacity-40 text-white ${
+                drag?.target?.type === 'week' && drag.target.direction === 'next' ? 'ring-2 ring-amber-400' : ''
+              }`}
             >
               <ChevronRight className="w-5 h-5" />
             </button>
@@ -314,7 +935,7 @@ const WeeklyTaskApp = () => {
 
           {/* Next Week Button */}
           <button
-            onClick={startNextWeek}
+            onClick={() => setShowNextWeekPrompt(true)}
             className="w-full px-3 py-2 bg-amber-400 text-gray-900 rounded-lg hover:bg-amber-500 text-sm font-bold active:bg-amber-600 shadow-sm mb-3"
           >
             🚀 Start Next Week
@@ -327,13 +948,17 @@ const WeeklyTaskApp = () => {
               const isSelected = dateStr === selectedDate;
               const isToday = dateStr === formatDate(new Date());
               const dayTasks = tasks.filter(t => t.scheduled_for === dateStr);
+              const isDropTarget = drag?.target?.type === 'day' && drag.target.date === dateStr;
               
               return (
                 <button
                   key={idx}
                   onClick={() => setSelectedDate(dateStr)}
+                  data-drop-date={dateStr}
                   className={`flex-shrink-0 flex flex-col items-center px-3 py-2 rounded-lg min-w-[60px] ${
-                    isSelected
+                    isDropTarget
+                      ? 'bg-teal-700 text-white ring-2 ring-amber-400'
+                      : isSelected
                       ? 'bg-amber-400 text-gray-900'
                       : isToday
                       ? 'bg-white text-teal-600 border-2 border-amber-400'
@@ -357,25 +982,28 @@ const WeeklyTaskApp = () => {
 
         {/* Board Filter Tabs */}
         <div className="flex border-t border-teal-600 overflow-x-auto bg-teal-500">
-          {(Object.keys(boardConfig) as (Board | 'all')[]).map(board => {
-            const config = boardConfig[board];
-            const Icon = config.icon;
+          {boardTabs.map(({ id: board, icon: Icon, label }) => {
             const boardTasks = tasks.filter(t => 
-              t.scheduled_for === selectedDate && (board === 'all' || t.board === board)
+              t.scheduled_for === selectedDate
+                && (board === 'all' || t.board === board)
+                && matchesAssignee(t, assigneeFilter, settings.member_id)
             );
+            const target = board === 'all' ? undefined : getTarget(currentWeek, board);
+            const progress = target && getTargetProgress(tasks, currentWeekId, target);
+            const streak = target ? getStreak(tasks, weeks, currentWeekId, board) : 0;
             
             return (
               <button
                 key={board}
                 onClick={() => setSelectedBoard(board)}
-                className={`flex-1 flex items-center justify-center gap-2 px-4 py-3 font-medium transition-colors border-b-4 ${
+                className={`relative flex-1 flex items-center justify-center gap-2 px-4 py-3 font-medium transition-colors border-b-4 ${
                   selectedBoard === board
                     ? 'border-amber-400 text-white bg-teal-600'
                     : 'border-transparent text-teal-100'
                 }`}
               >
                 <Icon className="w-4 h-4" />
-                <span className="text-sm whitespace-nowrap">{config.label}</span>
+                <span className="text-sm whitespace-nowrap">{label}</span>
                 {boardTasks.length > 0 && (
                   <span className={`text-xs px-1.5 py-0.5 rounded-full ${
                     selectedBoard === board 
@@ -385,95 +1013,531 @@ const WeeklyTaskApp = () => {
                     {boardTasks.length}
                   </span>
                 )}
+                {streak > 1 && (
+                  <span className="flex items-center text-xs text-amber-300 font-bold" title={`Target hit ${streak} weeks running`}>
+                    <Flame className="w-3 h-3" />
+                    {streak}
+                  </span>
+                )}
+                {/* Weekly target progress */}
+                {progress && (
+                  <span className="absolute left-3 right-3 bottom-1 h-1 rounded-full bg-teal-700 overflow-hidden">
+                    <span
+                      className={`block h-full ${progress.met ? 'bg-amber-400' : 'bg-teal-100'}`}
+                      style={{ width: `${progress.fraction * 100}%` }}
+                    />
+                  </span>
+                )}
               </button>
             );
           })}
         </div>
+
+        {/* Assignee Filter */}
+        {activeMembers.length > 0 && (
+          <div className="flex gap-2 overflow-x-auto px-4 py-2 bg-teal-600">
+            {[
+              { id: 'everyone', label: 'Everyone', member: undefined },
+              ...(settings.member_id ? [{ id: 'mine', label: 'Mine', member: undefined }] : []),
+              ...activeMembers.map(m => ({ id: m.id, label: m.name, member: m }))
+            ].map(({ id, label, member }) => (
+              <button
+                key={id}
+                onClick={() => setAssigneeFilter(id)}
+                className={`flex-shrink-0 flex items-center gap-1.5 px-3 py-1 rounded-full text-sm font-medium whitespace-nowrap ${
+                  assigneeFilter === id ? 'bg-amber-400 text-gray-900' : 'bg-teal-500 text-teal-50'
+                }`}
+              >
+                {member && <MemberAvatar member={member} size="sm" />}
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Task List */}
       <div className="px-4 py-4">
-        <div className="mb-3">
-          <h2 className="text-lg font-semibold text-gray-900">
-            {selectedDateObj.toLocaleDateString('en-US', { 
-              weekday: 'long',
-              month: 'long', 
-              day: 'numeric' 
-            })}
-          </h2>
-          <p className="text-sm text-gray-600">
-            {currentTasks.length} {currentTasks.length === 1 ? 'task' : 'tasks'}
-          </p>
-        </div>
+        {/* App Update */}
+        {updateReady && (
+          <div className="mb-4 flex items-center gap-3 bg-teal-50 border border-teal-200 rounded-lg p-3 text-sm text-teal-800">
+            <RefreshCw className="w-4 h-4 flex-shrink-0" />
+            <span className="flex-1">A new version of the app is ready.</span>
+            <button
+              onClick={applyUpdate}
+              className="px-3 py-1 bg-teal-500 text-white rounded-lg font-medium active:bg-teal-600"
+            >
+              Reload
+            </button>
+            <button
+              onClick={dismissUpdate}
+              className="flex-shrink-0 p-1 rounded-lg"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {/* Unsaved Changes */}
+        {pendingWrites > 0 && (
+          <div className="mb-4 flex items-center gap-3 bg-amber-50 border border-amber-300 rounded-lg p-3 text-sm text-amber-800">
+            <CloudOff className="w-4 h-4 flex-shrink-0" />
+            <span className="flex-1">
+              Offline: {pendingWrites} {pendingWrites === 1 ? 'change is' : 'changes are'} waiting to be saved.
+            </span>
+            <button
+              onClick={() => flushPendingWrites()}
+              className="text-xs font-medium text-amber-800"
+            >
+              Retry now
+            </button>
+          </div>
+        )}
 
-        <div className="space-y-2">
-          {currentTasks.length === 0 ? (
-            <div className="text-center py-12">
-              <div className="text-gray-400 mb-2">
-                <Calendar className="w-12 h-12 mx-auto" />
+        {/* Malformed Records */}
+        {loadErrors.length > 0 && (
+          <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+            <div className="flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <div className="flex-1">
+                {loadErrors.length} saved {loadErrors.length === 1 ? 'record' : 'records'} could not be read and {loadErrors.length === 1 ? 'was' : 'were'} set aside.
+                <ul className="list-disc pl-5 mt-1 text-xs">
+                  {loadErrors.slice(0, 5).map((message, idx) => (
+                    <li key={idx}>{message}</li>
+                  ))}
+                </ul>
               </div>
-              <p className="text-gray-500">No tasks for this day</p>
-              <p className="text-sm text-gray-400 mt-1">Tap the + button to add one</p>
+              <button
+                onClick={() => setLoadErrors([])}
+                className="flex-shrink-0 p-1 rounded-lg"
+              >
+                <X className="w-4 h-4" />
+              </button>
             </div>
-          ) : (
-            currentTasks.map(task => (
-              <TaskCard
-                key={task.id}
-                task={task}
-                onToggle={() => updateTask(task.id, {
-                  status: task.status === 'done' ? 'open' : 'done'
-                })}
-                onEdit={() => {
-                  setEditingTask(task);
-                  setShowAddTask(true);
-                }}
-                onDelete={() => deleteTask(task.id)}
-              />
-            ))
-          )}
-        </div>
-      </div>
+          </div>
+        )}
 
-      {/* Floating Action Button */}
-      <button
-        onClick={() => {
-          setEditingTask({
-            id: '',
-            board: selectedBoard === 'all' ? 'todos' : selectedBoard,
-            title: '',
-            status: 'open',
-            scheduled_for: selectedDate,
-            week_id: currentWeekId,
-            priority: 'med',
-            created_at: '',
-            updated_at: ''
-          });
-          setShowAddTask(true);
-        }}
-        className="fixed bottom-6 right-6 w-14 h-14 bg-amber-400 text-gray-900 rounded-full shadow-lg flex items-center justify-center active:bg-amber-500 hover:shadow-xl transition-all"
-      >
-        <Plus className="w-6 h-6" />
-      </button>
+        {/* Missed Reminders */}
+        {missedReminderTasks.length > 0 && (
+          <div className="mb-4 bg-amber-50 border border-amber-300 rounded-lg p-3">
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex items-center gap-2 text-sm font-semibold text-amber-800">
+                <BellRing className="w-4 h-4" />
+                Missed reminders ({missedReminderTasks.length})
+              </div>
+              <button
+                onClick={() => setMissedReminders([])}
+                className="text-xs font-medium text-amber-800"
+              >
+                Dismiss all
+              </button>
+            </div>
+            <div className="space-y-2">
+              {missedReminderTasks.map(task => (
+                <ReminderCard
+                  key={task.id}
+                  task={task}
+                  onDone={() => completeFromReminder(task)}
+                  onSnooze={(option) => snoozeReminder(task, option)}
+                  onDismiss={() => closeReminder(task.id)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
 
-      {/* Task Editor Modal */}
-      {showAddTask && editingTask && (
-        <TaskEditor
-          task={editingTask}
-          onSave={async (taskData) => {
-            try {
-              if (editingTask.id) {
-                await updateTask(editingTask.id, taskData);
-              } else {
-                const newTask = await addTask(taskData);
-                console.log('Task added:', newTask);
-              }
-              setShowAddTask(false);
-              setEditingTask(null);
-              // Force a refresh
-              const loadedTasks = await storage.getTasks();
-              setTasks(loadedTasks);
-            } catch (error) {
-              console.error('Error saving task:', error);
+        {/* View Switcher */}
+        <div className="flex mb-3 bg-white border border-gray-200 rounded-lg p-1">
+          {(['day', 'timeline', 'week', 'month', 'backlog'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`flex-1 px-3 py-1.5 rounded-md text-sm font-medium ${
+                view === option ? 'bg-teal-500 text-white' : 'text-gray-600'
+              }`}
+            >
+              {{ day: 'Day', timeline: 'Timeline', week: 'Week', month: 'Month', backlog: 'Backlog' }[option]}
+            </button>
+          ))}
+        </div>
+
+        <QuickAdd
+          boards={boards}
+          defaultBoard={defaultBoard}
+          defaultDate={view === 'backlog' ? undefined : selectedDate}
+          placeholder={view === 'backlog' ? 'Capture for later: fix the gate low' : undefined}
+          onAdd={async (result) => {
+            await addTask({ ...result, assignee: defaultAssignee, status: 'open' });
+            if (result.scheduled_for && getWeekId(parseDate(result.scheduled_for)) === currentWeekId) {
+              setSelectedDate(result.scheduled_for);
+            }
+          }}
+          onEdit={(result) => {
+            setEditingTask({
+              ...result,
+              id: '',
+              assignee: defaultAssignee,
+              status: 'open',
+              week_id: '',
+              created_at: '',
+              updated_at: ''
+            });
+            setShowAddTask(true);
+          }}
+        />
+
+        {view === 'week' && (
+          <>
+          <div className="flex gap-2 mb-3">
+            <button
+              onClick={() => setShowTemplates(true)}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-white border border-gray-200 rounded-lg text-sm font-medium text-gray-700 active:bg-gray-50"
+            >
+              <CopyPlus className="w-4 h-4" />
+              Week templates
+            </button>
+            <button
+              onClick={() => setShowTargets(true)}
+              disabled={!currentWeek}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-white border border-gray-200 rounded-lg text-sm font-medium text-gray-700 active:bg-gray-50 disabled:opacity-50"
+            >
+              <Target className="w-4 h-4" />
+              Weekly targets
+            </button>
+            <button
+              onClick={() => setSelection(selection ? null : [])}
+              className={`flex-shrink-0 flex items-center justify-center px-3 py-2 rounded-lg ${
+                selection ? 'bg-teal-500 text-white' : 'bg-white border border-gray-200 text-gray-700'
+              }`}
+              title="Select tasks"
+            >
+              <CheckSquare className="w-4 h-4" />
+            </button>
+          </div>
+          <WeekGrid
+            tasks={tasks}
+            boards={boards}
+            weekId={currentWeekId}
+            selectedDate={selectedDate}
+            onSelectDay={(date) => {
+              setSelectedDate(date);
+              setView('day');
+            }}
+            onToggle={(task) => updateTask(task.id, task.status === 'open'
+              ? { status: 'done' }
+              : { status: 'open', skip_reason: undefined }
+            )}
+            onEdit={(task) => {
+              setEditingTask(task);
+              setShowAddTask(true);
+            }}
+            selectedIds={selection || undefined}
+            onSelect={selection ? toggleSelected : undefined}
+          />
+          </>
+        )}
+
+        {view === 'timeline' && (
+          <DayTimeline
+            tasks={currentTasks}
+            boards={boards}
+            onEdit={(task) => {
+              setEditingTask(task);
+              setShowAddTask(true);
+            }}
+            onChangeTime={(task, start_time) => updateTask(task.id, { start_time }, `Moved to ${formatTime(start_time)}`)}
+          />
+        )}
+
+        {view === 'backlog' && (
+          <BacklogView
+            tasks={tasks}
+            boards={boards}
+            members={members}
+            weekDates={weekDates}
+            selectedDate={selectedDate}
+            draggingId={drag?.taskId}
+            onDragStart={startDrag}
+            onPlan={planTasks}
+            onEdit={(task) => {
+              setEditingTask(task);
+              setShowAddTask(true);
+            }}
+            onDelete={(task) => deleteTask(task.id)}
+          />
+        )}
+
+        {view === 'month' && (
+          <MonthCalendar
+            tasks={tasks}
+            selectedDate={selectedDate}
+            onSelectDay={(date) => goToDate(date, 'day')}
+            onSelectWeek={(weekId) => goToDate(weekId.replace('wk_', ''), 'week')}
+          />
+        )}
+
+        {view === 'day' && (
+          <>
+          <div className="mb-3 flex items-start justify-between">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">
+                {selectedDateObj.toLocaleDateString(getLocale(), { 
+                  weekday: 'long',
+                  month: 'long', 
+                  day: 'numeric' 
+                })}
+              </h2>
+              <p className="text-sm text-gray-600">
+                {currentTasks.length} {currentTasks.length === 1 ? 'task' : 'tasks'}
+                {listFilterCount > 0 && ' matching filters'}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setSelection(selection ? null : [])}
+                className={`flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-medium ${
+                  selection ? 'bg-teal-500 text-white' : 'bg-white border border-gray-200 text-gray-700'
+                }`}
+              >
+                <CheckSquare className="w-4 h-4" />
+                Select
+              </button>
+              <button
+                onClick={() => setShowListFilters(!showListFilters)}
+                className={`flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-medium ${
+                  listFilterCount > 0 ? 'bg-teal-500 text-white' : 'bg-white border border-gray-200 text-gray-700'
+                }`}
+              >
+                <SlidersHorizontal className="w-4 h-4" />
+                Filter{listFilterCount > 0 && ` (${listFilterCount})`}
+              </button>
+            </div>
+          </div>
+
+          {showListFilters && (
+            <div className="mb-3 p-3 bg-white border border-gray-200 rounded-lg space-y-3">
+              <input
+                type="search"
+                value={listFilters.query}
+                onChange={(e) => setListFilters({ ...listFilters, query: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                placeholder="Filter by text..."
+              />
+              <TaskFilterFields
+                filters={listFilters}
+                boards={boards}
+                showBoards={selectedBoard === 'all'}
+                showDates={false}
+                onChange={setListFilters}
+              />
+              {listFilterCount > 0 && (
+                <button
+                  onClick={() => setListFilters(EMPTY_FILTERS)}
+                  className="text-sm font-medium text-teal-600"
+                >
+                  Clear filters
+                </button>
+              )}
+            </div>
+          )}
+
+          {selectedKind === 'dinner' && currentWeek && (
+            <button
+              onClick={() => setShowShoppingList(true)}
+              className="w-full flex items-center justify-center gap-2 mb-3 px-4 py-3 bg-orange-100 text-orange-700 rounded-lg font-medium active:bg-orange-200"
+            >
+              <ShoppingCart className="w-5 h-5" />
+              This week's shopping list
+            </button>
+          )}
+
+          {selectedKind === 'exercise' && (
+            <div className="mb-3 bg-green-50 border border-green-200 rounded-lg p-3">
+              <div className="flex items-center justify-between">
+                <div className="text-sm font-semibold text-green-800">This week</div>
+                <button
+                  onClick={() => setShowPersonalBests(true)}
+                  className="flex items-center gap-1 text-xs font-medium text-green-700"
+                >
+                  <Trophy className="w-4 h-4" />
+                  Personal bests
+                </button>
+              </div>
+              <div className="grid grid-cols-2 gap-2 mt-2">
+                <div>
+                  <div className="text-lg font-bold text-gray-900">{exerciseTotals.minutes}</div>
+                  <div className="text-xs text-gray-600">minutes trained</div>
+                </div>
+                <div>
+                  <div className="text-lg font-bold text-gray-900">
+                    {exerciseTotals.sessionsDone}/{exerciseTotals.sessionsPlanned}
+                  </div>
+                  <div className="text-xs text-gray-600">sessions done</div>
+                </div>
+              </div>
+              {Object.keys(exerciseTotals.distanceByActivity).length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {(Object.entries(exerciseTotals.distanceByActivity) as [ActivityType, number][]).map(([activity, km]) => (
+                    <span key={activity} className="text-xs px-2 py-0.5 bg-green-100 text-green-700 rounded-full font-medium">
+                      {activityLabels[activity]} {Math.round(km * 10) / 10} km
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {currentTasks.length === 0 ? (
+              <div className="text-center py-12">
+                <div className="text-gray-400 mb-2">
+                  <Calendar className="w-12 h-12 mx-auto" />
+                </div>
+                <p className="text-gray-500">{listFilterCount > 0 ? 'No tasks match these filters' : 'No tasks for this day'}</p>
+                <p className="text-sm text-gray-400 mt-1">Tap the + button to add one</p>
+              </div>
+            ) : (
+              currentTasks.map(task => (
+                <TaskCard
+                  key={task.id}
+                  task={task}
+                  board={getBoard(boards, task.board)}
+                  assignee={getMember(members, task.assignee)}
+                  dragging={drag?.taskId === task.id}
+                  dropPosition={drag?.target?.type === 'task' && drag.target.taskId === task.id && drag.taskId !== task.id
+                    ? (drag.target.after ? 'after' : 'before')
+                    : undefined}
+                  onDragStart={startDrag(task.id)}
+                  offerComplete={completePrompt === task.id && task.status === 'open'}
+                  onToggleItem={(itemId) => toggleChecklist(task, itemId)}
+                  onDismissComplete={() => setCompletePrompt(null)}
+                  onToggle={() => updateTask(task.id, task.status === 'open'
+                    ? { status: 'done' }
+                    : { status: 'open', skip_reason: undefined }
+                  )}
+                  onSkip={() => setSkippingTask(task)}
+                  onSendToBacklog={() => sendToBacklog(task)}
+                  selected={selection?.includes(task.id)}
+                  onSelect={selection ? () => toggleSelected(task) : undefined}
+                  onEdit={() => {
+                    setEditingTask(task);
+                    setShowAddTask(true);
+                  }}
+                  onDelete={() => task.series_id
+                    ? setSeriesAction({ type: 'delete', task })
+                    : deleteTask(task.id)
+                  }
+                />
+              ))
+            )}
+          </div>
+          </>
+        )}
+      </div>
+
+      {/* Drag Preview */}
+      {drag && (
+        <div
+          className="fixed z-50 pointer-events-none max-w-[70vw] px-3 py-2 bg-white border border-teal-500 rounded-lg shadow-lg text-sm font-medium text-gray-900 truncate"
+          style={{ left: drag.x + 12, top: drag.y + 12 }}
+        >
+          {tasks.find(t => t.id === drag.taskId)?.title}
+        </div>
+      )}
+
+      {/* Reminder Toasts */}
+      {activeReminderTasks.length > 0 && (
+        <div className="fixed bottom-24 left-4 right-4 z-40 space-y-2">
+          {activeReminderTasks.map(task => (
+            <ReminderCard
+              key={task.id}
+              task={task}
+              onDone={() => completeFromReminder(task)}
+              onSnooze={(option) => snoozeReminder(task, option)}
+              onDismiss={() => closeReminder(task.id)}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Undo Snackbar */}
+      {snackbar && (
+        <div className="fixed bottom-6 left-4 right-24 z-40 flex items-center justify-between gap-3 px-4 py-3 bg-gray-900 text-white rounded-lg shadow-lg">
+          <span className="text-sm truncate">{snackbar.message}</span>
+          <button
+            onClick={snackbar.action === 'undo' ? undo : redo}
+            className="flex-shrink-0 flex items-center gap-1 text-sm font-bold text-amber-400"
+          >
+            {snackbar.action === 'undo' ? <Undo2 className="w-4 h-4" /> : <Redo2 className="w-4 h-4" />}
+            {snackbar.action === 'undo' ? 'Undo' : 'Redo'}
+          </button>
+        </div>
+      )}
+
+      {/* Bulk Actions */}
+      {selection && (
+        <BulkActionBar
+          count={selection.length}
+          total={selectableTasks.length}
+          boards={boards}
+          defaultDate={selectedDate}
+          onSelectAll={() => setSelection(selectableTasks.map(t => t.id))}
+          onApply={applyBulk}
+          onCancel={() => setSelection(null)}
+        />
+      )}
+
+      {/* Floating Action Button */}
+      {!selection && (
+        <button
+          onClick={() => {
+            setEditingTask({
+              id: '',
+              board: defaultBoard,
+              title: '',
+              status: 'open',
+              scheduled_for: selectedDate,
+              week_id: currentWeekId,
+              priority: 'med',
+              assignee: defaultAssignee,
+              created_at: '',
+              updated_at: ''
+            });
+            setShowAddTask(true);
+          }}
+          className="fixed bottom-6 right-6 w-14 h-14 bg-amber-400 text-gray-900 rounded-full shadow-lg flex items-center justify-center active:bg-amber-500 hover:shadow-xl transition-all"
+        >
+          <Plus className="w-6 h-6" />
+        </button>
+      )}
+
+      {/* Task Editor Modal */}
+      {showAddTask && editingTask && (
+        <TaskEditor
+          task={editingTask}
+          boards={boards}
+          members={members}
+          recipes={recipes}
+          onSaveRecipe={saveRecipe}
+          onSave={async (taskData) => {
+            try {
+              if (editingTask.id && editingTask.series_id && isScheduled(editingTask)) {
+                setSeriesAction({ type: 'edit', task: editingTask, updates: taskData });
+              } else if (editingTask.id && taskData.repeat && isScheduled(editingTask)) {
+                await startSeries(editingTask, taskData, taskData.repeat);
+              } else if (editingTask.id) {
+                await updateTask(editingTask.id, taskData);
+              } else {
+                const newTask = await addTask(taskData);
+                console.log('Task added:', newTask);
+              }
+              setShowAddTask(false);
+              setEditingTask(null);
+              // Force a refresh
+              const loadedTasks = await storage.getTasks();
+              setTasks(loadedTasks);
+            } catch (error) {
+              console.error('Error saving task:', error);
             }
           }}
           onCancel={() => {
@@ -482,79 +1546,678 @@ const WeeklyTaskApp = () => {
           }}
         />
       )}
+
+      {/* Backup & Restore */}
+      {showBackup && (
+        <BackupDialog
+          tasks={tasks}
+          weeks={weeks}
+          recipes={recipes}
+          boards={boards}
+          members={members}
+          onRestore={restoreData}
+          onClose={() => setShowBackup(false)}
+        />
+      )}
+
+      {/* Shopping List */}
+      {showShoppingList && currentWeek && (
+        <ShoppingList
+          week={currentWeek}
+          tasks={tasks}
+          onToggle={(key) => toggleShoppingItem(currentWeek, key)}
+          onClear={() => updateWeek(currentWeek.id, { shopping_checked: [] })}
+          onClose={() => setShowShoppingList(false)}
+        />
+      )}
+
+      {/* Personal Bests */}
+      {showPersonalBests && (
+        <PersonalBests
+          tasks={tasks}
+          onClose={() => setShowPersonalBests(false)}
+        />
+      )}
+
+      {/* Review Prompt */}
+      {showNextWeekPrompt && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end justify-center z-50">
+          <div className="bg-white rounded-t-2xl w-full p-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <BarChart3 className="w-5 h-5 text-teal-600" />
+              <h2 className="text-lg font-bold">How did this week go?</h2>
+            </div>
+            <p className="text-sm text-gray-600">
+              Take a quick look at this week's review before moving on.
+            </p>
+            <button
+              onClick={() => {
+                setShowNextWeekPrompt(false);
+                setReview({ weekId: currentWeekId, beforeNextWeek: true });
+              }}
+              className="w-full px-4 py-3 bg-teal-500 text-white rounded-lg font-medium active:bg-teal-600"
+            >
+              Review this week
+            </button>
+            <button
+              onClick={() => {
+                setShowNextWeekPrompt(false);
+                startNextWeek();
+              }}
+              className="w-full px-4 py-3 bg-gray-200 text-gray-800 rounded-lg font-medium active:bg-gray-300"
+            >
+              Skip to next week
+            </button>
+            <button
+              onClick={() => setShowNextWeekPrompt(false)}
+              className="w-full px-4 py-2 text-gray-600 text-sm font-medium"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Week Review */}
+      {review && (
+        <WeekReview
+          tasks={tasks}
+          weeks={weeks}
+          boards={boards}
+          members={members}
+          weekId={review.weekId}
+          onStartNextWeek={review.beforeNextWeek
+            ? () => {
+                setReview(null);
+                startNextWeek();
+              }
+            : undefined}
+          onClose={() => setReview(null)}
+        />
+      )}
+
+      {/* Settings */}
+      {showSettings && (
+        <SettingsDialog
+          settings={settings}
+          boards={boards}
+          trashCount={trash.length}
+          onChange={saveSettings}
+          onOpenBoards={() => {
+            setShowSettings(false);
+            setShowBoards(true);
+          }}
+          onOpenMembers={() => {
+            setShowSettings(false);
+            setShowMembers(true);
+          }}
+          onOpenTemplates={() => {
+            setShowSettings(false);
+            setShowTemplates(true);
+          }}
+          onOpenBackup={() => {
+            setShowSettings(false);
+            setShowBackup(true);
+          }}
+          onOpenCalendar={() => {
+            setShowSettings(false);
+            setShowCalendar(true);
+          }}
+          onOpenTrash={() => {
+            setShowSettings(false);
+            setShowTrash(true);
+          }}
+          onOpenSync={() => {
+            setShowSettings(false);
+            setShowSync(true);
+          }}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {/* Search */}
+      {showSearch && (
+        <SearchView
+          tasks={tasks}
+          boards={boards}
+          onJump={jumpToTask}
+          onClose={() => setShowSearch(false)}
+        />
+      )}
+
+      {/* Boards */}
+      {showBoards && (
+        <BoardManager
+          boards={boards}
+          tasks={tasks}
+          onChange={saveBoards}
+          onClose={() => setShowBoards(false)}
+        />
+      )}
+
+      {/* Household */}
+      {showMembers && (
+        <MemberManager
+          members={members}
+          tasks={tasks}
+          memberId={settings.member_id}
+          onChange={saveMembers}
+          onSetMe={(member_id) => {
+            saveSettings({ ...settings, member_id });
+            if (!member_id && assigneeFilter === 'mine') setAssigneeFilter('everyone');
+          }}
+          onClose={() => setShowMembers(false)}
+        />
+      )}
+
+      {/* Week Templates */}
+      {showTemplates && (
+        <TemplateManager
+          templates={templates}
+          tasks={tasks}
+          boards={boards}
+          weekId={currentWeekId}
+          newWeekTemplate={settings.new_week_template}
+          onChange={saveTemplates}
+          onSetNewWeekTemplate={(new_week_template) => saveSettings({ ...settings, new_week_template })}
+          onApply={(template, added) => commitTasks(`"${template.name}" applied`, [...tasks, ...added])}
+          onClose={() => setShowTemplates(false)}
+        />
+      )}
+
+      {/* Weekly Targets */}
+      {showTargets && currentWeek && (
+        <TargetsDialog
+          tasks={tasks}
+          weeks={weeks}
+          boards={boards}
+          week={currentWeek}
+          onSave={(targets) => {
+            updateWeek(currentWeek.id, { targets });
+            setShowTargets(false);
+          }}
+          onClose={() => setShowTargets(false)}
+        />
+      )}
+
+      {/* Calendar */}
+      {showCalendar && (
+        <CalendarDialog
+          tasks={tasks}
+          boards={boards}
+          weekId={currentWeekId}
+          defaultBoard={defaultBoard}
+          onImport={async ({ added, updated }) => {
+            const byId = new Map(updated.map(t => [t.id, t]));
+            const count = added.length + updated.length;
+            await commitTasks(
+              `${count} calendar ${count === 1 ? 'event' : 'events'} imported`,
+              [...tasks.map(t => byId.get(t.id) || t), ...added]
+            );
+          }}
+          onClose={() => setShowCalendar(false)}
+        />
+      )}
+
+      {/* Sync */}
+      {showSync && (
+        <SyncDialog
+          sync={sync}
+          onClose={() => setShowSync(false)}
+        />
+      )}
+
+      {/* Trash */}
+      {showTrash && (
+        <TrashDialog
+          trash={trash}
+          onRestore={restoreFromTrash}
+          onPurge={purgeFromTrash}
+          onClose={() => setShowTrash(false)}
+        />
+      )}
+
+      {/* Skip Prompt */}
+      {skippingTask && (
+        <SkipDialog
+          task={skippingTask}
+          onSkip={async (reason) => {
+            const task = skippingTask;
+            setSkippingTask(null);
+            await updateTask(task.id, { status: 'skipped', skip_reason: reason || undefined });
+          }}
+          onCancel={() => setSkippingTask(null)}
+        />
+      )}
+
+      {/* Recurring Task Scope Prompt */}
+      {seriesAction && (
+        <SeriesScopeDialog
+          type={seriesAction.type}
+          onThis={async () => {
+            const { type, task, updates } = seriesAction;
+            setSeriesAction(null);
+            if (type === 'delete') {
+              await deleteTask(task.id);
+            } else {
+              // A single occurrence keeps the series rule unchanged
+              await updateTask(task.id, { ...updates, repeat: task.repeat });
+            }
+          }}
+          onSeries={async () => {
+            const { type, task, updates } = seriesAction;
+            setSeriesAction(null);
+            if (type === 'delete') {
+              await deleteSeries(task);
+            } else {
+              await updateSeries(task, updates || {});
+            }
+          }}
+          onCancel={() => setSeriesAction(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+const SkipDialog: React.FC<{
+  task: Task;
+  onSkip: (reason: string) => void;
+  onCancel: () => void;
+}> = ({ task, onSkip, onCancel }) => {
+  const [reason, setReason] = useState('');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end justify-center z-50">
+      <div className="bg-white rounded-t-2xl w-full p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <SkipForward className="w-5 h-5 text-gray-600" />
+          <h2 className="text-lg font-bold">Skip "{task.title}"</h2>
+        </div>
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg text-base"
+          placeholder="Reason (optional)"
+          autoFocus
+        />
+        <div className="flex flex-wrap gap-2">
+          {['No time', 'Not needed', 'Sick', 'Plans changed'].map(quick => (
+            <button
+              key={quick}
+              onClick={() => setReason(quick)}
+              className="px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-xs font-medium"
+            >
+              {quick}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-3 bg-gray-200 text-gray-800 rounded-lg font-medium active:bg-gray-300"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSkip(reason.trim())}
+            className="flex-1 px-4 py-3 bg-gray-700 text-white rounded-lg font-medium active:bg-gray-800"
+          >
+            Skip
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ReminderCard: React.FC<{
+  task: Task;
+  onDone: () => void;
+  onSnooze: (option: SnoozeOption) => void;
+  onDismiss: () => void;
+}> = ({ task, onDone, onSnooze, onDismiss }) => {
+  return (
+    <div className="bg-white rounded-lg border border-amber-300 shadow-lg p-3">
+      <div className="flex items-start gap-2">
+        <BellRing className="w-5 h-5 text-amber-500 flex-shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <div className="text-sm font-semibold text-gray-900">{task.title}</div>
+          {task.remind_at && (
+            <div className="text-xs text-gray-500">
+              {new Date(task.remind_at).toLocaleString(getLocale(), {
+                weekday: 'short',
+                hour: 'numeric',
+                minute: '2-digit'
+              })}
+            </div>
+          )}
+        </div>
+        <button
+          onClick={onDismiss}
+          className="flex-shrink-0 p-1 hover:bg-gray-100 rounded-lg text-gray-500"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="grid grid-cols-4 gap-2 mt-3">
+        <button
+          onClick={onDone}
+          className="px-2 py-2 bg-teal-500 text-white rounded-lg text-xs font-medium active:bg-teal-600"
+        >
+          Done
+        </button>
+        {([['10m', '10 min'], ['1h', '1 hour'], ['tomorrow', 'Tomorrow']] as [SnoozeOption, string][]).map(([option, label]) => (
+          <button
+            key={option}
+            onClick={() => onSnooze(option)}
+            className="px-2 py-2 bg-gray-200 text-gray-800 rounded-lg text-xs font-medium active:bg-gray-300"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const SeriesScopeDialog: React.FC<{
+  type: 'edit' | 'delete';
+  onThis: () => void;
+  onSeries: () => void;
+  onCancel: () => void;
+}> = ({ type, onThis, onSeries, onCancel }) => {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end justify-center z-50">
+      <div className="bg-white rounded-t-2xl w-full p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <Repeat className="w-5 h-5 text-teal-600" />
+          <h2 className="text-lg font-bold">
+            {type === 'edit' ? 'Edit recurring task' : 'Delete recurring task'}
+          </h2>
+        </div>
+        <p className="text-sm text-gray-600">
+          Apply to this occurrence only, or to the whole series? Earlier occurrences are kept.
+        </p>
+        <button
+          onClick={onThis}
+          className="w-full px-4 py-3 bg-gray-200 text-gray-800 rounded-lg font-medium active:bg-gray-300"
+        >
+          This occurrence
+        </button>
+        <button
+          onClick={onSeries}
+          className={`w-full px-4 py-3 text-white rounded-lg font-medium ${
+            type === 'delete' ? 'bg-red-500 active:bg-red-600' : 'bg-teal-500 active:bg-teal-600'
+          }`}
+        >
+          Whole series
+        </button>
+        <button
+          onClick={onCancel}
+          className="w-full px-4 py-2 text-gray-600 text-sm font-medium"
+        >
+          Cancel
+        </button>
+      </div>
     </div>
   );
 };
 
 const TaskCard: React.FC<{
   task: Task;
+  board: BoardConfig;
+  assignee?: Member;
+  dragging?: boolean;
+  dropPosition?: 'before' | 'after';
+  offerComplete?: boolean;
+  onDragStart: (e: React.PointerEvent) => void;
   onToggle: () => void;
+  onToggleItem: (itemId: string) => void;
+  onDismissComplete: () => void;
+  onSkip: () => void;
+  onSendToBacklog: () => void;
   onEdit: () => void;
   onDelete: () => void;
-}> = ({ task, onToggle, onEdit, onDelete }) => {
-  const boardConfig = {
-    todos: { icon: ListTodo, label: 'To-Do', color: 'bg-blue-100 text-blue-700' },
-    exercise: { icon: Dumbbell, label: 'Exercise', color: 'bg-green-100 text-green-700' },
-    dinner: { icon: Utensils, label: 'Dinner', color: 'bg-orange-100 text-orange-700' }
-  };
-
-  const config = boardConfig[task.board];
-  const Icon = config.icon;
+  // Set while picking tasks for a bulk action
+  selected?: boolean;
+  onSelect?: () => void;
+}> = ({
+  task, board, assignee, dragging, dropPosition, offerComplete,
+  onDragStart, onToggle, onToggleItem, onDismissComplete, onSkip, onSendToBacklog, onEdit, onDelete, selected, onSelect
+}) => {
+  const [showChecklist, setShowChecklist] = useState(false);
+  const Icon = getBoardIcon(board.icon);
+  const progress = getChecklistProgress(task.checklist);
 
   return (
-    <div className={`bg-white rounded-lg border shadow-sm ${
-      task.status === 'done' ? 'border-gray-200' : 'border-gray-300'
-    }`}>
+    <div
+      data-drop-task={task.id}
+      className={`relative rounded-lg border shadow-sm ${
+        task.status === 'skipped' ? 'bg-gray-50' : 'bg-white'
+      } ${
+        task.status === 'open' ? 'border-gray-300' : 'border-gray-200'
+      } ${dragging ? 'opacity-40' : ''}`}
+    >
+      {dropPosition && (
+        <div className={`absolute left-0 right-0 h-1 bg-teal-500 rounded-full ${
+          dropPosition === 'before' ? '-top-2' : '-bottom-2'
+        }`} />
+      )}
+      {/* Covers the card's own buttons so a tap only picks it */}
+      {onSelect && (
+        <button
+          onClick={onSelect}
+          className={`absolute inset-0 z-10 rounded-lg ${selected ? 'ring-2 ring-teal-500 bg-teal-500 bg-opacity-10' : ''}`}
+        >
+          <span className={`absolute top-3 right-3 w-6 h-6 rounded-full border-2 flex items-center justify-center ${
+            selected ? 'bg-teal-500 border-teal-500' : 'bg-white border-gray-300'
+          }`}>
+            {selected && <Check className="w-4 h-4 text-white" />}
+          </span>
+        </button>
+      )}
       <div className="p-4">
         <div className="flex items-start gap-3">
+          <div
+            onPointerDown={onDragStart}
+            className="flex-shrink-0 -ml-2 mt-0.5 text-gray-300 cursor-grab touch-none select-none"
+            title="Drag to reorder or onto a day"
+          >
+            <GripVertical className="w-5 h-5" />
+          </div>
           <button
             onClick={onToggle}
             className={`flex-shrink-0 w-6 h-6 rounded-full border-2 flex items-center justify-center mt-0.5 ${
               task.status === 'done'
                 ? 'bg-green-500 border-green-500'
+                : task.status === 'skipped'
+                ? 'bg-gray-300 border-gray-300'
                 : 'border-gray-300 hover:border-green-500 active:border-green-600'
             }`}
           >
             {task.status === 'done' && <Check className="w-4 h-4 text-white" />}
+            {task.status === 'skipped' && <SkipForward className="w-3 h-3 text-white" />}
           </button>
           
           <div className="flex-1 min-w-0" onClick={onEdit}>
             <div className="flex items-center gap-2 mb-1">
-              <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${config.color}`}>
+              <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${getBoardColor(board.color).chip}`}>
                 <Icon className="w-3 h-3" />
-                {config.label}
+                {board.name}
               </span>
+              {assignee && (
+                <span className="inline-flex items-center gap-1 text-xs text-gray-600">
+                  <MemberAvatar member={assignee} size="sm" />
+                  {board.kind === 'dinner' ? `${assignee.name} cooks` : assignee.name}
+                </span>
+              )}
             </div>
             
             <div className={`text-base font-medium ${
-              task.status === 'done' ? 'line-through text-gray-500' : 'text-gray-900'
+              task.status === 'open' ? 'text-gray-900' : 'line-through text-gray-500'
             }`}>
               {task.title}
             </div>
             
+            {task.status === 'skipped' && (
+              <div className="text-xs text-gray-500 italic mt-0.5">
+                Skipped{task.skip_reason ? `: ${task.skip_reason}` : ''}
+              </div>
+            )}
+            
             {task.notes && (
               <div className="text-sm text-gray-600 mt-1">{task.notes}</div>
             )}
             
+            {task.meta?.workout && (
+              <div className="flex items-center gap-1 mt-1 text-xs text-gray-500">
+                <Dumbbell className="w-3 h-3" />
+                {describeWorkout(task.meta.workout)}
+              </div>
+            )}
+            
+            {task.meta?.recipe && (
+              <div className="flex items-center gap-3 mt-1 text-xs text-gray-500">
+                <span className="flex items-center gap-1">
+                  <ChefHat className="w-3 h-3" />
+                  {task.meta.recipe.servings ? `Serves ${task.meta.recipe.servings} · ` : ''}
+                  {task.meta.recipe.ingredients.length} ingredients
+                </span>
+                {task.meta.recipe.url && (
+                  <a
+                    href={task.meta.recipe.url}
+                    target="_blank"
+                    rel="noreferrer"
+                    onClick={(e) => e.stopPropagation()}
+                    className="flex items-center gap-1 text-teal-600"
+                  >
+                    <ExternalLink className="w-3 h-3" />
+                    Recipe
+                  </a>
+                )}
+              </div>
+            )}
+            
             <div className="flex items-center gap-3 mt-2">
+              {(task.start_time || task.duration_min) && (
+                <div className="flex items-center gap-1 text-xs text-gray-500">
+                  <Timer className="w-3 h-3" />
+                  {[task.start_time && formatTime(task.start_time), task.duration_min && formatDuration(task.duration_min)]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </div>
+              )}
+              
               {task.remind_at && (
                 <div className="flex items-center gap-1 text-xs text-gray-500">
                   <Clock className="w-3 h-3" />
-                  {new Date(task.remind_at).toLocaleTimeString('en-US', { 
+                  {new Date(task.remind_at).toLocaleTimeString(getLocale(), { 
                     hour: 'numeric', 
                     minute: '2-digit' 
                   })}
                 </div>
               )}
               
+              {task.repeat && (
+                <div className="flex items-center gap-1 text-xs text-gray-500">
+                  <Repeat className="w-3 h-3" />
+                  {describeRepeat(task.repeat)}
+                </div>
+              )}
+              
+              {(task.roll_count || 0) > 0 && (
+                <span className="text-xs text-amber-700">
+                  Rolled over{task.roll_count! > 1 ? ` ×${task.roll_count}` : ''}
+                </span>
+              )}
+              
               {task.priority === 'high' && (
                 <span className="text-xs px-2 py-0.5 bg-red-100 text-red-700 rounded-full font-medium">
                   High Priority
                 </span>
               )}
+              
+              {progress.total > 0 && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setShowChecklist(!showChecklist);
+                  }}
+                  className={`flex items-center gap-1 text-xs font-medium ${
+                    progress.done === progress.total ? 'text-green-600' : 'text-gray-500'
+                  }`}
+                >
+                  <ListChecks className="w-3 h-3" />
+                  {progress.done}/{progress.total}
+                  {showChecklist ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                </button>
+              )}
             </div>
+            
+            {showChecklist && task.checklist && (
+              <div className="mt-2 space-y-1" onClick={(e) => e.stopPropagation()}>
+                {task.checklist.map(item => (
+                  <button
+                    key={item.id}
+                    onClick={() => onToggleItem(item.id)}
+                    className="w-full flex items-center gap-2 text-left text-sm"
+                  >
+                    <span className={`flex-shrink-0 w-4 h-4 rounded border-2 flex items-center justify-center ${
+                      item.done ? 'bg-green-500 border-green-500' : 'border-gray-300'
+                    }`}>
+                      {item.done && <Check className="w-3 h-3 text-white" />}
+                    </span>
+                    <span className={item.done ? 'line-through text-gray-500' : 'text-gray-800'}>{item.title}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+            
+            {offerComplete && (
+              <div
+                className="flex items-center gap-2 mt-2 p-2 bg-green-50 rounded-lg text-sm text-green-800"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <span className="flex-1">Everything's ticked off. Complete the task?</span>
+                <button
+                  onClick={onToggle}
+                  className="px-3 py-1 bg-green-500 text-white rounded-lg font-medium active:bg-green-600"
+                >
+                  Complete
+                </button>
+                <button
+                  onClick={onDismissComplete}
+                  className="p-1 text-green-700"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            )}
           </div>
           
+          {task.status === 'open' && (
+            <button
+              onClick={onSkip}
+              className="flex-shrink-0 p-2 hover:bg-gray-100 active:bg-gray-200 rounded-lg text-gray-500"
+              title="Skip"
+            >
+              <SkipForward className="w-5 h-5" />
+            </button>
+          )}
+          
+          {/* Repeating tasks come back by themselves, so they stay put */}
+          {task.status === 'open' && !task.series_id && (
+            <button
+              onClick={onSendToBacklog}
+              className="flex-shrink-0 p-2 hover:bg-gray-100 active:bg-gray-200 rounded-lg text-gray-500"
+              title="Send to backlog"
+            >
+              <Inbox className="w-5 h-5" />
+            </button>
+          )}
+          
           <button
             onClick={onDelete}
             className="flex-shrink-0 p-2 hover:bg-red-50 active:bg-red-100 rounded-lg text-red-600"
@@ -569,10 +2232,43 @@ const TaskCard: React.FC<{
 
 const TaskEditor: React.FC<{
   task: Task;
+  boards: BoardConfig[];
+  members: Member[];
+  recipes: Recipe[];
+  onSaveRecipe: (recipe: Recipe) => void;
   onSave: (task: Omit<Task, 'id' | 'created_at' | 'updated_at' | 'week_id'>) => void;
   onCancel: () => void;
-}> = ({ task, onSave, onCancel }) => {
+}> = ({ task, boards, members, recipes, onSaveRecipe, onSave, onCancel }) => {
   const [formData, setFormData] = useState(task);
+  const boardKind = getBoardKind(boards, formData.board);
+  const activeBoards = getActiveBoards(boards);
+  // A task on an archived board can stay there, but nothing new goes onto one
+  const boardChoices = activeBoards.some(b => b.id === task.board)
+    ? activeBoards
+    : [...activeBoards, getBoard(boards, task.board)];
+  const currentAssignee = getMember(members, task.assignee);
+  const memberChoices = currentAssignee?.archived
+    ? [...getActiveMembers(members), currentAssignee]
+    : getActiveMembers(members);
+  
+  const setRepeat = (frequency: RepeatFrequency | 'none') => {
+    if (frequency === 'none' || !formData.scheduled_for) {
+      setFormData({ ...formData, repeat: undefined });
+      return;
+    }
+    const date = parseDate(formData.scheduled_for);
+    setFormData({
+      ...formData,
+      repeat: {
+        frequency,
+        starts_on: formData.repeat?.starts_on || formData.scheduled_for,
+        until: formData.repeat?.until,
+        weekdays: formData.repeat?.weekdays || [date.getDay()],
+        interval: formData.repeat?.interval || 1,
+        day_of_month: formData.repeat?.day_of_month || date.getDate()
+      }
+    });
+  };
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end justify-center z-50">
@@ -595,33 +2291,51 @@ const TaskEditor: React.FC<{
               Board
             </label>
             <div className="grid grid-cols-3 gap-2">
-              {(['todos', 'exercise', 'dinner'] as Board[]).map(board => {
-                const configs = {
-                  todos: { icon: ListTodo, label: 'To-Dos' },
-                  exercise: { icon: Dumbbell, label: 'Exercise' },
-                  dinner: { icon: Utensils, label: 'Dinner' }
-                };
-                const config = configs[board];
-                const Icon = config.icon;
+              {boardChoices.map(board => {
+                const Icon = getBoardIcon(board.icon);
                 
                 return (
                   <button
-                    key={board}
-                    onClick={() => setFormData({ ...formData, board })}
+                    key={board.id}
+                    onClick={() => setFormData({ ...formData, board: board.id })}
                     className={`flex flex-col items-center gap-1 p-3 rounded-lg border-2 ${
-                      formData.board === board
+                      formData.board === board.id
                         ? 'border-teal-600 bg-teal-50'
                         : 'border-gray-200 bg-white'
                     }`}
                   >
                     <Icon className="w-5 h-5" />
-                    <span className="text-xs font-medium">{config.label}</span>
+                    <span className="text-xs font-medium truncate max-w-full">{board.name}</span>
                   </button>
                 );
               })}
             </div>
           </div>
           
+          {memberChoices.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {getAssigneeLabel(boardKind)}
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {[undefined, ...memberChoices].map(member => (
+                  <button
+                    key={member?.id || 'nobody'}
+                    onClick={() => setFormData({ ...formData, assignee: member?.id })}
+                    className={`flex items-center gap-2 px-3 py-2 rounded-lg border-2 text-sm font-medium ${
+                      formData.assignee === member?.id
+                        ? 'border-teal-600 bg-teal-50 text-teal-700'
+                        : 'border-gray-200 bg-white text-gray-700'
+                    }`}
+                  >
+                    {member && <MemberAvatar member={member} size="sm" />}
+                    {member ? member.name : 'Nobody'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Title *
@@ -649,6 +2363,31 @@ const TaskEditor: React.FC<{
             />
           </div>
           
+          <ChecklistFields
+            items={formData.checklist || []}
+            onChange={(checklist) => setFormData({ ...formData, checklist })}
+          />
+          
+          {boardKind === 'exercise' && (
+            <WorkoutFields
+              workout={formData.meta?.workout}
+              onChange={(workout) => setFormData({ ...formData, meta: { ...formData.meta, workout } })}
+            />
+          )}
+          
+          {boardKind === 'dinner' && (
+            <RecipeFields
+              title={formData.title}
+              recipe={formData.meta?.recipe}
+              recipes={recipes}
+              onChange={(recipe) => setFormData({ ...formData, meta: { ...formData.meta, recipe } })}
+              onSaveToLibrary={(recipe) => {
+                setFormData({ ...formData, meta: { ...formData.meta, recipe } });
+                onSaveRecipe(recipe);
+              }}
+            />
+          )}
+          
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Priority
@@ -672,22 +2411,189 @@ const TaskEditor: React.FC<{
           
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Reminder Time
+              Date
             </label>
             <input
-              type="time"
-              value={formData.remind_at ? formData.remind_at.split('T')[1].slice(0, 5) : ''}
+              type="date"
+              value={formData.scheduled_for || ''}
               onChange={(e) => {
-                if (e.target.value) {
-                  const datetime = `${formData.scheduled_for}T${e.target.value}:00`;
-                  setFormData({ ...formData, remind_at: datetime });
-                } else {
-                  setFormData({ ...formData, remind_at: undefined });
-                }
+                const scheduled_for = e.target.value;
+                // Without a date the task goes to the backlog, where nothing repeats
+                if (!scheduled_for && task.series_id) return;
+                setFormData({
+                  ...formData,
+                  scheduled_for: scheduled_for || undefined,
+                  remind_at: formData.remind_at && scheduled_for ? `${scheduled_for}T${formData.remind_at.split('T')[1]}` : undefined,
+                  repeat: scheduled_for ? formData.repeat : undefined
+                });
               }}
               className="w-full px-4 py-3 border border-gray-300 rounded-lg text-base"
             />
+            {!formData.scheduled_for && (
+              <p className="text-xs text-gray-500 mt-1">No date yet, so this stays in the backlog.</p>
+            )}
           </div>
+          
+          <div className="flex gap-3">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Start Time
+              </label>
+              <input
+                type="time"
+                value={formData.start_time || ''}
+                onChange={(e) => setFormData({ ...formData, start_time: e.target.value || undefined })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg text-base"
+              />
+            </div>
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Duration (min)
+              </label>
+              <input
+                type="number"
+                min={0}
+                step={5}
+                value={formData.duration_min ?? ''}
+                onChange={(e) => setFormData({
+                  ...formData,
+                  duration_min: Number(e.target.value) > 0 ? Number(e.target.value) : undefined
+                })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg text-base"
+                placeholder="e.g. 45"
+              />
+            </div>
+          </div>
+          
+          {/* Reminder and repeat need a day to hang off */}
+          {formData.scheduled_for && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Reminder Time
+                </label>
+                <input
+                  type="time"
+                  value={formData.remind_at ? formData.remind_at.split('T')[1].slice(0, 5) : ''}
+                  onChange={(e) => {
+                    if (e.target.value) {
+                      const datetime = `${formData.scheduled_for}T${e.target.value}:00`;
+                      setFormData({ ...formData, remind_at: datetime });
+                    } else {
+                      setFormData({ ...formData, remind_at: undefined });
+                    }
+                  }}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg text-base"
+                />
+              </div>
+          
+              {/* Backlog tasks get a day before they can repeat */}
+              {task.scheduled_for && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Repeat
+                  </label>
+                  <div className="grid grid-cols-5 gap-2">
+                    {(['none', 'daily', 'weekdays', 'weekly', 'monthly'] as const).map(frequency => (
+                      <button
+                        key={frequency}
+                        onClick={() => setRepeat(frequency)}
+                        className={`px-1 py-3 rounded-lg border-2 text-xs font-medium ${
+                          (formData.repeat?.frequency || 'none') === frequency
+                            ? 'border-teal-600 bg-teal-50 text-teal-700'
+                            : 'border-gray-200 bg-white text-gray-700'
+                        }`}
+                      >
+                        {{ none: 'Never', daily: 'Daily', weekdays: 'Days', weekly: 'Weeks', monthly: 'Monthly' }[frequency]}
+                      </button>
+                    ))}
+                  </div>
+            
+                  {formData.repeat?.frequency === 'weekdays' && (
+                    <div className="grid grid-cols-7 gap-1 mt-2">
+                      {getWeekdayOrder().map(day => {
+                        const weekdays = formData.repeat!.weekdays || [];
+                        const active = weekdays.includes(day);
+                        return (
+                          <button
+                            key={day}
+                            onClick={() => setFormData({
+                              ...formData,
+                              repeat: {
+                                ...formData.repeat!,
+                                weekdays: active ? weekdays.filter(d => d !== day) : [...weekdays, day]
+                              }
+                            })}
+                            className={`py-2 rounded-lg border-2 text-xs font-medium ${
+                              active
+                                ? 'border-teal-600 bg-teal-50 text-teal-700'
+                                : 'border-gray-200 bg-white text-gray-700'
+                            }`}
+                          >
+                            {getWeekdayLabel(day)}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+            
+                  {formData.repeat?.frequency === 'weekly' && (
+                    <div className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+                      Every
+                      <input
+                        type="number"
+                        min={1}
+                        value={formData.repeat.interval || 1}
+                        onChange={(e) => setFormData({
+                          ...formData,
+                          repeat: { ...formData.repeat!, interval: Math.max(1, Number(e.target.value) || 1) }
+                        })}
+                        className="w-20 px-3 py-2 border border-gray-300 rounded-lg text-base"
+                      />
+                      weeks
+                    </div>
+                  )}
+            
+                  {formData.repeat?.frequency === 'monthly' && (
+                    <div className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+                      On day
+                      <input
+                        type="number"
+                        min={1}
+                        max={31}
+                        value={formData.repeat.day_of_month || 1}
+                        onChange={(e) => setFormData({
+                          ...formData,
+                          repeat: {
+                            ...formData.repeat!,
+                            day_of_month: Math.min(31, Math.max(1, Number(e.target.value) || 1))
+                          }
+                        })}
+                        className="w-20 px-3 py-2 border border-gray-300 rounded-lg text-base"
+                      />
+                      of the month
+                    </div>
+                  )}
+            
+                  {formData.repeat && (
+                    <div className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+                      Ends
+                      <input
+                        type="date"
+                        value={formData.repeat.until || ''}
+                        min={formData.scheduled_for}
+                        onChange={(e) => setFormData({
+                          ...formData,
+                          repeat: { ...formData.repeat!, until: e.target.value || undefined }
+                        })}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-base"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
         </div>
         
         <div className="sticky bottom-0 bg-white border-t p-4 flex gap-3">
@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { CalendarPlus, GripVertical, Inbox, Sparkles, X } from 'lucide-react';
+import { BoardConfig, Member, Task } from './types';
+import { formatDate, getLocale } from './dates';
+import { getBoard } from './boards';
+import { getBoardColor, getBoardIcon } from './boardStyles';
+import { getMember } from './members';
+import { describeAge, getBacklog, getBacklogAge, suggestForWeek } from './backlog';
+import MemberAvatar from './MemberAvatar';
+
+const DayPicker: React.FC<{
+  weekDates: Date[];
+  value?: string;
+  onPick: (date: string) => void;
+}> = ({ weekDates, value, onPick }) => {
+  const today = formatDate(new Date());
+  return (
+    <div className="grid grid-cols-7 gap-1">
+      {weekDates.map(date => {
+        const dateStr = formatDate(date);
+        return (
+          <button
+            key={dateStr}
+            onClick={() => onPick(dateStr)}
+            disabled={dateStr < today}
+            className={`py-1.5 rounded-lg border-2 text-xs font-medium disabled:opacity-40 ${
+              value === dateStr
+                ? 'border-teal-600 bg-teal-50 text-teal-700'
+                : 'border-gray-200 bg-white text-gray-700'
+            }`}
+          >
+            <div>{date.toLocaleDateString(getLocale(), { weekday: 'narrow' })}</div>
+            <div className="font-bold">{date.getDate()}</div>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+const BacklogView: React.FC<{
+  tasks: Task[];
+  boards: BoardConfig[];
+  members: Member[];
+  weekDates: Date[];
+  selectedDate: string;
+  draggingId?: string;
+  onDragStart: (taskId: string) => (e: React.PointerEvent) => void;
+  onPlan: (plans: { task: Task; date: string }[]) => void;
+  onEdit: (task: Task) => void;
+  onDelete: (task: Task) => void;
+}> = ({ tasks, boards, members, weekDates, selectedDate, draggingId, onDragStart, onPlan, onEdit, onDelete }) => {
+  const [planning, setPlanning] = useState<string | null>(null);
+  const [suggesting, setSuggesting] = useState(false);
+  // Suggested task id to the day it is headed for; unticked suggestions are left out
+  const [picks, setPicks] = useState<Record<string, string | null>>({});
+
+  const backlog = getBacklog(tasks);
+  const suggestions = suggestForWeek(tasks);
+  const today = formatDate(new Date());
+  const weekStrs = weekDates.map(formatDate);
+  // Past days of the week can't be planned into
+  const defaultDay = weekStrs.includes(selectedDate) && selectedDate >= today
+    ? selectedDate
+    : weekStrs.find(d => d >= today) || weekStrs[0];
+  const chosen = suggestions
+    .filter(t => picks[t.id] !== null)
+    .map(t => ({ task: t, date: picks[t.id] || defaultDay }));
+
+  const openSuggestions = () => {
+    setPicks({});
+    setSuggesting(true);
+  };
+
+  return (
+    <div>
+      <div className="mb-3 flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Backlog</h2>
+          <p className="text-sm text-gray-600">
+            {backlog.length} {backlog.length === 1 ? 'task' : 'tasks'} without a day. Drag one onto a day above, or plan it.
+          </p>
+        </div>
+        {backlog.length > 0 && (
+          <button
+            onClick={openSuggestions}
+            className="flex-shrink-0 flex items-center gap-1 px-3 py-2 bg-teal-500 text-white rounded-lg text-sm font-medium active:bg-teal-600"
+          >
+            <Sparkles className="w-4 h-4" />
+            Suggest
+          </button>
+        )}
+      </div>
+
+      {/* Suggestions */}
+      {suggesting && (
+        <div className="mb-3 p-3 bg-teal-50 border border-teal-200 rounded-lg space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-teal-900">Suggested for this week</h3>
+            <button
+              onClick={() => setSuggesting(false)}
+              className="p-1 text-teal-700"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <p className="text-xs text-teal-800">Highest priority first, then whatever has waited longest.</p>
+          {suggestions.map(task => {
+            const included = picks[task.id] !== null;
+            return (
+              <div key={task.id} className="space-y-2">
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={included}
+                    onChange={(e) => setPicks({ ...picks, [task.id]: e.target.checked ? defaultDay : null })}
+                    className="w-4 h-4 accent-teal-600"
+                  />
+                  <span className="flex-1 font-medium text-gray-900">{task.title}</span>
+                  {task.priority === 'high' && (
+                    <span className="text-xs px-2 py-0.5 bg-red-100 text-red-700 rounded-full font-medium">High</span>
+                  )}
+                  <span className="text-xs text-gray-500">{describeAge(getBacklogAge(task))}</span>
+                </label>
+                {included && (
+                  <DayPicker
+                    weekDates={weekDates}
+                    value={picks[task.id] || defaultDay}
+                    onPick={(date) => setPicks({ ...picks, [task.id]: date })}
+                  />
+                )}
+              </div>
+            );
+          })}
+          <button
+            onClick={() => {
+              onPlan(chosen);
+              setSuggesting(false);
+            }}
+            disabled={chosen.length === 0}
+            className="w-full px-4 py-3 bg-teal-500 text-white rounded-lg font-medium active:bg-teal-600 disabled:opacity-50"
+          >
+            Plan {chosen.length} {chosen.length === 1 ? 'task' : 'tasks'}
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {backlog.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="text-gray-400 mb-2">
+              <Inbox className="w-12 h-12 mx-auto" />
+            </div>
+            <p className="text-gray-500">Nothing waiting</p>
+            <p className="text-sm text-gray-400 mt-1">Capture someday ideas above and plan them when there's room</p>
+          </div>
+        ) : (
+          backlog.map(task => {
+            const board = getBoard(boards, task.board);
+            const Icon = getBoardIcon(board.icon);
+            const assignee = getMember(members, task.assignee);
+            return (
+              <div
+                key={task.id}
+                className={`rounded-lg border border-gray-300 bg-white shadow-sm p-3 ${draggingId === task.id ? 'opacity-40' : ''}`}
+              >
+                <div className="flex items-start gap-3">
+                  <div
+                    onPointerDown={onDragStart(task.id)}
+                    className="flex-shrink-0 -ml-1 mt-0.5 text-gray-300 cursor-grab touch-none select-none"
+                    title="Drag onto a day"
+                  >
+                    <GripVertical className="w-5 h-5" />
+                  </div>
+                  <div className="flex-1 min-w-0" onClick={() => onEdit(task)}>
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${getBoardColor(board.color).chip}`}>
+                        <Icon className="w-3 h-3" />
+                        {board.name}
+                      </span>
+                      {assignee && <MemberAvatar member={assignee} size="sm" />}
+                      <span className="text-xs text-gray-500">{describeAge(getBacklogAge(task))}</span>
+                    </div>
+                    <div className="text-base font-medium text-gray-900">{task.title}</div>
+                    {task.notes && <div className="text-sm text-gray-600 mt-1">{task.notes}</div>}
+                    {task.priority === 'high' && (
+                      <span className="inline-block mt-2 text-xs px-2 py-0.5 bg-red-100 text-red-700 rounded-full font-medium">
+                        High Priority
+                      </span>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => setPlanning(planning === task.id ? null : task.id)}
+                    className={`flex-shrink-0 p-2 rounded-lg ${planning === task.id ? 'bg-teal-50 text-teal-700' : 'text-gray-500 hover:bg-gray-100'}`}
+                    title="Plan for a day"
+                  >
+                    <CalendarPlus className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => onDelete(task)}
+                    className="flex-shrink-0 p-2 hover:bg-red-50 active:bg-red-100 rounded-lg text-red-600"
+                  >
+                    <X className="w-5 h-5" />
+                  </button>
+                </div>
+                {planning === task.id && (
+                  <div className="mt-3">
+                    <DayPicker
+                      weekDates={weekDates}
+                      onPick={(date) => {
+                        setPlanning(null);
+                        onPlan([{ task, date }]);
+                      }}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BacklogView;
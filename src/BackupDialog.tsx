@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Download, Upload, X } from 'lucide-react';
+import { BoardConfig, Member, Recipe, Task, Week } from './types';
+import { BackupDiff, ParsedBackup, diffBackup, downloadBackup, mergeBackup, parseBackup } from './backup';
+import { getLocale } from './dates';
+
+const BackupDialog: React.FC<{
+  tasks: Task[];
+  weeks: Week[];
+  recipes: Recipe[];
+  boards: BoardConfig[];
+  members: Member[];
+  onRestore: (
+    tasks: Task[],
+    weeks: Week[],
+    recipes: Recipe[],
+    boards: BoardConfig[],
+    members: Member[]
+  ) => Promise<void>;
+  onClose: () => void;
+}> = ({ tasks, weeks, recipes, boards, members, onRestore, onClose }) => {
+  const [backup, setBackup] = useState<ParsedBackup | null>(null);
+  const [diff, setDiff] = useState<BackupDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setBackup(null);
+    setDiff(null);
+    try {
+      const parsed = parseBackup(await file.text());
+      setBackup(parsed);
+      setDiff(diffBackup(tasks, weeks, recipes, boards, members, parsed));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not read this file');
+    }
+  };
+
+  const restore = async (mode: 'merge' | 'replace') => {
+    if (!backup || !diff) return;
+    if (mode === 'replace') {
+      if (!window.confirm('Replace all tasks and weeks on this device with the backup?')) return;
+      await onRestore(backup.tasks, backup.weeks, backup.recipes, backup.boards, backup.members);
+    } else {
+      const merged = mergeBackup(tasks, weeks, recipes, boards, members, diff);
+      await onRestore(merged.tasks, merged.weeks, merged.recipes, merged.boards, merged.members);
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end justify-center z-50">
+      <div className="bg-white rounded-t-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-4 py-3 flex items-center justify-between">
+          <h2 className="text-lg font-bold">Backup &amp; Restore</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div>
+            <p className="text-sm text-gray-600 mb-2">
+              Download every task and week as a JSON file you can keep or move to another device.
+            </p>
+            <button
+              onClick={() => downloadBackup(tasks, weeks, recipes, boards, members)}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-teal-500 text-white rounded-lg font-medium active:bg-teal-600"
+            >
+              <Download className="w-5 h-5" />
+              Export ({tasks.length} tasks, {weeks.length} weeks)
+            </button>
+          </div>
+
+          <div>
+            <label className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-gray-200 text-gray-800 rounded-lg font-medium active:bg-gray-300 cursor-pointer">
+              <Upload className="w-5 h-5" />
+              Import a backup file
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          </div>
+
+          {error && (
+            <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              {error}
+            </div>
+          )}
+
+          {backup && diff && (
+            <div className="space-y-3">
+              {backup.exported_at && (
+                <p className="text-sm text-gray-600">
+                  Backup from {new Date(backup.exported_at).toLocaleString(getLocale())}
+                </p>
+              )}
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                {[
+                  ['New', diff.added.length, 'bg-green-50 text-green-700'],
+                  ['Changed', diff.changed.length, 'bg-blue-50 text-blue-700'],
+                  ['Conflicting', diff.conflicting.length, 'bg-amber-50 text-amber-800'],
+                  ['Unchanged', diff.unchanged, 'bg-gray-50 text-gray-600']
+                ].map(([label, count, color]) => (
+                  <div key={label as string} className={`p-3 rounded-lg ${color}`}>
+                    <div className="text-lg font-bold">{count}</div>
+                    <div className="text-xs font-medium">{label}</div>
+                  </div>
+                ))}
+              </div>
+
+              {diff.conflicting.length > 0 && (
+                <div className="text-sm text-gray-700">
+                  <p className="font-medium mb-1">Newer on this device (kept when merging):</p>
+                  <ul className="list-disc pl-5 text-gray-600">
+                    {diff.conflicting.slice(0, 10).map(t => (
+                      <li key={t.id}>{t.title} ({t.scheduled_for})</li>
+                    ))}
+                  </ul>
+                  {diff.conflicting.length > 10 && (
+                    <p className="text-xs text-gray-500 mt-1">and {diff.conflicting.length - 10} more</p>
+                  )}
+                </div>
+              )}
+
+              {backup.errors.length > 0 && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                  <p className="font-medium mb-1">
+                    {backup.errors.length} malformed {backup.errors.length === 1 ? 'record' : 'records'} will be skipped:
+                  </p>
+                  <ul className="list-disc pl-5 text-xs">
+                    {backup.errors.slice(0, 10).map((message, idx) => (
+                      <li key={idx}>{message}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="flex gap-3">
+                <button
+                  onClick={() => restore('merge')}
+                  className="flex-1 px-4 py-3 bg-teal-500 text-white rounded-lg font-medium active:bg-teal-600"
+                >
+                  Merge
+                </button>
+                <button
+                  onClick={() => restore('replace')}
+                  className="flex-1 px-4 py-3 bg-red-500 text-white rounded-lg font-medium active:bg-red-600"
+                >
+                  Replace all
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupDialog;
@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { Archive, ArchiveRestore, ArrowDown, ArrowUp, Pencil, Plus, X } from 'lucide-react';
+import { BoardConfig, Task } from './types';
+import { generateId } from './utils';
+import { getActiveBoards, moveBoard, sortBoards } from './boards';
+import { boardColors, boardIcons, getBoardColor, getBoardIcon } from './boardStyles';
+
+const BoardForm: React.FC<{
+  board: BoardConfig;
+  onSave: (board: BoardConfig) => void;
+  onCancel: () => void;
+}> = ({ board, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(board);
+
+  return (
+    <div className="p-3 bg-gray-50 rounded-lg space-y-3">
+      <input
+        type="text"
+        value={draft.name}
+        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        className="w-full px-4 py-3 border border-gray-300 rounded-lg text-base"
+        placeholder="Board name, e.g. Kids or Garden"
+        autoFocus
+      />
+
+      <div className="grid grid-cols-6 gap-2">
+        {Object.entries(boardIcons).map(([key, Icon]) => (
+          <button
+            key={key}
+            onClick={() => setDraft({ ...draft, icon: key })}
+            className={`flex items-center justify-center p-2 rounded-lg border-2 ${
+              draft.icon === key ? 'border-teal-600 bg-teal-50' : 'border-gray-200 bg-white'
+            }`}
+          >
+            <Icon className="w-5 h-5" />
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {Object.entries(boardColors).map(([key, color]) => (
+          <button
+            key={key}
+            onClick={() => setDraft({ ...draft, color: key })}
+            className={`w-8 h-8 rounded-full ${color.swatch} ${
+              draft.color === key ? 'ring-2 ring-offset-2 ring-teal-600' : ''
+            }`}
+            title={key}
+          />
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onCancel}
+          className="flex-1 px-4 py-2 bg-gray-200 text-gray-800 rounded-lg font-medium active:bg-gray-300"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave({ ...draft, name: draft.name.trim() })}
+          disabled={!draft.name.trim()}
+          className="flex-1 px-4 py-2 bg-teal-500 text-white rounded-lg font-medium active:bg-teal-600 disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const BoardManager: React.FC<{
+  boards: BoardConfig[];
+  tasks: Task[];
+  onChange: (boards: BoardConfig[]) => void;
+  onClose: () => void;
+}> = ({ boards, tasks, onChange, onClose }) => {
+  const [editing, setEditing] = useState<BoardConfig | null>(null);
+
+  const active = getActiveBoards(boards);
+  const archived = sortBoards(boards.filter(b => b.archived));
+
+  const newBoard = (): BoardConfig => {
+    const now = new Date().toISOString();
+    return {
+      id: '',
+      name: '',
+      icon: 'star',
+      color: 'purple',
+      kind: 'list',
+      sort_order: active.length,
+      archived: false,
+      created_at: now,
+      updated_at: now
+    };
+  };
+
+  const saveBoard = (board: BoardConfig) => {
+    const updated = { ...board, updated_at: new Date().toISOString() };
+    onChange(board.id
+      ? boards.map(b => b.id === board.id ? updated : b)
+      : [...boards, { ...updated, id: generateId('brd') }]
+    );
+    setEditing(null);
+  };
+
+  const setArchived = (board: BoardConfig, value: boolean) => {
+    const now = new Date().toISOString();
+    onChange(boards.map(b => b.id === board.id
+      // Restored boards go to the end of the tabs
+      ? { ...b, archived: value, sort_order: value ? b.sort_order : active.length, updated_at: now }
+      : b
+    ));
+  };
+
+  const renderRow = (board: BoardConfig, index: number) => {
+    const Icon = getBoardIcon(board.icon);
+    const count = tasks.filter(t => t.board === board.id).length;
+
+    if (editing && editing.id === board.id) {
+      return <BoardForm key={board.id} board={editing} onSave={saveBoard} onCancel={() => setEditing(null)} />;
+    }
+
+    return (
+      <div key={board.id} className="flex items-center gap-3 p-3 bg-white rounded-lg border border-gray-200">
+        <span className={`flex-shrink-0 p-2 rounded-lg ${getBoardColor(board.color).chip}`}>
+          <Icon className="w-4 h-4" />
+        </span>
+        <div className="flex-1 min-w-0">
+          <div className="text-base font-medium text-gray-900 truncate">{board.name}</div>
+          <div className="text-xs text-gray-500">{count} {count === 1 ? 'task' : 'tasks'}</div>
+        </div>
+        {!board.archived && (
+          <>
+            <button
+              onClick={() => onChange(moveBoard(boards, board.id, -1))}
+              disabled={index === 0}
+              className="p-1 text-gray-500 disabled:opacity-30"
+            >
+              <ArrowUp className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onChange(moveBoard(boards, board.id, 1))}
+              disabled={index === active.length - 1}
+              className="p-1 text-gray-500 disabled:opacity-30"
+            >
+              <ArrowDown className="w-4 h-4" />
+            </button>
+          </>
+        )}
+        <button
+          onClick={() => setEditing(board)}
+          className="p-1 text-gray-500"
+          title="Edit"
+        >
+          <Pencil className="w-4 h-4" />
+        </button>
+        {board.archived ? (
+          <button
+            onClick={() => setArchived(board, false)}
+            className="p-1 text-teal-600"
+            title="Restore"
+          >
+            <ArchiveRestore className="w-4 h-4" />
+          </button>
+        ) : (
+          <button
+            onClick={() => setArchived(board, true)}
+            // There always has to be somewhere to put a task
+            disabled={active.length === 1}
+            className="p-1 text-gray-500 disabled:opacity-30"
+            title="Archive"
+          >
+            <Archive className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end justify-center z-50">
+      <div className="bg-white rounded-t-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-4 py-3 flex items-center justify-between">
+          <h2 className="text-lg font-bold">Boards</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-2">
+          {active.map(renderRow)}
+
+          {editing && !editing.id ? (
+            <BoardForm board={editing} onSave={saveBoard} onCancel={() => setEditing(null)} />
+          ) : (
+            <button
+              onClick={() => setEditing(newBoard())}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 border-2 border-dashed border-gray-300 rounded-lg text-sm font-medium text-gray-600 active:bg-gray-50"
+            >
+              <Plus className="w-4 h-4" />
+              New board
+            </button>
+          )}
+
+          {archived.length > 0 && (
+            <div className="pt-4 space-y-2">
+              <h3 className="text-sm font-semibold text-gray-900">Archived</h3>
+              <p className="text-xs text-gray-500">
+                Archived boards are hidden from the tabs; their tasks still show under All Tasks.
+              </p>
+              {archived.map(renderRow)}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BoardManager;
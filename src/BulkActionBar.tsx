@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Calendar, Check, ChevronLeft, ChevronRight, Flag, LayoutGrid, SkipForward, Trash2, X } from 'lucide-react';
+import { BoardConfig, Priority } from './types';
+import { getActiveBoards } from './boards';
+import { getBoardIcon } from './boardStyles';
+import { BulkAction } from './bulk';
+
+const priorityLabels: Record<Priority, string> = { low: 'Low', med: 'Medium', high: 'High' };
+
+const BulkActionBar: React.FC<{
+  count: number;
+  total: number;
+  boards: BoardConfig[];
+  defaultDate: string;
+  onSelectAll: () => void;
+  onApply: (action: BulkAction) => void;
+  onCancel: () => void;
+}> = ({ count, total, boards, defaultDate, onSelectAll, onApply, onCancel }) => {
+  const [panel, setPanel] = useState<'move' | 'board' | 'priority' | null>(null);
+  const [date, setDate] = useState(defaultDate);
+
+  const togglePanel = (next: 'move' | 'board' | 'priority') => setPanel(panel === next ? null : next);
+
+  const actions = [
+    { id: 'done', icon: Check, label: 'Done', onClick: () => onApply({ type: 'status', status: 'done' }) },
+    { id: 'skip', icon: SkipForward, label: 'Skip', onClick: () => onApply({ type: 'status', status: 'skipped' }) },
+    { id: 'move', icon: Calendar, label: 'Move', onClick: () => togglePanel('move') },
+    { id: 'board', icon: LayoutGrid, label: 'Board', onClick: () => togglePanel('board') },
+    { id: 'priority', icon: Flag, label: 'Priority', onClick: () => togglePanel('priority') },
+    {
+      id: 'delete',
+      icon: Trash2,
+      label: 'Delete',
+      onClick: () => window.confirm(`Delete ${count} ${count === 1 ? 'task' : 'tasks'}?`) && onApply({ type: 'delete' })
+    }
+  ];
+
+  return (
+    <div className="fixed bottom-0 left-0 right-0 z-40 bg-white border-t shadow-lg px-4 py-3 space-y-3">
+      <div className="flex items-center gap-2">
+        <span className="flex-1 text-sm font-semibold text-gray-900">{count} selected</span>
+        {count < total && (
+          <button
+            onClick={onSelectAll}
+            className="text-sm font-medium text-teal-600"
+          >
+            Select all
+          </button>
+        )}
+        <button
+          onClick={onCancel}
+          className="p-2 hover:bg-gray-100 rounded-lg"
+          title="Stop selecting"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* Move */}
+      {panel === 'move' && (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-base"
+            />
+            <button
+              onClick={() => date && onApply({ type: 'move', date })}
+              disabled={!date || count === 0}
+              className="px-4 py-2 bg-teal-500 text-white rounded-lg text-sm font-medium active:bg-teal-600 disabled:opacity-50"
+            >
+              Move
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => onApply({ type: 'shift', weeks: -1 })}
+              disabled={count === 0}
+              className="flex items-center justify-center gap-1 px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium active:bg-gray-200 disabled:opacity-50"
+            >
+              <ChevronLeft className="w-4 h-4" />
+              Previous week
+            </button>
+            <button
+              onClick={() => onApply({ type: 'shift', weeks: 1 })}
+              disabled={count === 0}
+              className="flex items-center justify-center gap-1 px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium active:bg-gray-200 disabled:opacity-50"
+            >
+              Next week
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Board */}
+      {panel === 'board' && (
+        <div className="flex flex-wrap gap-2">
+          {getActiveBoards(boards).map(board => {
+            const Icon = getBoardIcon(board.icon);
+            return (
+              <button
+                key={board.id}
+                onClick={() => onApply({ type: 'board', board: board.id })}
+                disabled={count === 0}
+                className="flex items-center gap-1 px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium active:bg-gray-200 disabled:opacity-50"
+              >
+                <Icon className="w-4 h-4" />
+                {board.name}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Priority */}
+      {panel === 'priority' && (
+        <div className="grid grid-cols-3 gap-2">
+          {(['low', 'med', 'high'] as Priority[]).map(priority => (
+            <button
+              key={priority}
+              onClick={() => onApply({ type: 'priority', priority })}
+              disabled={count === 0}
+              className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium active:bg-gray-200 disabled:opacity-50"
+            >
+              {priorityLabels[priority]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-6 gap-1">
+        {actions.map(({ id, icon: Icon, label, onClick }) => (
+          <button
+            key={id}
+            onClick={onClick}
+            disabled={count === 0}
+            className={`flex flex-col items-center gap-0.5 py-1.5 rounded-lg text-xs font-medium disabled:opacity-40 ${
+              panel === id ? 'bg-teal-50 text-teal-700' : id === 'delete' ? 'text-red-600' : 'text-gray-700'
+            }`}
+          >
+            <Icon className="w-5 h-5" />
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BulkActionBar;
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Download, Upload, X } from 'lucide-react';
+import { BoardConfig, Task } from './types';
+import { formatDate, getLocale, getWeekDates } from './dates';
+import { getActiveBoards } from './boards';
+import { isScheduled } from './backlog';
+import { CalendarEvent, CalendarImport, UntimedExport, buildCalendar, downloadCalendar, parseCalendar, planCalendarImport } from './ics';
+
+const CalendarDialog: React.FC<{
+  tasks: Task[];
+  boards: BoardConfig[];
+  weekId: string;
+  defaultBoard: string;
+  onImport: (result: CalendarImport) => Promise<void>;
+  onClose: () => void;
+}> = ({ tasks, boards, weekId, defaultBoard, onImport, onClose }) => {
+  const [scope, setScope] = useState<'week' | 'upcoming'>('week');
+  const [untimed, setUntimed] = useState<UntimedExport>('event');
+  const [events, setEvents] = useState<CalendarEvent[] | null>(null);
+  const [board, setBoard] = useState(defaultBoard);
+  const [error, setError] = useState<string | null>(null);
+
+  const dates = getWeekDates(weekId);
+  const format = (d: Date) => d.toLocaleDateString(getLocale(), { day: 'numeric', month: 'short' });
+  const today = formatDate(new Date());
+  // Upcoming leaves out what is already done or skipped
+  const exportTasks = tasks
+    .filter(isScheduled)
+    .filter(t => scope === 'week' ? t.week_id === weekId : t.scheduled_for >= today && t.status === 'open')
+    .sort((a, b) => a.scheduled_for.localeCompare(b.scheduled_for));
+  const plan = events ? planCalendarImport(events, tasks, boards, board) : null;
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setEvents(null);
+    try {
+      setEvents(parseCalendar(await file.text()));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not read this file');
+    }
+  };
+
+  const exportCalendar = () => {
+    const name = scope === 'week' ? `bea-more-organised-${weekId.replace('wk_', '')}` : `bea-more-organised-from-${today}`;
+    downloadCalendar(buildCalendar(exportTasks, boards, untimed), name);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end justify-center z-50">
+      <div className="bg-white rounded-t-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-4 py-3 flex items-center justify-between">
+          <h2 className="text-lg font-bold">Calendar Export &amp; Import</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* Export */}
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">
+              Save tasks as an .ics file for your phone's calendar. Tasks with a reminder become timed events with an alert.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              {([
+                ['week', `Week of ${format(dates[0])}`],
+                ['upcoming', 'Everything upcoming']
+              ] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setScope(value)}
+                  className={`px-3 py-2 rounded-lg border-2 text-sm font-medium ${
+                    scope === value ? 'border-teal-600 bg-teal-50 text-teal-700' : 'border-gray-200 bg-white text-gray-700'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <span className="flex-1">Tasks without a time as</span>
+              <select
+                value={untimed}
+                onChange={(e) => setUntimed(e.target.value as UntimedExport)}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+              >
+                <option value="event">All-day events</option>
+                <option value="todo">To-dos</option>
+              </select>
+            </label>
+            <button
+              onClick={exportCalendar}
+              disabled={exportTasks.length === 0}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-teal-500 text-white rounded-lg font-medium active:bg-teal-600 disabled:opacity-50"
+            >
+              <Download className="w-5 h-5" />
+              Export {exportTasks.length} {exportTasks.length === 1 ? 'task' : 'tasks'}
+            </button>
+          </div>
+
+          {/* Import */}
+          <div className="pt-2 border-t space-y-2">
+            <p className="text-sm text-gray-600">
+              Turn events from a school or club calendar into tasks. Importing the same file again updates them instead of adding copies.
+            </p>
+            <label className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-gray-200 text-gray-800 rounded-lg font-medium active:bg-gray-300 cursor-pointer">
+              <Upload className="w-5 h-5" />
+              Import an .ics file
+              <input
+                type="file"
+                accept="text/calendar,.ics"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          </div>
+
+          {error && (
+            <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              {error}
+            </div>
+          )}
+
+          {events && plan && (
+            <div className="space-y-3">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <span className="flex-1">New events go to</span>
+                <select
+                  value={board}
+                  onChange={(e) => setBoard(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+                >
+                  {getActiveBoards(boards).map(b => (
+                    <option key={b.id} value={b.id}>{b.name}</option>
+                  ))}
+                </select>
+              </label>
+              <p className="text-xs text-gray-500">Events with a category named like a board go to that board instead.</p>
+              <div className="grid grid-cols-3 gap-2 text-sm">
+                {[
+                  ['New', plan.added.length, 'bg-green-50 text-green-700'],
+                  ['Updated', plan.updated.length, 'bg-blue-50 text-blue-700'],
+                  ['Unchanged', plan.unchanged, 'bg-gray-50 text-gray-600']
+                ].map(([label, count, color]) => (
+                  <div key={label as string} className={`p-3 rounded-lg ${color}`}>
+                    <div className="text-lg font-bold">{count}</div>
+                    <div className="text-xs font-medium">{label}</div>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={async () => {
+                  await onImport(plan);
+                  onClose();
+                }}
+                disabled={plan.added.length + plan.updated.length === 0}
+                className="w-full px-4 py-3 bg-teal-500 text-white rounded-lg font-medium active:bg-teal-600 disabled:opacity-50"
+              >
+                Import {plan.added.length + plan.updated.length} {plan.added.length + plan.updated.length === 1 ? 'event' : 'events'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarDialog;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Check, Plus, X } from 'lucide-react';
+import { ChecklistItem } from './types';
+import { generateId } from './utils';
+import { moveChecklistItem, toggleChecklistItem } from './checklist';
+
+const ChecklistFields: React.FC<{
+  items: ChecklistItem[];
+  onChange: (items?: ChecklistItem[]) => void;
+}> = ({ items, onChange }) => {
+  const [newItem, setNewItem] = useState('');
+
+  // An empty checklist is dropped so the card doesn't show "0/0"
+  const update = (updated: ChecklistItem[]) => onChange(updated.length > 0 ? updated : undefined);
+
+  const addItem = () => {
+    const title = newItem.trim();
+    if (!title) return;
+    update([...items, { id: generateId('chk'), title, done: false }]);
+    setNewItem('');
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        Checklist
+      </label>
+
+      <div className="space-y-1">
+        {items.map((item, idx) => (
+          <div key={item.id} className="flex items-center gap-1">
+            <button
+              onClick={() => update(toggleChecklistItem(items, item.id))}
+              className={`flex-shrink-0 w-5 h-5 rounded border-2 flex items-center justify-center ${
+                item.done ? 'bg-green-500 border-green-500' : 'border-gray-300'
+              }`}
+            >
+              {item.done && <Check className="w-3 h-3 text-white" />}
+            </button>
+            <input
+              type="text"
+              value={item.title}
+              onChange={(e) => update(items.map(i => i.id === item.id ? { ...i, title: e.target.value } : i))}
+              className={`flex-1 min-w-0 px-2 py-2 border border-gray-300 rounded-lg text-base ${
+                item.done ? 'line-through text-gray-500' : ''
+              }`}
+            />
+            <button
+              onClick={() => update(moveChecklistItem(items, idx, -1))}
+              disabled={idx === 0}
+              className="flex-shrink-0 p-1 text-gray-500 disabled:opacity-30"
+            >
+              <ArrowUp className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => update(moveChecklistItem(items, idx, 1))}
+              disabled={idx === items.length - 1}
+              className="flex-shrink-0 p-1 text-gray-500 disabled:opacity-30"
+            >
+              <ArrowDown className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => update(items.filter(i => i.id !== item.id))}
+              className="flex-shrink-0 p-1 text-gray-500"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+
+        <div className="flex gap-1">
+          <input
+            type="text"
+            value={newItem}
+            onChange={(e) => setNewItem(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addItem();
+              }
+            }}
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-base"
+            placeholder="Add an item..."
+          />
+          <button
+            onClick={addItem}
+            disabled={!newItem.trim()}
+            className="flex-shrink-0 px-3 py-2 bg-white border border-gray-300 rounded-lg text-gray-700 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChecklistFields;
@@ -0,0 +1,154 @@
+import React, { useRef, useState } from 'react';
+import { AlertTriangle, Check } from 'lucide-react';
+import { BoardConfig, Task } from './types';
+import { getBoard } from './boards';
+import { getBoardColor } from './boardStyles';
+import { compareTasks } from './ordering';
+import {
+  DAY_END_HOUR, DAY_START_HOUR, fromMinutes, formatDuration, formatTime, getDayLoad, layoutTimeline, snapMinutes
+} from './timeline';
+
+const HOUR_HEIGHT = 56;
+
+const DayTimeline: React.FC<{
+  tasks: Task[];
+  boards: BoardConfig[];
+  onEdit: (task: Task) => void;
+  onChangeTime: (task: Task, start_time: string) => void;
+}> = ({ tasks, boards, onEdit, onChangeTime }) => {
+  const [moving, setMoving] = useState<{ taskId: string; originY: number; offset: number } | null>(null);
+  const moved = useRef(false);
+
+  const blocks = layoutTimeline(tasks);
+  const untimed = tasks.filter(t => !t.start_time).sort(compareTasks);
+  const load = getDayLoad(tasks);
+  const overlapCount = blocks.filter(b => b.overlaps).length;
+
+  // Widen the grid for anything planned outside the usual hours
+  const firstHour = Math.min(DAY_START_HOUR, ...blocks.map(b => Math.floor(b.start / 60)));
+  const lastHour = Math.max(DAY_END_HOUR, ...blocks.map(b => Math.ceil(b.end / 60)));
+  const hours = Array.from({ length: lastHour - firstHour }, (_, i) => firstHour + i);
+  const toY = (minutes: number) => ((minutes - firstHour * 60) / 60) * HOUR_HEIGHT;
+
+  // Blocks follow the pointer in 15 minute steps; letting go saves the new time
+  const startMove = (task: Task) => (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    moved.current = false;
+    setMoving({ taskId: task.id, originY: e.clientY, offset: 0 });
+  };
+  const onMove = (e: React.PointerEvent) => {
+    if (!moving) return;
+    const offset = snapMinutes(((e.clientY - moving.originY) / HOUR_HEIGHT) * 60);
+    if (offset !== 0) moved.current = true;
+    if (offset !== moving.offset) setMoving({ ...moving, offset });
+  };
+  const endMove = (task: Task, start: number) => () => {
+    if (!moving) return;
+    if (moving.offset !== 0) onChangeTime(task, fromMinutes(start + moving.offset));
+    setMoving(null);
+  };
+
+  return (
+    <div>
+      {/* Day Load */}
+      <div className={`mb-3 flex items-center justify-between rounded-lg p-3 text-sm ${
+        load.overloaded ? 'bg-red-50 text-red-700' : 'bg-teal-50 text-teal-800'
+      }`}>
+        <span>
+          <span className="font-semibold">{formatDuration(load.planned)}</span> planned
+        </span>
+        <span>
+          {load.overloaded
+            ? `${formatDuration(load.planned - load.available)} over`
+            : <><span className="font-semibold">{formatDuration(load.free)}</span> free</>}
+          <span className="text-xs opacity-75"> of {DAY_END_HOUR - DAY_START_HOUR}h</span>
+        </span>
+      </div>
+
+      {overlapCount > 0 && (
+        <div className="mb-3 flex items-center gap-2 bg-amber-50 border border-amber-300 rounded-lg p-3 text-sm text-amber-800">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          {overlapCount} tasks overlap. Drag one to another time.
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        {/* Hours */}
+        <div className="relative flex-1 bg-white border border-gray-200 rounded-lg" style={{ height: hours.length * HOUR_HEIGHT }}>
+          {hours.map(hour => (
+            <div
+              key={hour}
+              className="absolute left-0 right-0 border-t border-gray-100 text-xs text-gray-400 pl-1"
+              style={{ top: toY(hour * 60) }}
+            >
+              {formatTime(`${hour}:00`)}
+            </div>
+          ))}
+
+          {blocks.map(block => {
+            const { task } = block;
+            const offset = moving?.taskId === task.id ? moving.offset : 0;
+            const board = getBoard(boards, task.board);
+            return (
+              <div
+                key={task.id}
+                onPointerDown={startMove(task)}
+                onPointerMove={onMove}
+                onPointerUp={endMove(task, block.start)}
+                onPointerCancel={() => setMoving(null)}
+                onClick={() => !moved.current && onEdit(task)}
+                className={`absolute rounded-md border-l-4 px-2 py-1 text-xs overflow-hidden cursor-grab touch-none select-none ${
+                  getBoardColor(board.color).border
+                } ${block.overlaps ? 'bg-red-50 ring-1 ring-red-400' : 'bg-gray-50'} ${
+                  offset !== 0 ? 'shadow-lg z-10 opacity-90' : ''
+                }`}
+                style={{
+                  top: toY(block.start + offset),
+                  height: Math.max(toY(block.end) - toY(block.start), 20),
+                  left: `calc(3rem + (100% - 3.25rem) * ${block.column / block.columns})`,
+                  width: `calc((100% - 3.25rem) / ${block.columns} - 2px)`
+                }}
+              >
+                <div className={`font-medium truncate ${task.status === 'done' ? 'line-through text-gray-500' : 'text-gray-900'}`}>
+                  {task.status === 'done' && <Check className="inline w-3 h-3 mr-0.5 text-green-600" />}
+                  {task.title}
+                </div>
+                <div className="text-gray-500 truncate">
+                  {formatTime(fromMinutes(block.start + offset))}
+                  {task.duration_min ? ` · ${formatDuration(task.duration_min)}` : ''}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Untimed */}
+        <div className="w-28 flex-shrink-0 space-y-1">
+          <div className="text-xs font-semibold text-gray-500 uppercase">Any time</div>
+          {untimed.length === 0 && (
+            <p className="text-xs text-gray-400">Everything has a time.</p>
+          )}
+          {untimed.map(task => (
+            <button
+              key={task.id}
+              onClick={() => onEdit(task)}
+              className={`w-full text-left px-2 py-1 rounded border-l-4 bg-white text-xs ${
+                getBoardColor(getBoard(boards, task.board).color).border
+              }`}
+            >
+              <div className={`font-medium truncate ${task.status === 'open' ? 'text-gray-900' : 'line-through text-gray-500'}`}>
+                {task.title}
+              </div>
+              {!!task.duration_min && (
+                <div className="text-gray-500">{formatDuration(task.duration_min)}</div>
+              )}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DayTimeline;
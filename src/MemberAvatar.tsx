@@ -0,0 +1,16 @@
+import React from 'react';
+import { Member } from './types';
+import { getBoardColor } from './boardStyles';
+
+const MemberAvatar: React.FC<{ member: Member; size?: 'sm' | 'md' }> = ({ member, size = 'md' }) => (
+  <span
+    className={`inline-flex flex-shrink-0 items-center justify-center rounded-full ${getBoardColor(member.color).chip} ${
+      size === 'sm' ? 'w-5 h-5 text-xs' : 'w-8 h-8 text-base'
+    }`}
+    title={member.name}
+  >
+    {member.emoji}
+  </span>
+);
+
+export default MemberAvatar;
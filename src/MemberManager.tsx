@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { Archive, ArchiveRestore, Pencil, Plus, X } from 'lucide-react';
+import { Member, Task } from './types';
+import { generateId } from './utils';
+import { MEMBER_EMOJIS, getActiveMembers } from './members';
+import { boardColors } from './boardStyles';
+import MemberAvatar from './MemberAvatar';
+
+const MemberForm: React.FC<{
+  member: Member;
+  onSave: (member: Member) => void;
+  onCancel: () => void;
+}> = ({ member, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(member);
+
+  return (
+    <div className="p-3 bg-gray-50 rounded-lg space-y-3">
+      <div className="flex items-center gap-3">
+        <MemberAvatar member={draft} />
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          className="flex-1 min-w-0 px-4 py-3 border border-gray-300 rounded-lg text-base"
+          placeholder="Name"
+          autoFocus
+        />
+      </div>
+
+      <div className="grid grid-cols-6 gap-2">
+        {MEMBER_EMOJIS.map(emoji => (
+          <button
+            key={emoji}
+            onClick={() => setDraft({ ...draft, emoji })}
+            className={`flex items-center justify-center p-2 rounded-lg border-2 text-xl ${
+              draft.emoji === emoji ? 'border-teal-600 bg-teal-50' : 'border-gray-200 bg-white'
+            }`}
+          >
+            {emoji}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {Object.entries(boardColors).map(([key, color]) => (
+          <button
+            key={key}
+            onClick={() => setDraft({ ...draft, color: key })}
+            className={`w-8 h-8 rounded-full ${color.swatch} ${
+              draft.color === key ? 'ring-2 ring-offset-2 ring-teal-600' : ''
+            }`}
+            title={key}
+          />
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onCancel}
+          className="flex-1 px-4 py-2 bg-gray-200 text-gray-800 rounded-lg font-medium active:bg-gray-300"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave({ ...draft, name: draft.name.trim() })}
+          disabled={!draft.name.trim()}
+          className="flex-1 px-4 py-2 bg-teal-500 text-white rounded-lg font-medium active:bg-teal-600 disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const MemberManager: React.FC<{
+  members: Member[];
+  tasks: Task[];
+  memberId?: string;
+  onChange: (members: Member[]) => void;
+  onSetMe: (memberId?: string) => void;
+  onClose: () => void;
+}> = ({ members, tasks, memberId, onChange, onSetMe, onClose }) => {
+  const [editing, setEditing] = useState<Member | null>(null);
+
+  const active = getActiveMembers(members);
+  const archived = members.filter(m => m.archived);
+
+  const newMember = (): Member => {
+    const now = new Date().toISOString();
+    const colors = Object.keys(boardColors);
+    return {
+      id: '',
+      name: '',
+      emoji: MEMBER_EMOJIS[members.length % MEMBER_EMOJIS.length],
+      color: colors[members.length % colors.length],
+      archived: false,
+      created_at: now,
+      updated_at: now
+    };
+  };
+
+  const saveMember = (member: Member) => {
+    const updated = { ...member, updated_at: new Date().toISOString() };
+    onChange(member.id
+      ? members.map(m => m.id === member.id ? updated : m)
+      : [...members, { ...updated, id: generateId('mbr') }]
+    );
+    setEditing(null);
+  };
+
+  // Archived members keep their name on old tasks but can't be picked for new ones
+  const setArchived = (member: Member, value: boolean) => {
+    const now = new Date().toISOString();
+    onChange(members.map(m => m.id === member.id ? { ...m, archived: value, updated_at: now } : m));
+    if (value && member.id === memberId) onSetMe(undefined);
+  };
+
+  const renderRow = (member: Member) => {
+    const open = tasks.filter(t => t.assignee === member.id && t.status === 'open').length;
+
+    if (editing && editing.id === member.id) {
+      return <MemberForm key={member.id} member={editing} onSave={saveMember} onCancel={() => setEditing(null)} />;
+    }
+
+    return (
+      <div key={member.id} className="flex items-center gap-3 p-3 bg-white rounded-lg border border-gray-200">
+        <MemberAvatar member={member} />
+        <div className="flex-1 min-w-0">
+          <div className="text-base font-medium text-gray-900 truncate">{member.name}</div>
+          <div className="text-xs text-gray-500">{open} open {open === 1 ? 'task' : 'tasks'}</div>
+        </div>
+        {!member.archived && (
+          <button
+            onClick={() => onSetMe(member.id === memberId ? undefined : member.id)}
+            className={`px-2 py-1 rounded-full text-xs font-medium ${
+              member.id === memberId ? 'bg-teal-500 text-white' : 'bg-gray-100 text-gray-600'
+            }`}
+          >
+            {member.id === memberId ? 'This is me' : 'Me?'}
+          </button>
+        )}
+        <button
+          onClick={() => setEditing(member)}
+          className="p-1 text-gray-500"
+          title="Edit"
+        >
+          <Pencil className="w-4 h-4" />
+        </button>
+        {member.archived ? (
+          <button
+            onClick={() => setArchived(member, false)}
+            className="p-1 text-teal-600"
+            title="Restore"
+          >
+            <ArchiveRestore className="w-4 h-4" />
+          </button>
+        ) : (
+          <button
+            onClick={() => setArchived(member, true)}
+            className="p-1 text-gray-500"
+            title="Archive"
+          >
+            <Archive className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end justify-center z-50">
+      <div className="bg-white rounded-t-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-4 py-3 flex items-center justify-between">
+          <h2 className="text-lg font-bold">Household</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-2">
+          <p className="text-sm text-gray-600 mb-2">
+            Assign tasks to the people you share them with. Mark who uses this device so "Mine" shows their tasks.
+          </p>
+
+          {active.map(renderRow)}
+
+          {editing && !editing.id ? (
+            <MemberForm member={editing} onSave={saveMember} onCancel={() => setEditing(null)} />
+          ) : (
+            <button
+              onClick={() => setEditing(newMember())}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 border-2 border-dashed border-gray-300 rounded-lg text-sm font-medium text-gray-600 active:bg-gray-50"
+            >
+              <Plus className="w-4 h-4" />
+              Add person
+            </button>
+          )}
+
+          {archived.length > 0 && (
+            <div className="pt-4 space-y-2">
+              <h3 className="text-sm font-semibold text-gray-900">Archived</h3>
+              {archived.map(renderRow)}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MemberManager;
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Task } from './types';
+import { formatDate, getLocale, getStartOfWeek, getWeekId, parseDate } from './dates';
+
+// More dots than this turn into a count
+const MAX_DOTS = 5;
+
+const dotColors = {
+  done: 'bg-green-500',
+  skipped: 'bg-gray-300',
+  open: 'bg-amber-400'
+};
+
+// Six rows of weeks always cover a month, whichever weekday it starts on
+const getMonthWeeks = (year: number, month: number): Date[][] => {
+  const start = getStartOfWeek(new Date(year, month, 1));
+  return Array.from({ length: 6 }, (_, week) =>
+    Array.from({ length: 7 }, (_, day) =>
+      new Date(start.getFullYear(), start.getMonth(), start.getDate() + week * 7 + day)
+    )
+  );
+};
+
+const MonthCalendar: React.FC<{
+  tasks: Task[];
+  selectedDate: string;
+  onSelectDay: (date: string) => void;
+  onSelectWeek: (weekId: string) => void;
+}> = ({ tasks, selectedDate, onSelectDay, onSelectWeek }) => {
+  const initial = selectedDate ? parseDate(selectedDate) : new Date();
+  const [month, setMonth] = useState({ year: initial.getFullYear(), month: initial.getMonth() });
+
+  const today = formatDate(new Date());
+  const weeks = getMonthWeeks(month.year, month.month);
+  const shiftMonth = (delta: number) => {
+    const d = new Date(month.year, month.month + delta, 1);
+    setMonth({ year: d.getFullYear(), month: d.getMonth() });
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-3">
+      <div className="flex items-center justify-between mb-3">
+        <button
+          onClick={() => shiftMonth(-1)}
+          className="p-1.5 hover:bg-gray-100 rounded-lg"
+        >
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <h2 className="text-base font-semibold text-gray-900">
+          {new Date(month.year, month.month, 1).toLocaleDateString(getLocale(), { month: 'long', year: 'numeric' })}
+        </h2>
+        <button
+          onClick={() => shiftMonth(1)}
+          className="p-1.5 hover:bg-gray-100 rounded-lg"
+        >
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-[auto_repeat(7,minmax(0,1fr))] gap-1 text-center">
+        <div />
+        {weeks[0].map(date => (
+          <div key={date.getDay()} className="text-xs font-medium text-gray-500">
+            {date.toLocaleDateString(getLocale(), { weekday: 'narrow' })}
+          </div>
+        ))}
+
+        {weeks.map(week => {
+          const weekId = getWeekId(week[0]);
+          return (
+            <React.Fragment key={weekId}>
+              <button
+                onClick={() => onSelectWeek(weekId)}
+                className="px-1 text-xs text-teal-600 font-medium hover:bg-teal-50 rounded"
+                title="Open this week"
+              >
+                W
+              </button>
+              {week.map(date => {
+                const dateStr = formatDate(date);
+                const dayTasks = tasks.filter(t => t.scheduled_for === dateStr);
+                const inMonth = date.getMonth() === month.month;
+
+                return (
+                  <button
+                    key={dateStr}
+                    onClick={() => onSelectDay(dateStr)}
+                    className={`flex flex-col items-center py-1 rounded-lg min-h-[52px] ${
+                      dateStr === selectedDate ? 'bg-amber-100' : 'hover:bg-gray-50'
+                    } ${inMonth ? '' : 'opacity-40'}`}
+                  >
+                    <span className={`text-sm ${
+                      dateStr === today
+                        ? 'w-6 h-6 flex items-center justify-center rounded-full bg-teal-500 text-white font-bold'
+                        : 'text-gray-900'
+                    }`}>
+                      {date.getDate()}
+                    </span>
+                    <div className="flex flex-wrap justify-center gap-0.5 mt-1">
+                      {dayTasks.slice(0, MAX_DOTS).map(task => (
+                        <span key={task.id} className={`w-1.5 h-1.5 rounded-full ${dotColors[task.status]}`} />
+                      ))}
+                      {dayTasks.length > MAX_DOTS && (
+                        <span className="text-[10px] leading-none text-gray-500">+{dayTasks.length - MAX_DOTS}</span>
+                      )}
+                    </div>
+                  </button>
+                );
+              })}
+            </React.Fragment>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-center gap-4 mt-3 text-xs text-gray-500">
+        {(Object.keys(dotColors) as (keyof typeof dotColors)[]).map(status => (
+          <span key={status} className="flex items-center gap-1">
+            <span className={`w-2 h-2 rounded-full ${dotColors[status]}`} />
+            {status === 'done' ? 'Done' : status === 'skipped' ? 'Skipped' : 'Open'}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MonthCalendar;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Trophy, X } from 'lucide-react';
+import { Task } from './types';
+import { getCurrentBests, getPersonalBestHistory } from './workouts';
+import { getLocale, parseDate } from './dates';
+
+const formatDay = (dateStr: string) =>
+  parseDate(dateStr).toLocaleDateString(getLocale(), { day: 'numeric', month: 'short', year: 'numeric' });
+
+const PersonalBests: React.FC<{
+  tasks: Task[];
+  onClose: () => void;
+}> = ({ tasks, onClose }) => {
+  const history = getPersonalBestHistory(tasks);
+  const current = getCurrentBests(history);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end justify-center z-50">
+      <div className="bg-white rounded-t-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-4 py-3 flex items-center justify-between">
+          <h2 className="text-lg font-bold">Personal Bests</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {current.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="text-gray-400 mb-2">
+                <Trophy className="w-12 h-12 mx-auto" />
+              </div>
+              <p className="text-gray-500">No records yet</p>
+              <p className="text-sm text-gray-400 mt-1">Complete workouts with a duration, distance or weight</p>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                {current.map(pb => (
+                  <div key={pb.label} className="p-3 bg-green-50 rounded-lg">
+                    <div className="text-lg font-bold text-green-700">{pb.value} {pb.unit}</div>
+                    <div className="text-xs font-medium text-gray-700">{pb.label}</div>
+                    <div className="text-xs text-gray-500">{formatDay(pb.date)}</div>
+                  </div>
+                ))}
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold text-gray-900 mb-2">History</h3>
+                <div className="space-y-1">
+                  {history.slice().reverse().map((pb, idx) => (
+                    <div key={idx} className="flex items-center justify-between text-sm py-1 border-b border-gray-100">
+                      <div>
+                        <span className="font-medium text-gray-900">{pb.label}</span>
+                        <span className="text-gray-500"> · {pb.title}</span>
+                      </div>
+                      <div className="text-right">
+                        <div className="font-medium text-gray-900">{pb.value} {pb.unit}</div>
+                        <div className="text-xs text-gray-500">{formatDay(pb.date)}</div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PersonalBests;
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Bell, Calendar, Flag, Plus, SlidersHorizontal, Zap } from 'lucide-react';
+import { Board, BoardConfig } from './types';
+import { QuickAddResult, parseQuickAdd } from './quickAddParser';
+import { getBoard } from './boards';
+import { getBoardColor, getBoardIcon } from './boardStyles';
+import { getLocale, parseDate } from './dates';
+
+const priorityLabels = { low: 'Low', med: 'Medium', high: 'High' };
+
+const QuickAdd: React.FC<{
+  boards: BoardConfig[];
+  defaultBoard: Board;
+  // Without one, anything not given a day goes to the backlog
+  defaultDate?: string;
+  placeholder?: string;
+  onAdd: (result: QuickAddResult) => void;
+  onEdit: (result: QuickAddResult) => void;
+}> = ({ boards, defaultBoard, defaultDate, placeholder = 'Quick add: gym tomorrow 6:30am high', onAdd, onEdit }) => {
+  const [text, setText] = useState('');
+
+  const parsed = text.trim() ? parseQuickAdd(text, { boards, defaultBoard, defaultDate }) : null;
+  const board = parsed ? getBoard(boards, parsed.board) : null;
+  const BoardIcon = board ? getBoardIcon(board.icon) : null;
+
+  const submit = (handler: (result: QuickAddResult) => void) => {
+    if (!parsed?.title) return;
+    handler(parsed);
+    setText('');
+  };
+
+  return (
+    <div className="mb-3 bg-white border border-gray-200 rounded-lg p-2">
+      <div className="flex items-center gap-2">
+        <Zap className="w-4 h-4 text-amber-500 flex-shrink-0 ml-1" />
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') submit(onAdd);
+          }}
+          className="flex-1 min-w-0 py-2 text-base outline-none"
+          placeholder={placeholder}
+        />
+        {parsed && (
+          <>
+            <button
+              onClick={() => submit(onEdit)}
+              className="p-2 text-gray-500 rounded-lg"
+              title="More options"
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => submit(onAdd)}
+              disabled={!parsed.title}
+              className="p-2 bg-teal-500 text-white rounded-lg active:bg-teal-600 disabled:opacity-50"
+              title="Add"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </>
+        )}
+      </div>
+
+      {/* Parsed Preview */}
+      {parsed && board && BoardIcon && (
+        <div className="flex flex-wrap items-center gap-1.5 px-1 pt-2 text-xs">
+          <span className="font-medium text-gray-900 mr-1">{parsed.title || 'Needs a title'}</span>
+          <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded font-medium ${getBoardColor(board.color).chip}`}>
+            <BoardIcon className="w-3 h-3" />
+            {board.name}
+          </span>
+          <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded bg-gray-100 text-gray-700">
+            <Calendar className="w-3 h-3" />
+            {parsed.scheduled_for
+              ? parseDate(parsed.scheduled_for).toLocaleDateString(getLocale(), {
+                  weekday: 'short',
+                  day: 'numeric',
+                  month: 'short'
+                })
+              : 'Backlog'}
+          </span>
+          {parsed.remind_at && (
+            <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded bg-gray-100 text-gray-700">
+              <Bell className="w-3 h-3" />
+              {parsed.remind_at.split('T')[1].slice(0, 5)}
+            </span>
+          )}
+          <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded ${
+            parsed.priority === 'high' ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-700'
+          }`}>
+            <Flag className="w-3 h-3" />
+            {priorityLabels[parsed.priority]}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuickAdd;
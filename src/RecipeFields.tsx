@@ -0,0 +1,138 @@
+import React from 'react';
+import { BookmarkPlus, ChefHat, Plus, X } from 'lucide-react';
+import { Ingredient, Recipe } from './types';
+import { generateId } from './utils';
+
+const RecipeFields: React.FC<{
+  title: string;
+  recipe?: Recipe;
+  recipes: Recipe[];
+  onChange: (recipe?: Recipe) => void;
+  onSaveToLibrary: (recipe: Recipe) => void;
+}> = ({ title, recipe, recipes, onChange, onSaveToLibrary }) => {
+  const saved = recipe && recipes.find(r => r.id === recipe.id);
+  const isSaved = !!saved && JSON.stringify(saved) === JSON.stringify(recipe);
+
+  const updateIngredient = (index: number, updates: Partial<Ingredient>) => {
+    onChange({
+      ...recipe!,
+      ingredients: recipe!.ingredients.map((ingredient, idx) =>
+        idx === index ? { ...ingredient, ...updates } : ingredient
+      )
+    });
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        Recipe
+      </label>
+
+      {recipes.length > 0 && (
+        <select
+          value={saved ? saved.id : ''}
+          onChange={(e) => {
+            const picked = recipes.find(r => r.id === e.target.value);
+            onChange(picked ? { ...picked, ingredients: picked.ingredients.map(i => ({ ...i })) } : undefined);
+          }}
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg text-base bg-white mb-2"
+        >
+          <option value="">Pick from recipe library...</option>
+          {recipes.map(r => (
+            <option key={r.id} value={r.id}>{r.name}</option>
+          ))}
+        </select>
+      )}
+
+      {!recipe ? (
+        <button
+          onClick={() => onChange({ id: generateId('rcp'), name: title, ingredients: [{ name: '' }] })}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 border-2 border-dashed border-gray-300 rounded-lg text-sm font-medium text-gray-600"
+        >
+          <ChefHat className="w-4 h-4" />
+          Add recipe details
+        </button>
+      ) : (
+        <div className="space-y-2 p-3 bg-orange-50 rounded-lg">
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min={1}
+              value={recipe.servings ?? ''}
+              onChange={(e) => onChange({ ...recipe, servings: e.target.value ? Number(e.target.value) : undefined })}
+              className="w-24 px-3 py-2 border border-gray-300 rounded-lg text-base"
+              placeholder="Serves"
+            />
+            <input
+              type="url"
+              value={recipe.url || ''}
+              onChange={(e) => onChange({ ...recipe, url: e.target.value || undefined })}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-base"
+              placeholder="Recipe link"
+            />
+          </div>
+
+          {recipe.ingredients.map((ingredient, idx) => (
+            <div key={idx} className="flex gap-2">
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={ingredient.quantity ?? ''}
+                onChange={(e) => updateIngredient(idx, { quantity: e.target.value ? Number(e.target.value) : undefined })}
+                className="w-16 px-2 py-2 border border-gray-300 rounded-lg text-base"
+                placeholder="Qty"
+              />
+              <input
+                type="text"
+                value={ingredient.unit || ''}
+                onChange={(e) => updateIngredient(idx, { unit: e.target.value || undefined })}
+                className="w-16 px-2 py-2 border border-gray-300 rounded-lg text-base"
+                placeholder="Unit"
+              />
+              <input
+                type="text"
+                value={ingredient.name}
+                onChange={(e) => updateIngredient(idx, { name: e.target.value })}
+                className="flex-1 min-w-0 px-2 py-2 border border-gray-300 rounded-lg text-base"
+                placeholder="Ingredient"
+              />
+              <button
+                onClick={() => onChange({ ...recipe, ingredients: recipe.ingredients.filter((_, i) => i !== idx) })}
+                className="flex-shrink-0 p-2 text-gray-500"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => onChange({ ...recipe, ingredients: [...recipe.ingredients, { name: '' }] })}
+              className="flex-1 flex items-center justify-center gap-1 px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700"
+            >
+              <Plus className="w-4 h-4" />
+              Ingredient
+            </button>
+            <button
+              onClick={() => onSaveToLibrary({ ...recipe, name: recipe.name.trim() || title })}
+              disabled={isSaved}
+              className="flex-1 flex items-center justify-center gap-1 px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700 disabled:opacity-50"
+            >
+              <BookmarkPlus className="w-4 h-4" />
+              {isSaved ? 'In library' : 'Save to library'}
+            </button>
+          </div>
+          <button
+            onClick={() => onChange(undefined)}
+            className="w-full text-xs text-gray-500 font-medium"
+          >
+            Remove recipe
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecipeFields;
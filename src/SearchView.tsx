@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { ChevronRight, Search, SlidersHorizontal, X } from 'lucide-react';
+import { BoardConfig, Task } from './types';
+import { getLocale, getWeekDates, parseDate } from './dates';
+import { EMPTY_FILTERS, TaskFilters, countActiveFilters, searchTasks } from './search';
+import { getBoard } from './boards';
+import { getBoardColor, getBoardIcon } from './boardStyles';
+import TaskFilterFields from './TaskFilterFields';
+
+// Large histories render a page at a time
+const PAGE_SIZE = 10;
+
+const formatWeek = (weekId: string) => {
+  if (!weekId) return 'Backlog';
+  const dates = getWeekDates(weekId);
+  const format = (d: Date) => d.toLocaleDateString(getLocale(), { day: 'numeric', month: 'short', year: 'numeric' });
+  return `${format(dates[0])} - ${format(dates[6])}`;
+};
+
+const SearchView: React.FC<{
+  tasks: Task[];
+  boards: BoardConfig[];
+  onJump: (task: Task) => void;
+  onClose: () => void;
+}> = ({ tasks, boards, onJump, onClose }) => {
+  const [filters, setFilters] = useState<TaskFilters>(EMPTY_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [pages, setPages] = useState(1);
+
+  const active = countActiveFilters(filters);
+  const results = active > 0 ? searchTasks(tasks, filters) : [];
+  const matchCount = results.reduce((sum, week) => sum + week.tasks.length, 0);
+
+  const updateFilters = (updated: TaskFilters) => {
+    setFilters(updated);
+    setPages(1);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end justify-center z-50">
+      <div className="bg-white rounded-t-2xl w-full h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-4 py-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-bold">Search</h2>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <div className="flex-1 flex items-center gap-2 px-3 border border-gray-300 rounded-lg">
+              <Search className="w-4 h-4 text-gray-400" />
+              <input
+                type="search"
+                value={filters.query}
+                onChange={(e) => updateFilters({ ...filters, query: e.target.value })}
+                className="flex-1 py-2 text-base outline-none"
+                placeholder="Search every week..."
+                autoFocus
+              />
+            </div>
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className={`flex items-center gap-1 px-3 rounded-lg text-sm font-medium ${
+                showFilters ? 'bg-teal-500 text-white' : 'bg-gray-100 text-gray-700'
+              }`}
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+              {active - (filters.query.trim() ? 1 : 0) || ''}
+            </button>
+          </div>
+          {showFilters && (
+            <TaskFilterFields filters={filters} boards={boards} onChange={updateFilters} />
+          )}
+        </div>
+
+        <div className="p-4 space-y-4">
+          {active === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-8">Type something or pick a filter to search</p>
+          ) : matchCount === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-8">No matching tasks</p>
+          ) : (
+            <>
+              <p className="text-xs text-gray-500">
+                {matchCount} {matchCount === 1 ? 'match' : 'matches'} in {results.length} {results.length === 1 ? 'week' : 'weeks'}
+              </p>
+              {results.slice(0, pages * PAGE_SIZE).map(({ weekId, tasks: weekTasks }) => (
+                <div key={weekId}>
+                  <h3 className="text-sm font-semibold text-gray-900 mb-2">{formatWeek(weekId)}</h3>
+                  <div className="space-y-2">
+                    {weekTasks.map(task => {
+                      const board = getBoard(boards, task.board);
+                      const Icon = getBoardIcon(board.icon);
+                      return (
+                        <button
+                          key={task.id}
+                          onClick={() => onJump(task)}
+                          className="w-full flex items-center gap-3 p-3 bg-white rounded-lg border border-gray-200 text-left active:bg-gray-50"
+                        >
+                          <span className={`flex-shrink-0 p-1.5 rounded ${getBoardColor(board.color).chip}`}>
+                            <Icon className="w-3 h-3" />
+                          </span>
+                          <div className="flex-1 min-w-0">
+                            <div className={`text-sm font-medium truncate ${
+                              task.status === 'open' ? 'text-gray-900' : 'line-through text-gray-500'
+                            }`}>
+                              {task.title}
+                            </div>
+                            <div className="text-xs text-gray-500 truncate">
+                              {task.scheduled_for
+                                ? parseDate(task.scheduled_for).toLocaleDateString(getLocale(), {
+                                    weekday: 'short',
+                                    day: 'numeric',
+                                    month: 'short'
+                                  })
+                                : 'No date'}
+                              {task.notes && ` · ${task.notes}`}
+                            </div>
+                          </div>
+                          <ChevronRight className="w-4 h-4 text-gray-400" />
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+              {results.length > pages * PAGE_SIZE && (
+                <button
+                  onClick={() => setPages(pages + 1)}
+                  className="w-full px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium"
+                >
+                  Show older weeks
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SearchView;
@@ -0,0 +1,205 @@
+import React from 'react';
+import { CalendarDays, ChevronRight, Cloud, CopyPlus, Download, LayoutGrid, Trash2, Users, X } from 'lucide-react';
+import { BoardConfig } from './types';
+import { AppSettings, FIXED_ROLLOVER, RolloverRule, getRolloverRule } from './settings';
+import { getActiveBoards } from './boards';
+import { getWeekdayLabel } from './dates';
+
+const LOCALES: [string, string][] = [
+  ['en-AU', 'English (Australia)'],
+  ['en-NZ', 'English (New Zealand)'],
+  ['en-GB', 'English (UK)'],
+  ['en-US', 'English (US)'],
+  ['en-CA', 'English (Canada)']
+];
+
+const Toggle = <T extends string>({ options, value, disabled, onChange }: {
+  options: [T, string][];
+  value: T;
+  disabled?: boolean;
+  onChange: (value: T) => void;
+}) => (
+  <div className="grid grid-cols-2 gap-2">
+    {options.map(([option, label]) => (
+      <button
+        key={option}
+        onClick={() => onChange(option)}
+        disabled={disabled}
+        className={`px-3 py-2 rounded-lg border-2 text-sm font-medium disabled:opacity-50 ${
+          value === option
+            ? 'border-teal-600 bg-teal-50 text-teal-700'
+            : 'border-gray-200 bg-white text-gray-700'
+        }`}
+      >
+        {label}
+      </button>
+    ))}
+  </div>
+);
+
+const SettingsDialog: React.FC<{
+  settings: AppSettings;
+  boards: BoardConfig[];
+  trashCount: number;
+  onChange: (settings: AppSettings) => void;
+  onOpenBoards: () => void;
+  onOpenMembers: () => void;
+  onOpenTemplates: () => void;
+  onOpenBackup: () => void;
+  onOpenCalendar: () => void;
+  onOpenTrash: () => void;
+  onOpenSync: () => void;
+  onClose: () => void;
+}> = ({ settings, boards, trashCount, onChange, onOpenBoards, onOpenMembers, onOpenTemplates, onOpenBackup, onOpenCalendar, onOpenTrash, onOpenSync, onClose }) => {
+  const updateRollover = (board: BoardConfig, updates: Partial<RolloverRule>) => {
+    onChange({
+      ...settings,
+      rollover: { ...settings.rollover, [board.id]: { ...getRolloverRule(settings, board), ...updates } }
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end justify-center z-50">
+      <div className="bg-white rounded-t-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-4 py-3 flex items-center justify-between">
+          <h2 className="text-lg font-bold">Settings</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* Calendar */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-gray-900">Calendar</h3>
+            <label className="flex items-center justify-between gap-3 text-sm font-medium text-gray-700">
+              Week starts on
+              <select
+                value={settings.week_starts_on}
+                onChange={(e) => onChange({ ...settings, week_starts_on: Number(e.target.value) })}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+              >
+                {[1, 0, 6].map(day => (
+                  <option key={day} value={day}>{getWeekdayLabel(day, 'long')}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-3 text-sm font-medium text-gray-700">
+              Dates and times
+              <select
+                value={settings.locale}
+                onChange={(e) => onChange({ ...settings, locale: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+              >
+                {LOCALES.map(([locale, label]) => (
+                  <option key={locale} value={locale}>{label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="pt-2">
+            <h3 className="text-sm font-semibold text-gray-900">Rollover</h3>
+            <p className="text-xs text-gray-500">
+              What happens to unfinished tasks when you start the next week.
+            </p>
+          </div>
+
+          {getActiveBoards(boards).map(board => {
+            const rule = getRolloverRule(settings, board);
+            const fixed = !!FIXED_ROLLOVER[board.kind];
+            return (
+              <div key={board.id} className="space-y-2">
+                <div className="text-sm font-medium text-gray-700">
+                  {board.name}
+                  {fixed && <span className="ml-2 text-xs font-normal text-gray-500">never rolls over</span>}
+                </div>
+                <Toggle
+                  options={[['roll', 'Roll over'], ['drop', 'Leave behind']]}
+                  value={rule.mode}
+                  disabled={fixed}
+                  onChange={(mode) => updateRollover(board, { mode })}
+                />
+                {rule.mode === 'roll' && (
+                  <Toggle
+                    options={[['same', 'Same weekday'], ['monday', 'Monday']]}
+                    value={rule.day}
+                    onChange={(day) => updateRollover(board, { day })}
+                  />
+                )}
+              </div>
+            );
+          })}
+
+          <div className="pt-2">
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">Data</h3>
+            <div className="space-y-2">
+              <button
+                onClick={onOpenBoards}
+                className="w-full flex items-center gap-3 px-4 py-3 bg-gray-50 rounded-lg text-sm font-medium text-gray-800 active:bg-gray-100"
+              >
+                <LayoutGrid className="w-5 h-5 text-gray-500" />
+                <span className="flex-1 text-left">Boards</span>
+                <ChevronRight className="w-4 h-4 text-gray-400" />
+              </button>
+              <button
+                onClick={onOpenMembers}
+                className="w-full flex items-center gap-3 px-4 py-3 bg-gray-50 rounded-lg text-sm font-medium text-gray-800 active:bg-gray-100"
+              >
+                <Users className="w-5 h-5 text-gray-500" />
+                <span className="flex-1 text-left">Household</span>
+                <ChevronRight className="w-4 h-4 text-gray-400" />
+              </button>
+              <button
+                onClick={onOpenTemplates}
+                className="w-full flex items-center gap-3 px-4 py-3 bg-gray-50 rounded-lg text-sm font-medium text-gray-800 active:bg-gray-100"
+              >
+                <CopyPlus className="w-5 h-5 text-gray-500" />
+                <span className="flex-1 text-left">Week templates</span>
+                <ChevronRight className="w-4 h-4 text-gray-400" />
+              </button>
+              <button
+                onClick={onOpenBackup}
+                className="w-full flex items-center gap-3 px-4 py-3 bg-gray-50 rounded-lg text-sm font-medium text-gray-800 active:bg-gray-100"
+              >
+                <Download className="w-5 h-5 text-gray-500" />
+                <span className="flex-1 text-left">Backup &amp; restore</span>
+                <ChevronRight className="w-4 h-4 text-gray-400" />
+              </button>
+              <button
+                onClick={onOpenCalendar}
+                className="w-full flex items-center gap-3 px-4 py-3 bg-gray-50 rounded-lg text-sm font-medium text-gray-800 active:bg-gray-100"
+              >
+                <CalendarDays className="w-5 h-5 text-gray-500" />
+                <span className="flex-1 text-left">Calendar export &amp; import</span>
+                <ChevronRight className="w-4 h-4 text-gray-400" />
+              </button>
+              <button
+                onClick={onOpenSync}
+                className="w-full flex items-center gap-3 px-4 py-3 bg-gray-50 rounded-lg text-sm font-medium text-gray-800 active:bg-gray-100"
+              >
+                <Cloud className="w-5 h-5 text-gray-500" />
+                <span className="flex-1 text-left">Sync between devices</span>
+                <ChevronRight className="w-4 h-4 text-gray-400" />
+              </button>
+              <button
+                onClick={onOpenTrash}
+                className="w-full flex items-center gap-3 px-4 py-3 bg-gray-50 rounded-lg text-sm font-medium text-gray-800 active:bg-gray-100"
+              >
+                <Trash2 className="w-5 h-5 text-gray-500" />
+                <span className="flex-1 text-left">Trash</span>
+                {trashCount > 0 && <span className="text-xs text-gray-500">{trashCount}</span>}
+                <ChevronRight className="w-4 h-4 text-gray-400" />
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsDialog;
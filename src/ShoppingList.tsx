@@ -0,0 +1,89 @@
+import React from 'react';
+import { Check, ShoppingCart, X } from 'lucide-react';
+import { Task, Week } from './types';
+import { buildShoppingList, formatQuantity } from './meals';
+
+const ShoppingList: React.FC<{
+  week: Week;
+  tasks: Task[];
+  onToggle: (key: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}> = ({ week, tasks, onToggle, onClear, onClose }) => {
+  const items = buildShoppingList(tasks, week.id);
+  const checked = week.shopping_checked || [];
+  const remaining = items.filter(item => !checked.includes(item.key));
+  const ticked = items.filter(item => checked.includes(item.key));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end justify-center z-50">
+      <div className="bg-white rounded-t-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-4 py-3 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold">Shopping List</h2>
+            <p className="text-xs text-gray-500">
+              {ticked.length}/{items.length} in the trolley
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-2">
+          {items.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="text-gray-400 mb-2">
+                <ShoppingCart className="w-12 h-12 mx-auto" />
+              </div>
+              <p className="text-gray-500">Nothing to buy yet</p>
+              <p className="text-sm text-gray-400 mt-1">Add recipes to this week's dinners</p>
+            </div>
+          ) : (
+            [...remaining, ...ticked].map(item => {
+              const isChecked = checked.includes(item.key);
+              return (
+                <button
+                  key={item.key}
+                  onClick={() => onToggle(item.key)}
+                  className="w-full flex items-start gap-3 p-3 bg-white rounded-lg border border-gray-200 text-left"
+                >
+                  <div className={`flex-shrink-0 w-6 h-6 rounded-full border-2 flex items-center justify-center ${
+                    isChecked ? 'bg-green-500 border-green-500' : 'border-gray-300'
+                  }`}>
+                    {isChecked && <Check className="w-4 h-4 text-white" />}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className={`text-base font-medium ${isChecked ? 'line-through text-gray-500' : 'text-gray-900'}`}>
+                      {item.name}
+                      {formatQuantity(item) && (
+                        <span className="ml-2 text-sm font-normal text-gray-500">{formatQuantity(item)}</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">{item.meals.join(', ')}</div>
+                  </div>
+                </button>
+              );
+            })
+          )}
+        </div>
+
+        {ticked.length > 0 && (
+          <div className="sticky bottom-0 bg-white border-t p-4">
+            <button
+              onClick={onClear}
+              className="w-full px-4 py-3 bg-gray-200 text-gray-800 rounded-lg font-medium active:bg-gray-300"
+            >
+              Untick everything
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShoppingList;
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { AlertTriangle, RefreshCw, X } from 'lucide-react';
+import { useSync } from './sync';
+import { getLocale } from './dates';
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return 'empty';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+};
+
+const SyncDialog: React.FC<{
+  sync: ReturnType<typeof useSync>;
+  onClose: () => void;
+}> = ({ sync, onClose }) => {
+  const { state, status, error, pendingChanges, syncNow, updateConfig, clearConflicts } = sync;
+  const [endpoint, setEndpoint] = useState(state?.config.endpoint || '');
+
+  if (!state) return null;
+  const { config, conflicts, last_synced_at } = state;
+  const endpointChanged = endpoint.trim() !== config.endpoint;
+
+  const saveEndpoint = () => {
+    if (endpointChanged) updateConfig({ endpoint: endpoint.trim() });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end justify-center z-50">
+      <div className="bg-white rounded-t-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-4 py-3 flex items-center justify-between">
+          <h2 className="text-lg font-bold">Sync Between Devices</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <p className="text-sm text-gray-600">
+            Keep tasks and weeks in step across phones through a sync server you run yourself.
+            The app works the same without it; changes made offline sync when you reconnect.
+          </p>
+
+          {/* Server */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Server address</label>
+            <div className="flex gap-2">
+              <input
+                type="url"
+                value={endpoint}
+                onChange={(e) => setEndpoint(e.target.value)}
+                onBlur={saveEndpoint}
+                placeholder="http://192.168.1.10:8787"
+                className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              />
+              {endpointChanged && (
+                <button
+                  onClick={saveEndpoint}
+                  className="px-3 py-2 bg-teal-500 text-white rounded-lg text-sm font-medium active:bg-teal-600"
+                >
+                  Save
+                </button>
+              )}
+            </div>
+            {config.endpoint && (
+              <p className="text-xs text-gray-500 mt-1">Changing the server syncs everything again from scratch.</p>
+            )}
+          </div>
+
+          <label className="flex items-center justify-between px-4 py-3 bg-gray-50 rounded-lg">
+            <span className="text-sm font-medium text-gray-800">Sync this device</span>
+            <input
+              type="checkbox"
+              checked={config.enabled}
+              disabled={!config.endpoint}
+              onChange={(e) => updateConfig({ enabled: e.target.checked })}
+              className="w-5 h-5 accent-teal-600"
+            />
+          </label>
+
+          {/* Status */}
+          {config.enabled && config.endpoint && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <div className="text-gray-700">
+                  {status === 'syncing'
+                    ? 'Syncing…'
+                    : last_synced_at
+                      ? `Last synced ${new Date(last_synced_at).toLocaleString(getLocale())}`
+                      : 'Not synced yet'}
+                  <div className="text-xs text-gray-500">
+                    {pendingChanges === 0
+                      ? 'Everything on this device is synced'
+                      : `${pendingChanges} ${pendingChanges === 1 ? 'change' : 'changes'} waiting to sync`}
+                  </div>
+                </div>
+                <button
+                  onClick={syncNow}
+                  disabled={status === 'syncing'}
+                  className="flex items-center gap-1 px-3 py-2 bg-gray-200 text-gray-800 rounded-lg font-medium active:bg-gray-300 disabled:opacity-50"
+                >
+                  <RefreshCw className={`w-4 h-4 ${status === 'syncing' ? 'animate-spin' : ''}`} />
+                  Sync now
+                </button>
+              </div>
+              {error && (
+                <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                  Could not reach the sync server ({error}). Changes stay on this device until it is back.
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Conflicts */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold text-gray-900">Conflicts</h3>
+              {conflicts.length > 0 && (
+                <button
+                  onClick={clearConflicts}
+                  className="text-xs font-medium text-gray-500"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+            {conflicts.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No conflicts. When both devices change the same field, the newer change is kept and listed here.
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {conflicts.map((c, idx) => (
+                  <li key={idx} className="p-3 bg-amber-50 rounded-lg text-sm">
+                    <div className="font-medium text-gray-900">
+                      {c.title} <span className="font-normal text-gray-500">· {c.field}</span>
+                    </div>
+                    <div className="text-xs text-gray-600">
+                      Kept {formatValue(c.kept)}, discarded {formatValue(c.discarded)}
+                    </div>
+                    <div className="text-xs text-gray-400">{new Date(c.at).toLocaleString(getLocale())}</div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncDialog;
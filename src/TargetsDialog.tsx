@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { Flame, X } from 'lucide-react';
+import { BoardConfig, Task, TargetMetric, Week, WeekTarget } from './types';
+import { getLocale, getWeekDates } from './dates';
+import { getActiveBoards } from './boards';
+import { getBoardIcon } from './boardStyles';
+import { formatTargetValue, getStreak, getTargetProgress, targetMetrics } from './targets';
+
+// Workout numbers only exist on exercise boards
+const metricsFor = (board: BoardConfig): TargetMetric[] =>
+  board.kind === 'exercise'
+    ? ['done', 'workout_minutes', 'workout_km', 'planned_minutes']
+    : ['done', 'planned_minutes'];
+
+const TargetsDialog: React.FC<{
+  tasks: Task[];
+  weeks: Week[];
+  boards: BoardConfig[];
+  week: Week;
+  onSave: (targets: WeekTarget[]) => void;
+  onClose: () => void;
+}> = ({ tasks, weeks, boards, week, onSave, onClose }) => {
+  const [draft, setDraft] = useState<WeekTarget[]>(week.targets || []);
+
+  const dates = getWeekDates(week.id);
+  const format = (d: Date) => d.toLocaleDateString(getLocale(), { day: 'numeric', month: 'short' });
+  const activeBoards = getActiveBoards(boards);
+
+  const setTarget = (board: string, updates: Partial<WeekTarget>) => {
+    const existing = draft.find(t => t.board === board);
+    const target = { board, metric: 'done' as TargetMetric, goal: 0, ...existing, ...updates };
+    setDraft([...draft.filter(t => t.board !== board), target]);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end justify-center z-50">
+      <div className="bg-white rounded-t-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-4 py-3 flex items-center justify-between">
+          <h2 className="text-lg font-bold">Weekly Targets</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <p className="text-sm text-gray-600">
+            Targets for the week of {format(dates[0])} - {format(dates[6])}. New weeks start with the same ones.
+          </p>
+
+          {activeBoards.map(board => {
+            const Icon = getBoardIcon(board.icon);
+            const target = draft.find(t => t.board === board.id);
+            const progress = target && target.goal > 0 ? getTargetProgress(tasks, week.id, target) : null;
+            const streak = getStreak(tasks, weeks, week.id, board.id);
+            return (
+              <div key={board.id} className="p-3 bg-white rounded-lg border border-gray-200 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Icon className="w-4 h-4 text-gray-600" />
+                  <span className="flex-1 text-base font-medium text-gray-900">{board.name}</span>
+                  {streak > 0 && (
+                    <span className="flex items-center gap-1 text-xs px-2 py-0.5 bg-amber-100 text-amber-800 rounded-full font-medium">
+                      <Flame className="w-3 h-3" />
+                      {streak} {streak === 1 ? 'week' : 'weeks'}
+                    </span>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    min="0"
+                    value={target?.goal || ''}
+                    onChange={(e) => setTarget(board.id, { goal: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-24 px-3 py-2 border border-gray-300 rounded-lg text-base"
+                    placeholder="None"
+                  />
+                  <select
+                    value={target?.metric || 'done'}
+                    onChange={(e) => setTarget(board.id, { metric: e.target.value as TargetMetric })}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+                  >
+                    {metricsFor(board).map(metric => (
+                      <option key={metric} value={metric}>{targetMetrics[metric].label}</option>
+                    ))}
+                  </select>
+                </div>
+                {progress && target && (
+                  <div>
+                    <div className="flex h-2 rounded-full overflow-hidden bg-gray-100">
+                      <div
+                        className={progress.met ? 'bg-green-500' : 'bg-teal-500'}
+                        style={{ width: `${progress.fraction * 100}%` }}
+                      />
+                    </div>
+                    <div className="text-xs text-gray-600 mt-1">
+                      {formatTargetValue(progress.value, target.metric)} of {formatTargetValue(target.goal, target.metric)}
+                      {progress.met && ' · hit'}
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <button
+            onClick={() => onSave(draft.filter(t => t.goal > 0))}
+            className="w-full px-4 py-3 bg-teal-500 text-white rounded-lg font-medium active:bg-teal-600"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TargetsDialog;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { BoardConfig, Priority, TaskStatus } from './types';
+import { TaskFilters } from './search';
+import { getActiveBoards } from './boards';
+
+const statusLabels: Record<TaskStatus, string> = { open: 'Open', done: 'Done', skipped: 'Skipped' };
+const priorityLabels: Record<Priority, string> = { low: 'Low', med: 'Medium', high: 'High' };
+
+const toggle = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+const Chips = <T extends string>({ options, selected, onChange }: {
+  options: [T, string][];
+  selected: T[];
+  onChange: (selected: T[]) => void;
+}) => (
+  <div className="flex flex-wrap gap-2">
+    {options.map(([option, label]) => (
+      <button
+        key={option}
+        onClick={() => onChange(toggle(selected, option))}
+        className={`px-3 py-1 rounded-full border text-sm font-medium ${
+          selected.includes(option)
+            ? 'border-teal-600 bg-teal-50 text-teal-700'
+            : 'border-gray-200 bg-white text-gray-700'
+        }`}
+      >
+        {label}
+      </button>
+    ))}
+  </div>
+);
+
+// Shared by the search view and the day list; the day list has its own date and board tabs
+const TaskFilterFields: React.FC<{
+  filters: TaskFilters;
+  boards: BoardConfig[];
+  showBoards?: boolean;
+  showDates?: boolean;
+  onChange: (filters: TaskFilters) => void;
+}> = ({ filters, boards, showBoards = true, showDates = true, onChange }) => (
+  <div className="space-y-3">
+    {showBoards && (
+      <Chips
+        options={getActiveBoards(boards).map(b => [b.id, b.name])}
+        selected={filters.boards}
+        onChange={(selected) => onChange({ ...filters, boards: selected })}
+      />
+    )}
+    <Chips
+      options={Object.entries(statusLabels) as [TaskStatus, string][]}
+      selected={filters.statuses}
+      onChange={(statuses) => onChange({ ...filters, statuses })}
+    />
+    <Chips
+      options={Object.entries(priorityLabels) as [Priority, string][]}
+      selected={filters.priorities}
+      onChange={(priorities) => onChange({ ...filters, priorities })}
+    />
+    {showDates && (
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs font-medium text-gray-600">
+          From
+          <input
+            type="date"
+            value={filters.from || ''}
+            onChange={(e) => onChange({ ...filters, from: e.target.value || undefined })}
+            className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </label>
+        <label className="text-xs font-medium text-gray-600">
+          To
+          <input
+            type="date"
+            value={filters.to || ''}
+            onChange={(e) => onChange({ ...filters, to: e.target.value || undefined })}
+            className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </label>
+      </div>
+    )}
+  </div>
+);
+
+export default TaskFilterFields;
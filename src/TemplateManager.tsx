@@ -0,0 +1,317 @@
+import React, { useState } from 'react';
+import { ChevronLeft, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { BoardConfig, Task, TemplateTask, WeekTemplate } from './types';
+import { generateId } from './utils';
+import { getLocale, getWeekDates, getWeekdayLabel, getWeekdayOrder, parseDate } from './dates';
+import { createTemplate, previewTemplate } from './templates';
+import { getActiveBoards, getBoard } from './boards';
+
+const TemplateEditor: React.FC<{
+  template: WeekTemplate;
+  boards: BoardConfig[];
+  onSave: (template: WeekTemplate) => void;
+  onCancel: () => void;
+}> = ({ template, boards, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(template);
+  const dayNames = getWeekdayOrder().map(day => getWeekdayLabel(day));
+  const activeBoards = getActiveBoards(boards);
+
+  const updateTask = (id: string, updates: Partial<TemplateTask>) => {
+    setDraft({ ...draft, tasks: draft.tasks.map(t => t.id === id ? { ...t, ...updates } : t) });
+  };
+
+  const addTask = () => {
+    setDraft({
+      ...draft,
+      tasks: [
+        ...draft.tasks,
+        { id: generateId('tpt'), board: activeBoards[0]?.id || 'todos', title: '', priority: 'med', day_offset: 0 }
+      ]
+    });
+  };
+
+  return (
+    <div className="p-4 space-y-3">
+      <input
+        type="text"
+        value={draft.name}
+        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        className="w-full px-4 py-3 border border-gray-300 rounded-lg text-base"
+        placeholder="Template name"
+      />
+
+      {draft.tasks.map(task => (
+        <div key={task.id} className="p-2 bg-gray-50 rounded-lg space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={task.title}
+              onChange={(e) => updateTask(task.id, { title: e.target.value })}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-base"
+              placeholder="Task title"
+            />
+            <button
+              onClick={() => setDraft({ ...draft, tasks: draft.tasks.filter(t => t.id !== task.id) })}
+              className="flex-shrink-0 p-2 text-gray-500"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={task.day_offset}
+              onChange={(e) => updateTask(task.id, { day_offset: Number(e.target.value) })}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+            >
+              {dayNames.map((name, idx) => (
+                <option key={name} value={idx}>{name}</option>
+              ))}
+            </select>
+            <select
+              value={task.board}
+              onChange={(e) => updateTask(task.id, { board: e.target.value })}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+            >
+              {(activeBoards.some(b => b.id === task.board)
+                ? activeBoards
+                : [...activeBoards, getBoard(boards, task.board)]
+              ).map(board => (
+                <option key={board.id} value={board.id}>{board.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={addTask}
+        className="w-full flex items-center justify-center gap-2 px-4 py-3 border-2 border-dashed border-gray-300 rounded-lg text-sm font-medium text-gray-600 active:bg-gray-50"
+      >
+        <Plus className="w-4 h-4" />
+        Add task
+      </button>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onCancel}
+          className="flex-1 px-4 py-3 bg-gray-200 text-gray-800 rounded-lg font-medium active:bg-gray-300"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave({
+            ...draft,
+            name: draft.name.trim(),
+            tasks: draft.tasks
+              .filter(t => t.title.trim())
+              .map(t => ({ ...t, title: t.title.trim() }))
+              .sort((a, b) => a.day_offset - b.day_offset),
+            updated_at: new Date().toISOString()
+          })}
+          disabled={!draft.name.trim()}
+          className="flex-1 px-4 py-3 bg-teal-500 text-white rounded-lg font-medium active:bg-teal-600 disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const TemplateManager: React.FC<{
+  templates: WeekTemplate[];
+  tasks: Task[];
+  boards: BoardConfig[];
+  weekId: string;
+  newWeekTemplate?: string;
+  onChange: (templates: WeekTemplate[]) => void;
+  onSetNewWeekTemplate: (templateId?: string) => void;
+  onApply: (template: WeekTemplate, added: Task[]) => void;
+  onClose: () => void;
+}> = ({ templates, tasks, boards, weekId, newWeekTemplate, onChange, onSetNewWeekTemplate, onApply, onClose }) => {
+  const [name, setName] = useState('');
+  const [editing, setEditing] = useState<WeekTemplate | null>(null);
+  const [previewing, setPreviewing] = useState<WeekTemplate | null>(null);
+
+  const dates = getWeekDates(weekId);
+  const dayNames = getWeekdayOrder().map(day => getWeekdayLabel(day));
+  const weekLabel = `${dates[0].toLocaleDateString(getLocale(), { day: 'numeric', month: 'short' })} - ${dates[6].toLocaleDateString(getLocale(), { day: 'numeric', month: 'short' })}`;
+  const weekTaskCount = tasks.filter(t => t.week_id === weekId && !t.series_id).length;
+  const preview = previewing ? previewTemplate(previewing, weekId, tasks) : null;
+
+  const saveCurrentWeek = () => {
+    onChange([...templates, createTemplate(name.trim(), tasks, weekId)]);
+    setName('');
+  };
+
+  const deleteTemplate = (template: WeekTemplate) => {
+    if (!window.confirm(`Delete the "${template.name}" template?`)) return;
+    onChange(templates.filter(t => t.id !== template.id));
+    if (newWeekTemplate === template.id) onSetNewWeekTemplate(undefined);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end justify-center z-50">
+      <div className="bg-white rounded-t-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-4 py-3 flex items-center justify-between">
+          {editing || previewing ? (
+            <button
+              onClick={() => {
+                setEditing(null);
+                setPreviewing(null);
+              }}
+              className="p-2 hover:bg-gray-100 rounded-lg"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+          ) : (
+            <div className="w-9" />
+          )}
+          <h2 className="text-lg font-bold">
+            {editing ? 'Edit Template' : previewing ? previewing.name : 'Week Templates'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {editing && (
+          <TemplateEditor
+            template={editing}
+            boards={boards}
+            onSave={(template) => {
+              onChange(templates.map(t => t.id === template.id ? template : t));
+              setEditing(null);
+            }}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+
+        {/* Preview */}
+        {previewing && preview && (
+          <div className="p-4 space-y-4">
+            <p className="text-sm text-gray-600">Adding to the week of {weekLabel}:</p>
+            {preview.added.length === 0 ? (
+              <p className="text-sm text-gray-500">Everything in this template is already in the week.</p>
+            ) : (
+              <ul className="space-y-1">
+                {preview.added.map(task => (
+                  <li key={task.id} className="flex items-center gap-2 text-sm">
+                    <span className="w-10 text-xs font-medium text-gray-500">
+                      {parseDate(task.scheduled_for).toLocaleDateString(getLocale(), { weekday: 'short' })}
+                    </span>
+                    <span className="flex-1 text-gray-900">{task.title}</span>
+                    <span className="text-xs text-gray-500">{getBoard(boards, task.board).name}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {preview.skipped.length > 0 && (
+              <div className="text-sm text-gray-600">
+                <p className="font-medium mb-1">Already in the week, skipped:</p>
+                <ul className="list-disc pl-5 text-gray-500">
+                  {preview.skipped.map(item => (
+                    <li key={item.id}>{item.title} ({dayNames[item.day_offset]})</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <button
+              onClick={() => {
+                onApply(previewing, preview.added);
+                setPreviewing(null);
+              }}
+              disabled={preview.added.length === 0}
+              className="w-full px-4 py-3 bg-teal-500 text-white rounded-lg font-medium active:bg-teal-600 disabled:opacity-50"
+            >
+              Add {preview.added.length} {preview.added.length === 1 ? 'task' : 'tasks'}
+            </button>
+          </div>
+        )}
+
+        {!editing && !previewing && (
+          <div className="p-4 space-y-4">
+            <div>
+              <p className="text-sm text-gray-600 mb-2">
+                Save the week of {weekLabel} ({weekTaskCount} {weekTaskCount === 1 ? 'task' : 'tasks'}) as a template.
+                Repeating tasks are left out.
+              </p>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="flex-1 min-w-0 px-4 py-3 border border-gray-300 rounded-lg text-base"
+                  placeholder="e.g. School term week"
+                />
+                <button
+                  onClick={saveCurrentWeek}
+                  disabled={!name.trim() || weekTaskCount === 0}
+                  className="px-4 py-3 bg-teal-500 text-white rounded-lg font-medium active:bg-teal-600 disabled:opacity-50"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+
+            {templates.length === 0 ? (
+              <p className="text-sm text-gray-500">No templates yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {templates.map(template => (
+                  <div key={template.id} className="p-3 bg-white rounded-lg border border-gray-200 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <div className="flex-1 min-w-0">
+                        <div className="text-base font-medium text-gray-900 truncate">{template.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {template.tasks.length} {template.tasks.length === 1 ? 'task' : 'tasks'}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => setEditing(template)}
+                        className="p-1 text-gray-500"
+                        title="Edit"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => deleteTemplate(template)}
+                        className="p-1 text-red-600"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setPreviewing(template)}
+                        className="flex-1 px-3 py-2 bg-teal-500 text-white rounded-lg text-sm font-medium active:bg-teal-600"
+                      >
+                        Apply to this week
+                      </button>
+                      <button
+                        onClick={() => onSetNewWeekTemplate(newWeekTemplate === template.id ? undefined : template.id)}
+                        className={`flex-1 px-3 py-2 rounded-lg border-2 text-sm font-medium ${
+                          newWeekTemplate === template.id
+                            ? 'border-teal-600 bg-teal-50 text-teal-700'
+                            : 'border-gray-200 bg-white text-gray-700'
+                        }`}
+                      >
+                        {newWeekTemplate === template.id ? 'Used for new weeks' : 'Use for new weeks'}
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TemplateManager;
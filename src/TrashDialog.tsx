@@ -0,0 +1,96 @@
+import React from 'react';
+import { ArchiveRestore, Trash2, X } from 'lucide-react';
+import { TrashedTask } from './types';
+import { TRASH_RETENTION_DAYS, daysUntilPurge } from './trash';
+import { getLocale, parseDate } from './dates';
+
+const TrashDialog: React.FC<{
+  trash: TrashedTask[];
+  onRestore: (item: TrashedTask) => void;
+  onPurge: (taskIds: string[]) => void;
+  onClose: () => void;
+}> = ({ trash, onRestore, onPurge, onClose }) => {
+  const items = trash.slice().sort((a, b) => b.deleted_at.localeCompare(a.deleted_at));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end justify-center z-50">
+      <div className="bg-white rounded-t-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-4 py-3 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold">Trash</h2>
+            <p className="text-xs text-gray-500">Deleted tasks are removed after {TRASH_RETENTION_DAYS} days</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-2">
+          {items.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="text-gray-400 mb-2">
+                <Trash2 className="w-12 h-12 mx-auto" />
+              </div>
+              <p className="text-gray-500">Trash is empty</p>
+            </div>
+          ) : (
+            items.map(item => (
+              <div key={item.task.id} className="flex items-center gap-3 p-3 bg-white rounded-lg border border-gray-200">
+                <div className="flex-1 min-w-0">
+                  <div className="text-base font-medium text-gray-900 truncate">{item.task.title}</div>
+                  <div className="text-xs text-gray-500">
+                    {item.task.scheduled_for
+                      ? parseDate(item.task.scheduled_for).toLocaleDateString(getLocale(), {
+                          weekday: 'short',
+                          day: 'numeric',
+                          month: 'short'
+                        })
+                      : 'Backlog'}
+                    {' · '}
+                    {daysUntilPurge(item)} days left
+                  </div>
+                </div>
+                <button
+                  onClick={() => onRestore(item)}
+                  className="flex-shrink-0 p-2 hover:bg-teal-50 active:bg-teal-100 rounded-lg text-teal-600"
+                  title="Restore"
+                >
+                  <ArchiveRestore className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm(`Delete "${item.task.title}" forever?`)) onPurge([item.task.id]);
+                  }}
+                  className="flex-shrink-0 p-2 hover:bg-red-50 active:bg-red-100 rounded-lg text-red-600"
+                  title="Delete forever"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {items.length > 0 && (
+          <div className="sticky bottom-0 bg-white border-t p-4">
+            <button
+              onClick={() => {
+                if (window.confirm('Permanently delete everything in the trash?')) {
+                  onPurge(items.map(item => item.task.id));
+                }
+              }}
+              className="w-full px-4 py-3 bg-red-500 text-white rounded-lg font-medium active:bg-red-600"
+            >
+              Empty trash
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrashDialog;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { Check, SkipForward } from 'lucide-react';
+import { BoardConfig, Task } from './types';
+import { formatDate, getLocale, getWeekDates } from './dates';
+import { compareTasks } from './ordering';
+import { getActiveBoards, getBoard } from './boards';
+import { getBoardColor } from './boardStyles';
+
+const WeekGrid: React.FC<{
+  tasks: Task[];
+  boards: BoardConfig[];
+  weekId: string;
+  selectedDate: string;
+  onSelectDay: (date: string) => void;
+  onToggle: (task: Task) => void;
+  onEdit: (task: Task) => void;
+  // Set while picking tasks for a bulk action; taps then pick instead of toggling or editing
+  selectedIds?: string[];
+  onSelect?: (task: Task) => void;
+}> = ({ tasks, boards, weekId, selectedDate, onSelectDay, onToggle, onEdit, selectedIds, onSelect }) => {
+  const today = formatDate(new Date());
+
+  return (
+    // Seven readable columns need a tablet or desktop; phones scroll sideways
+    <div className="overflow-x-auto -mx-4 px-4">
+      <div className="flex flex-wrap gap-3 mb-2">
+        {getActiveBoards(boards).map(board => (
+          <span key={board.id} className="flex items-center gap-1 text-xs text-gray-600">
+            <span className={`w-2.5 h-2.5 rounded-full ${getBoardColor(board.color).swatch}`} />
+            {board.name}
+          </span>
+        ))}
+      </div>
+      <div className="grid grid-cols-7 gap-2 min-w-[840px]">
+        {getWeekDates(weekId).map(date => {
+          const dateStr = formatDate(date);
+          const dayTasks = tasks.filter(t => t.scheduled_for === dateStr).sort(compareTasks);
+          const done = dayTasks.filter(t => t.status === 'done').length;
+
+          return (
+            <div
+              key={dateStr}
+              data-drop-date={dateStr}
+              className={`flex flex-col rounded-lg border bg-white min-h-[200px] ${
+                dateStr === selectedDate ? 'border-amber-400' : 'border-gray-200'
+              }`}
+            >
+              <button
+                onClick={() => onSelectDay(dateStr)}
+                className={`px-2 py-2 border-b text-left ${dateStr === today ? 'bg-teal-50' : ''}`}
+              >
+                <div className="text-xs font-medium text-gray-500">
+                  {date.toLocaleDateString(getLocale(), { weekday: 'short' })}
+                </div>
+                <div className="flex items-baseline justify-between">
+                  <span className="text-lg font-bold text-gray-900">{date.getDate()}</span>
+                  {dayTasks.length > 0 && (
+                    <span className="text-xs text-gray-500">{done}/{dayTasks.length}</span>
+                  )}
+                </div>
+              </button>
+
+              <div className="flex-1 p-1 space-y-1">
+                {dayTasks.map(task => {
+                  const board = getBoard(boards, task.board);
+                  return (
+                    <div
+                      key={task.id}
+                      className={`flex items-start gap-1.5 px-1.5 py-1 rounded border-l-4 ${
+                        getBoardColor(board.color).border
+                      } ${selectedIds?.includes(task.id) ? 'bg-teal-50 ring-2 ring-teal-500' : 'bg-gray-50'}`}
+                    >
+                      <button
+                        onClick={() => onSelect ? onSelect(task) : onToggle(task)}
+                        className={`flex-shrink-0 w-4 h-4 mt-0.5 rounded-full border flex items-center justify-center ${
+                          task.status === 'done'
+                            ? 'bg-green-500 border-green-500'
+                            : task.status === 'skipped'
+                            ? 'bg-gray-300 border-gray-300'
+                            : 'border-gray-400 bg-white'
+                        }`}
+                      >
+                        {task.status === 'done' && <Check className="w-3 h-3 text-white" />}
+                        {task.status === 'skipped' && <SkipForward className="w-2.5 h-2.5 text-white" />}
+                      </button>
+                      <button
+                        onClick={() => onSelect ? onSelect(task) : onEdit(task)}
+                        className={`flex-1 min-w-0 text-left text-xs leading-snug break-words ${
+                          task.status === 'open' ? 'text-gray-900' : 'line-through text-gray-500'
+                        }`}
+                        title={board.name}
+                      >
+                        {task.remind_at && (
+                          <span className="text-gray-500">{task.remind_at.split('T')[1].slice(0, 5)} </span>
+                        )}
+                        {task.title}
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default WeekGrid;
@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { BoardConfig, Member, Task, Week } from './types';
+import { getLocale, getWeekDates, parseDate } from './dates';
+import { CompletionStats, getCompletionTrend, getWeekReview } from './review';
+import { getBoard, sortBoards } from './boards';
+
+const TREND_OPTIONS = [4, 8, 12];
+
+const percent = (stats: CompletionStats) => `${Math.round(stats.rate * 100)}%`;
+
+const formatRange = (weekId: string) => {
+  const dates = getWeekDates(weekId);
+  const format = (d: Date) => d.toLocaleDateString(getLocale(), { day: 'numeric', month: 'short' });
+  return `${format(dates[0])} - ${format(dates[6])}`;
+};
+
+const StatBar: React.FC<{ label: string; stats: CompletionStats }> = ({ label, stats }) => (
+  <div>
+    <div className="flex items-center justify-between text-sm mb-1">
+      <span className="font-medium text-gray-900">{label}</span>
+      <span className="text-gray-600">
+        {stats.done}/{stats.total} · {percent(stats)}
+      </span>
+    </div>
+    <div className="flex h-2 rounded-full overflow-hidden bg-gray-100">
+      {stats.total > 0 && (
+        <>
+          <div className="bg-green-500" style={{ width: `${(stats.done / stats.total) * 100}%` }} />
+          <div className="bg-gray-300" style={{ width: `${(stats.skipped / stats.total) * 100}%` }} />
+        </>
+      )}
+    </div>
+  </div>
+);
+
+const WeekReview: React.FC<{
+  tasks: Task[];
+  weeks: Week[];
+  boards: BoardConfig[];
+  members: Member[];
+  weekId: string;
+  onStartNextWeek?: () => void;
+  onClose: () => void;
+}> = ({ tasks, weeks, boards, members, weekId, onStartNextWeek, onClose }) => {
+  const [reviewWeekId, setReviewWeekId] = useState(weekId);
+  const [trendCount, setTrendCount] = useState(TREND_OPTIONS[1]);
+
+  const review = getWeekReview(tasks, reviewWeekId);
+  const trend = getCompletionTrend(tasks, weeks, reviewWeekId, trendCount);
+  const sortedIds = weeks.map(w => w.id).sort();
+  const index = sortedIds.indexOf(reviewWeekId);
+  // Archived boards still show up for the weeks they were used in
+  const reviewBoards = sortBoards(Object.keys(review.byBoard).map(id => getBoard(boards, id)));
+  const reviewMembers = members.filter(m => review.byMember[m.id]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end justify-center z-50">
+      <div className="bg-white rounded-t-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-4 py-3 flex items-center justify-between">
+          <button
+            onClick={() => setReviewWeekId(sortedIds[index - 1])}
+            disabled={index <= 0}
+            className="p-2 hover:bg-gray-100 rounded-lg disabled:opacity-30"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <div className="text-center">
+            <h2 className="text-lg font-bold">Week Review</h2>
+            <p className="text-xs text-gray-500">{formatRange(reviewWeekId)}</p>
+          </div>
+          <div className="flex items-center">
+            <button
+              onClick={() => setReviewWeekId(sortedIds[index + 1])}
+              disabled={index < 0 || index >= sortedIds.length - 1}
+              className="p-2 hover:bg-gray-100 rounded-lg disabled:opacity-30"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 space-y-5">
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="p-3 bg-green-50 rounded-lg">
+              <div className="text-lg font-bold text-green-700">{review.overall.done}</div>
+              <div className="text-xs font-medium text-gray-600">Done</div>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <div className="text-lg font-bold text-gray-700">{review.overall.skipped}</div>
+              <div className="text-xs font-medium text-gray-600">Skipped</div>
+            </div>
+            <div className="p-3 bg-amber-50 rounded-lg">
+              <div className="text-lg font-bold text-amber-700">{review.overall.open}</div>
+              <div className="text-xs font-medium text-gray-600">Still open</div>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold text-gray-900">By board</h3>
+            {reviewBoards.length === 0 && (
+              <p className="text-sm text-gray-500">No tasks were planned this week.</p>
+            )}
+            {reviewBoards.map(board => (
+              <StatBar key={board.id} label={board.name} stats={review.byBoard[board.id]!} />
+            ))}
+          </div>
+
+          {reviewMembers.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold text-gray-900">By person</h3>
+              {reviewMembers.map(member => (
+                <StatBar
+                  key={member.id}
+                  label={`${member.emoji} ${member.name}`}
+                  stats={review.byMember[member.id]!}
+                />
+              ))}
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">By day</h3>
+            <div className="grid grid-cols-7 gap-1 text-center">
+              {review.byDay.map(({ date, stats }) => (
+                <div key={date} className="p-1 rounded-lg bg-gray-50">
+                  <div className="text-xs text-gray-500">
+                    {parseDate(date).toLocaleDateString(getLocale(), { weekday: 'short' })}
+                  </div>
+                  <div className="text-sm font-bold text-gray-900">
+                    {stats.total > 0 ? percent(stats) : '-'}
+                  </div>
+                  <div className="text-xs text-gray-500">{stats.done}/{stats.total}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 mb-1">Rolled over</h3>
+            {review.rolledOver === 0 ? (
+              <p className="text-sm text-gray-500">Nothing was carried over from the previous week.</p>
+            ) : (
+              <div className="text-sm text-gray-700">
+                <p>{review.rolledOver} {review.rolledOver === 1 ? 'task was' : 'tasks were'} carried over.</p>
+                <ul className="text-xs text-gray-500 mt-1">
+                  {Object.entries(review.rollCounts)
+                    .sort(([a], [b]) => Number(a) - Number(b))
+                    .map(([times, count]) => (
+                      <li key={times}>
+                        {count} rolled {times === '1' ? 'once' : `${times} times`}
+                      </li>
+                    ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold text-gray-900">Trend</h3>
+              <div className="flex gap-1">
+                {TREND_OPTIONS.map(count => (
+                  <button
+                    key={count}
+                    onClick={() => setTrendCount(count)}
+                    className={`px-2 py-0.5 rounded text-xs font-medium ${
+                      trendCount === count ? 'bg-teal-500 text-white' : 'bg-gray-100 text-gray-600'
+                    }`}
+                  >
+                    {count}w
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-end gap-1 h-28">
+              {trend.map(({ week, stats }) => (
+                <div key={week.id} className="flex-1 flex flex-col items-center justify-end h-full">
+                  <div className="text-xs text-gray-500">{stats.total > 0 ? percent(stats) : ''}</div>
+                  <div
+                    className={`w-full rounded-t ${week.id === reviewWeekId ? 'bg-amber-400' : 'bg-teal-400'}`}
+                    style={{ height: `${Math.max(stats.rate * 100, 2)}%` }}
+                  />
+                  <div className="text-xs text-gray-400 mt-1">
+                    {parseDate(week.start_date).toLocaleDateString(getLocale(), { day: 'numeric', month: 'numeric' })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {onStartNextWeek && (
+          <div className="sticky bottom-0 bg-white border-t p-4">
+            <button
+              onClick={onStartNextWeek}
+              className="w-full px-4 py-3 bg-amber-400 text-gray-900 rounded-lg font-bold active:bg-amber-500"
+            >
+              🚀 Start Next Week
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WeekReview;
@@ -0,0 +1,135 @@
+import React from 'react';
+import { Dumbbell, Plus, X } from 'lucide-react';
+import { ActivityType, ExerciseEntry, Workout } from './types';
+import { activityLabels } from './workouts';
+
+const numberOrUndefined = (value: string) => (value ? Number(value) : undefined);
+
+const WorkoutFields: React.FC<{
+  workout?: Workout;
+  onChange: (workout?: Workout) => void;
+}> = ({ workout, onChange }) => {
+  const updateExercise = (index: number, updates: Partial<ExerciseEntry>) => {
+    onChange({
+      ...workout!,
+      exercises: workout!.exercises.map((exercise, idx) =>
+        idx === index ? { ...exercise, ...updates } : exercise
+      )
+    });
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        Workout
+      </label>
+
+      {!workout ? (
+        <button
+          onClick={() => onChange({ activity: 'run', exercises: [] })}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 border-2 border-dashed border-gray-300 rounded-lg text-sm font-medium text-gray-600"
+        >
+          <Dumbbell className="w-4 h-4" />
+          Add workout details
+        </button>
+      ) : (
+        <div className="space-y-2 p-3 bg-green-50 rounded-lg">
+          <div className="grid grid-cols-4 gap-1">
+            {(Object.keys(activityLabels) as ActivityType[]).map(activity => (
+              <button
+                key={activity}
+                onClick={() => onChange({ ...workout, activity })}
+                className={`px-1 py-2 rounded-lg border-2 text-xs font-medium ${
+                  workout.activity === activity
+                    ? 'border-teal-600 bg-teal-50 text-teal-700'
+                    : 'border-gray-200 bg-white text-gray-700'
+                }`}
+              >
+                {activityLabels[activity]}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min={0}
+              value={workout.duration_min ?? ''}
+              onChange={(e) => onChange({ ...workout, duration_min: numberOrUndefined(e.target.value) })}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-base"
+              placeholder="Minutes"
+            />
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={workout.distance_km ?? ''}
+              onChange={(e) => onChange({ ...workout, distance_km: numberOrUndefined(e.target.value) })}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-base"
+              placeholder="Distance (km)"
+            />
+          </div>
+
+          {workout.exercises.map((exercise, idx) => (
+            <div key={idx} className="flex gap-1">
+              <input
+                type="text"
+                value={exercise.name}
+                onChange={(e) => updateExercise(idx, { name: e.target.value })}
+                className="flex-1 min-w-0 px-2 py-2 border border-gray-300 rounded-lg text-base"
+                placeholder="Exercise"
+              />
+              <input
+                type="number"
+                min={0}
+                value={exercise.sets ?? ''}
+                onChange={(e) => updateExercise(idx, { sets: numberOrUndefined(e.target.value) })}
+                className="w-14 px-2 py-2 border border-gray-300 rounded-lg text-base"
+                placeholder="Sets"
+              />
+              <input
+                type="number"
+                min={0}
+                value={exercise.reps ?? ''}
+                onChange={(e) => updateExercise(idx, { reps: numberOrUndefined(e.target.value) })}
+                className="w-14 px-2 py-2 border border-gray-300 rounded-lg text-base"
+                placeholder="Reps"
+              />
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={exercise.weight_kg ?? ''}
+                onChange={(e) => updateExercise(idx, { weight_kg: numberOrUndefined(e.target.value) })}
+                className="w-14 px-2 py-2 border border-gray-300 rounded-lg text-base"
+                placeholder="kg"
+              />
+              <button
+                onClick={() => onChange({ ...workout, exercises: workout.exercises.filter((_, i) => i !== idx) })}
+                className="flex-shrink-0 p-2 text-gray-500"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+
+          <button
+            onClick={() => onChange({ ...workout, exercises: [...workout.exercises, { name: '' }] })}
+            className="w-full flex items-center justify-center gap-1 px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700"
+          >
+            <Plus className="w-4 h-4" />
+            Exercise
+          </button>
+          <button
+            onClick={() => onChange(undefined)}
+            className="w-full text-xs text-gray-500 font-medium"
+          >
+            Remove workout
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkoutFields;
@@ -0,0 +1,41 @@
+import { Priority, ScheduledTask, Task } from './types';
+
+const PRIORITY_RANK: Record<Priority, number> = { high: 0, med: 1, low: 2 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isScheduled = (task: Task): task is ScheduledTask => !!task.scheduled_for && !!task.week_id;
+
+// Open tasks without a day, newest first so a fresh capture shows at the top
+export const getBacklog = (tasks: Task[]): Task[] =>
+  tasks
+    .filter(t => !isScheduled(t) && t.status === 'open')
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+// Most important first, and among equals whatever has waited longest
+export const suggestForWeek = (tasks: Task[], limit = 5): Task[] =>
+  getBacklog(tasks)
+    .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.created_at.localeCompare(b.created_at))
+    .slice(0, limit);
+
+export const getBacklogAge = (task: Task, now = new Date()): number =>
+  Math.max(0, Math.floor((now.getTime() - new Date(task.created_at).getTime()) / DAY_MS));
+
+export const describeAge = (days: number): string => {
+  if (days === 0) return 'Today';
+  if (days < 7) return `${days}d`;
+  if (days < 60) return `${Math.floor(days / 7)}w`;
+  return `${Math.floor(days / 30)}mo`;
+};
+
+// Anything tied to a day goes with it; the rest of the task is kept for when it is planned
+export const toBacklog = (task: Task): Task => ({
+  ...task,
+  scheduled_for: undefined,
+  week_id: undefined,
+  remind_at: undefined,
+  snoozed_until: undefined,
+  reminded_at: undefined,
+  start_time: undefined,
+  sort_order: undefined,
+  updated_at: new Date().toISOString()
+});
@@ -0,0 +1,174 @@
+import { BoardConfig, Member, Recipe, Task, Week } from './types';
+import { SCHEMA_VERSION, StoredData, runMigrations } from './migrations';
+import { isObject, validateTasks, validateWeeks } from './validation';
+import { formatDate } from './dates';
+
+const BACKUP_APP = 'bea-more-organised';
+
+export interface BackupFile {
+  app: string;
+  schema_version: number;
+  exported_at: string;
+  tasks: Task[];
+  weeks: Week[];
+  recipes?: Recipe[];
+  boards?: BoardConfig[];
+  members?: Member[];
+}
+
+export interface ParsedBackup {
+  tasks: Task[];
+  weeks: Week[];
+  recipes: Recipe[];
+  boards: BoardConfig[];
+  members: Member[];
+  errors: string[];
+  exported_at?: string;
+}
+
+export interface BackupDiff {
+  added: Task[];
+  changed: Task[];
+  // Records edited on both sides where this device has the newer copy
+  conflicting: Task[];
+  unchanged: number;
+  newWeeks: Week[];
+  newRecipes: Recipe[];
+  newBoards: BoardConfig[];
+  newMembers: Member[];
+}
+
+export const createBackup = (
+  tasks: Task[],
+  weeks: Week[],
+  recipes: Recipe[],
+  boards: BoardConfig[],
+  members: Member[]
+): BackupFile => ({
+  app: BACKUP_APP,
+  schema_version: SCHEMA_VERSION,
+  exported_at: new Date().toISOString(),
+  tasks,
+  weeks,
+  recipes,
+  boards,
+  members
+});
+
+export const downloadBackup = (
+  tasks: Task[],
+  weeks: Week[],
+  recipes: Recipe[],
+  boards: BoardConfig[],
+  members: Member[]
+) => {
+  const backup = createBackup(tasks, weeks, recipes, boards, members);
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `bea-more-organised-${formatDate(new Date())}.json`;
+  link.click();
+  // Some browsers start the download only after click() returns
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Throws when the file is not a backup at all; bad records are reported in `errors`
+export const parseBackup = (text: string): ParsedBackup => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+  if (!isObject(data) || data.app !== BACKUP_APP || !Array.isArray(data.tasks) || !Array.isArray(data.weeks)) {
+    throw new Error('This file is not a Bea More Organised backup');
+  }
+  const version = Number(data.schema_version) || 0;
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`This backup is from a newer version of the app (schema v${version})`);
+  }
+
+  // Migrations pass bad records through for validation to report, so this only fails on a bug
+  let migrated: StoredData;
+  try {
+    migrated = runMigrations(
+      { tasks: data.tasks, weeks: data.weeks, boards: Array.isArray(data.boards) ? data.boards : [] },
+      version
+    );
+  } catch (error) {
+    console.error('Could not migrate backup:', error);
+    throw new Error(`This backup could not be upgraded from schema v${version}`);
+  }
+  const tasks = validateTasks(migrated.tasks);
+  const weeks = validateWeeks(migrated.weeks);
+  // Backups made before the recipe library existed have no recipes
+  const recipes = Array.isArray(data.recipes)
+    ? data.recipes.filter((r: unknown): r is Recipe => isObject(r) && typeof r.id === 'string' && Array.isArray(r.ingredients))
+    : [];
+  return {
+    tasks: tasks.valid,
+    weeks: weeks.valid,
+    recipes,
+    // Older backups get the built-in boards from the migration
+    boards: migrated.boards.filter((b): b is BoardConfig => isObject(b) && typeof b.id === 'string' && typeof b.name === 'string'),
+    members: Array.isArray(data.members)
+      ? data.members.filter((m: unknown): m is Member => isObject(m) && typeof m.id === 'string' && typeof m.name === 'string')
+      : [],
+    errors: [...tasks.errors, ...weeks.errors],
+    exported_at: typeof data.exported_at === 'string' ? data.exported_at : undefined
+  };
+};
+
+const sameContent = (a: Task, b: Task) => JSON.stringify(a) === JSON.stringify(b);
+
+export const diffBackup = (
+  tasks: Task[],
+  weeks: Week[],
+  recipes: Recipe[],
+  boards: BoardConfig[],
+  members: Member[],
+  backup: ParsedBackup
+): BackupDiff => {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const diff: BackupDiff = {
+    added: [], changed: [], conflicting: [], unchanged: 0, newWeeks: [], newRecipes: [], newBoards: [], newMembers: []
+  };
+
+  backup.tasks.forEach(incoming => {
+    const current = byId.get(incoming.id);
+    if (!current) {
+      diff.added.push(incoming);
+    } else if (sameContent(current, incoming)) {
+      diff.unchanged++;
+    } else if (incoming.updated_at > current.updated_at) {
+      diff.changed.push(incoming);
+    } else {
+      diff.conflicting.push(incoming);
+    }
+  });
+  diff.newWeeks = backup.weeks.filter(w => !weeks.some(existing => existing.id === w.id));
+  diff.newRecipes = backup.recipes.filter(r => !recipes.some(existing => existing.id === r.id));
+  diff.newBoards = backup.boards.filter(b => !boards.some(existing => existing.id === b.id));
+  diff.newMembers = backup.members.filter(m => !members.some(existing => existing.id === m.id));
+  return diff;
+};
+
+// Merge keeps this device's copy of conflicting tasks, since it is the newer one
+export const mergeBackup = (
+  tasks: Task[],
+  weeks: Week[],
+  recipes: Recipe[],
+  boards: BoardConfig[],
+  members: Member[],
+  diff: BackupDiff
+) => {
+  const changed = new Map(diff.changed.map(t => [t.id, t]));
+  return {
+    tasks: [...tasks.map(t => changed.get(t.id) || t), ...diff.added],
+    weeks: [...weeks, ...diff.newWeeks],
+    recipes: [...recipes, ...diff.newRecipes],
+    boards: [...boards, ...diff.newBoards],
+    members: [...members, ...diff.newMembers]
+  };
+};
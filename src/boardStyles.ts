@@ -0,0 +1,41 @@
+import {
+  Baby, BookOpen, Briefcase, Car, Dumbbell, Flower2, GraduationCap, Heart, Home,
+  ListTodo, LucideIcon, Music, Plane, ShoppingBag, Sprout, Star, Utensils, Wrench
+} from 'lucide-react';
+
+export const boardIcons: Record<string, LucideIcon> = {
+  list: ListTodo,
+  dumbbell: Dumbbell,
+  utensils: Utensils,
+  baby: Baby,
+  home: Home,
+  sprout: Sprout,
+  flower: Flower2,
+  briefcase: Briefcase,
+  school: GraduationCap,
+  book: BookOpen,
+  car: Car,
+  plane: Plane,
+  shopping: ShoppingBag,
+  wrench: Wrench,
+  music: Music,
+  heart: Heart,
+  star: Star
+};
+
+// Full class names so Tailwind keeps them in the build
+export const boardColors: Record<string, { chip: string; swatch: string; border: string }> = {
+  blue: { chip: 'bg-blue-100 text-blue-700', swatch: 'bg-blue-500', border: 'border-blue-500' },
+  green: { chip: 'bg-green-100 text-green-700', swatch: 'bg-green-500', border: 'border-green-500' },
+  orange: { chip: 'bg-orange-100 text-orange-700', swatch: 'bg-orange-500', border: 'border-orange-500' },
+  purple: { chip: 'bg-purple-100 text-purple-700', swatch: 'bg-purple-500', border: 'border-purple-500' },
+  pink: { chip: 'bg-pink-100 text-pink-700', swatch: 'bg-pink-500', border: 'border-pink-500' },
+  red: { chip: 'bg-red-100 text-red-700', swatch: 'bg-red-500', border: 'border-red-500' },
+  yellow: { chip: 'bg-yellow-100 text-yellow-800', swatch: 'bg-yellow-400', border: 'border-yellow-400' },
+  teal: { chip: 'bg-teal-100 text-teal-700', swatch: 'bg-teal-500', border: 'border-teal-500' },
+  gray: { chip: 'bg-gray-100 text-gray-700', swatch: 'bg-gray-500', border: 'border-gray-500' }
+};
+
+export const getBoardIcon = (icon: string): LucideIcon => boardIcons[icon] || ListTodo;
+
+export const getBoardColor = (color: string) => boardColors[color] || boardColors.gray;
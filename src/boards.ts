@@ -0,0 +1,54 @@
+import { Board, BoardConfig } from './types';
+
+const BUILT_IN_CREATED_AT = '2024-01-01T00:00:00.000Z';
+
+export const DEFAULT_BOARDS: BoardConfig[] = [
+  { id: 'todos', name: 'To-Dos', icon: 'list', color: 'blue', kind: 'list', sort_order: 0 },
+  { id: 'exercise', name: 'Exercise', icon: 'dumbbell', color: 'green', kind: 'exercise', sort_order: 1 },
+  { id: 'dinner', name: 'Dinner', icon: 'utensils', color: 'orange', kind: 'dinner', sort_order: 2 }
+].map(board => ({
+  ...board,
+  kind: board.kind as BoardConfig['kind'],
+  archived: false,
+  created_at: BUILT_IN_CREATED_AT,
+  updated_at: BUILT_IN_CREATED_AT
+}));
+
+export const sortBoards = (boards: BoardConfig[]): BoardConfig[] =>
+  boards.slice().sort((a, b) => a.sort_order - b.sort_order);
+
+export const getActiveBoards = (boards: BoardConfig[]): BoardConfig[] =>
+  sortBoards(boards.filter(b => !b.archived));
+
+// Tasks can outlive their board, e.g. after an import, so always return something to render
+export const getBoard = (boards: BoardConfig[], id: Board): BoardConfig =>
+  boards.find(b => b.id === id) || {
+    id,
+    name: id,
+    icon: 'list',
+    color: 'gray',
+    kind: 'list',
+    sort_order: Number.MAX_SAFE_INTEGER,
+    archived: true,
+    created_at: BUILT_IN_CREATED_AT,
+    updated_at: BUILT_IN_CREATED_AT
+  };
+
+export const getBoardKind = (boards: BoardConfig[], id: Board) => getBoard(boards, id).kind;
+
+// Swaps a board with its active neighbour and renumbers, so sort orders stay 0..n
+export const moveBoard = (boards: BoardConfig[], id: Board, direction: -1 | 1): BoardConfig[] => {
+  const active = getActiveBoards(boards);
+  const index = active.findIndex(b => b.id === id);
+  const target = index + direction;
+  if (index < 0 || target < 0 || target >= active.length) return boards;
+  [active[index], active[target]] = [active[target], active[index]];
+
+  const now = new Date().toISOString();
+  const order = new Map(active.map((b, i) => [b.id, i]));
+  return boards.map(b =>
+    order.has(b.id) && order.get(b.id) !== b.sort_order
+      ? { ...b, sort_order: order.get(b.id)!, updated_at: now }
+      : b
+  );
+};
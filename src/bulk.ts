@@ -0,0 +1,79 @@
+import { Board, Priority, Task } from './types';
+import { getWeekId, parseDate, shiftDate } from './dates';
+import { nextSortOrder } from './ordering';
+import { moveReminder } from './reminders';
+
+const priorityLabels: Record<Priority, string> = { low: 'Low', med: 'Medium', high: 'High' };
+
+export type BulkAction =
+  | { type: 'status'; status: 'done' | 'skipped' }
+  | { type: 'move'; date: string }
+  // Same weekday, whole weeks away
+  | { type: 'shift'; weeks: number }
+  | { type: 'board'; board: Board }
+  | { type: 'priority'; priority: Priority }
+  | { type: 'delete' };
+
+const targetDate = (task: Task, action: BulkAction): string | undefined => {
+  if (action.type === 'move') return action.date;
+  if (action.type === 'shift' && task.scheduled_for) return shiftDate(task.scheduled_for, action.weeks * 7);
+  return undefined;
+};
+
+// Weeks the selected tasks would land in, so the caller can create any that don't exist yet
+export const getBulkTargetWeeks = (tasks: Task[], ids: string[], action: BulkAction): string[] => {
+  const weekIds = tasks
+    .filter(t => ids.includes(t.id))
+    .map(t => targetDate(t, action))
+    .filter((date): date is string => !!date)
+    .map(date => getWeekId(parseDate(date)));
+  return Array.from(new Set(weekIds));
+};
+
+// Applies one action to every selected task and returns the whole new list, ready for a
+// single commit. Moved tasks join the end of their new days in the order they were in.
+export const applyBulkAction = (tasks: Task[], ids: string[], action: BulkAction): Task[] => {
+  const selected = new Set(ids);
+  if (action.type === 'delete') return tasks.filter(t => !selected.has(t.id));
+
+  const now = new Date().toISOString();
+  return tasks.reduce<Task[]>((acc, task, index) => {
+    if (!selected.has(task.id)) return acc;
+    let updated: Task;
+    switch (action.type) {
+      case 'status':
+        updated = { ...task, status: action.status, skip_reason: undefined };
+        break;
+      case 'board':
+        updated = { ...task, board: action.board };
+        break;
+      case 'priority':
+        updated = { ...task, priority: action.priority };
+        break;
+      default: {
+        const date = targetDate(task, action);
+        if (!date || date === task.scheduled_for) return acc;
+        updated = {
+          ...task,
+          ...moveReminder(task, date),
+          scheduled_for: date,
+          week_id: getWeekId(parseDate(date)),
+          sort_order: nextSortOrder(acc, date)
+        };
+      }
+    }
+    return acc.map((t, i) => i === index ? { ...updated, updated_at: now } : t);
+  }, tasks);
+};
+
+export const describeBulkAction = (action: BulkAction, count: number): string => {
+  const tasks = `${count} ${count === 1 ? 'task' : 'tasks'}`;
+  switch (action.type) {
+    case 'status': return `${tasks} ${action.status === 'done' ? 'marked done' : 'skipped'}`;
+    case 'move':
+    case 'shift': return `${tasks} moved`;
+    case 'board': return `${tasks} moved to another board`;
+    case 'priority': return `${tasks} set to ${priorityLabels[action.priority].toLowerCase()} priority`;
+    case 'delete': return `${tasks} deleted`;
+  }
+};
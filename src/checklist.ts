@@ -0,0 +1,20 @@
+import { ChecklistItem } from './types';
+
+export const getChecklistProgress = (items: ChecklistItem[] = []) => ({
+  done: items.filter(i => i.done).length,
+  total: items.length
+});
+
+export const isChecklistComplete = (items: ChecklistItem[] = []) =>
+  items.length > 0 && items.every(i => i.done);
+
+export const toggleChecklistItem = (items: ChecklistItem[], itemId: string): ChecklistItem[] =>
+  items.map(i => i.id === itemId ? { ...i, done: !i.done } : i);
+
+export const moveChecklistItem = (items: ChecklistItem[], index: number, direction: -1 | 1): ChecklistItem[] => {
+  const target = index + direction;
+  if (target < 0 || target >= items.length) return items;
+  const moved = items.slice();
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+};
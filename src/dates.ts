@@ -0,0 +1,49 @@
+// Calendar dates are 'YYYY-MM-DD' strings in the device's local time. Nothing here goes
+// through toISOString(), which turns local midnight east of UTC into the previous day.
+
+let weekStartsOn = 1;
+let locale = 'en-AU';
+
+// Set from the user's settings on load and whenever they change
+export const configureDates = (options: { week_starts_on: number; locale: string }) => {
+  weekStartsOn = options.week_starts_on;
+  locale = options.locale;
+};
+
+export const getWeekStartsOn = () => weekStartsOn;
+
+export const getLocale = () => locale;
+
+export const formatDate = (date: Date): string =>
+  [date.getFullYear(), String(date.getMonth() + 1).padStart(2, '0'), String(date.getDate()).padStart(2, '0')].join('-');
+
+export const parseDate = (dateStr: string): Date => {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Calendar arithmetic, so a day is a day even when DST makes it 23 or 25 hours long
+export const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export const shiftDate = (dateStr: string, days: number): string => formatDate(addDays(parseDate(dateStr), days));
+
+export const getStartOfWeek = (date: Date, startsOn = weekStartsOn): Date =>
+  addDays(date, -((date.getDay() - startsOn + 7) % 7));
+
+export const getWeekId = (date: Date, startsOn = weekStartsOn): string =>
+  `wk_${formatDate(getStartOfWeek(date, startsOn))}`;
+
+export const getWeekDates = (weekId: string): Date[] => {
+  const start = parseDate(weekId.replace('wk_', ''));
+  return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+};
+
+// 0 = Sunday ... 6 = Saturday, named in the user's locale
+export const getWeekdayLabel = (day: number, format: 'narrow' | 'short' | 'long' = 'short'): string =>
+  // 7 January 2024 was a Sunday
+  new Date(2024, 0, 7 + day).toLocaleDateString(locale, { weekday: format });
+
+// Weekday numbers in the order the user's week runs
+export const getWeekdayOrder = (): number[] =>
+  Array.from({ length: 7 }, (_, i) => (weekStartsOn + i) % 7);
@@ -0,0 +1,64 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+export type DropTarget =
+  | { type: 'day'; date: string }
+  | { type: 'week'; direction: 'prev' | 'next' }
+  | { type: 'task'; taskId: string; after: boolean };
+
+export interface DragState {
+  taskId: string;
+  x: number;
+  y: number;
+  target: DropTarget | null;
+}
+
+// Drop zones mark themselves with data attributes, so anything on screen can be one
+const findTarget = (x: number, y: number): DropTarget | null => {
+  const element = document.elementFromPoint(x, y) as HTMLElement | null;
+  const zone = element?.closest<HTMLElement>('[data-drop-date], [data-drop-week], [data-drop-task]');
+  if (!zone) return null;
+  if (zone.dataset.dropDate) return { type: 'day', date: zone.dataset.dropDate };
+  if (zone.dataset.dropWeek) return { type: 'week', direction: zone.dataset.dropWeek === 'prev' ? 'prev' : 'next' };
+  const rect = zone.getBoundingClientRect();
+  return { type: 'task', taskId: zone.dataset.dropTask!, after: y > rect.top + rect.height / 2 };
+};
+
+// Pointer events cover mouse, pen and touch alike. Drags start from a handle marked
+// `touch-none`, so on phones the page doesn't scroll instead.
+export const useTaskDrag = (onDrop: (taskId: string, target: DropTarget) => void) => {
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const onDropRef = useRef(onDrop);
+  onDropRef.current = onDrop;
+  const taskId = drag?.taskId;
+
+  useEffect(() => {
+    if (!taskId) return;
+
+    const onMove = (e: PointerEvent) => {
+      setDrag(current => current && { ...current, x: e.clientX, y: e.clientY, target: findTarget(e.clientX, e.clientY) });
+    };
+    const onUp = (e: PointerEvent) => {
+      const target = findTarget(e.clientX, e.clientY);
+      setDrag(null);
+      if (target) onDropRef.current(taskId, target);
+    };
+    const onCancel = () => setDrag(null);
+
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+    window.addEventListener('pointercancel', onCancel);
+    return () => {
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+      window.removeEventListener('pointercancel', onCancel);
+    };
+  }, [taskId]);
+
+  const startDrag = (id: string) => (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    setDrag({ taskId: id, x: e.clientX, y: e.clientY, target: null });
+  };
+
+  return { drag, startDrag };
+};
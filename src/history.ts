@@ -0,0 +1,89 @@
+import { Task, TrashedTask } from './types';
+
+const MAX_HISTORY = 50;
+
+// Replacement per id; null means the record should not exist
+type Patch<T> = Record<string, T | null>;
+
+export interface HistoryEntry {
+  label: string;
+  undo: { tasks: Patch<Task>; trash: Patch<TrashedTask> };
+  redo: { tasks: Patch<Task>; trash: Patch<TrashedTask> };
+}
+
+const taskId = (t: Task) => t.id;
+const trashId = (t: TrashedTask) => t.task.id;
+
+// Mutations replace the objects they touch, so a reference check finds exactly what changed
+const diff = <T>(before: T[], after: T[], getId: (item: T) => string) => {
+  const beforeById = new Map(before.map(item => [getId(item), item]));
+  const afterById = new Map(after.map(item => [getId(item), item]));
+  const undo: Patch<T> = {};
+  const redo: Patch<T> = {};
+
+  beforeById.forEach((item, id) => {
+    if (afterById.get(id) !== item) {
+      undo[id] = item;
+      redo[id] = afterById.get(id) ?? null;
+    }
+  });
+  afterById.forEach((item, id) => {
+    if (!beforeById.has(id)) {
+      undo[id] = null;
+      redo[id] = item;
+    }
+  });
+  return { undo, redo };
+};
+
+// Only the records a change touched are patched, so anything else that happened since is kept
+const applyPatch = <T>(
+  items: T[],
+  patch: Patch<T>,
+  getId: (item: T) => string,
+  keep: (current: T, next: T) => T = (_, next) => next
+): T[] => {
+  const seen = new Set<string>();
+  const result = items.flatMap(item => {
+    const id = getId(item);
+    if (!(id in patch)) return [item];
+    seen.add(id);
+    const next = patch[id];
+    return next ? [keep(item, next)] : [];
+  });
+  Object.entries(patch).forEach(([id, next]) => {
+    if (next && !seen.has(id)) result.push(next);
+  });
+  return result;
+};
+
+export const createHistoryEntry = (
+  label: string,
+  tasks: { before: Task[]; after: Task[] },
+  trash: { before: TrashedTask[]; after: TrashedTask[] }
+): HistoryEntry => {
+  const taskDiff = diff(tasks.before, tasks.after, taskId);
+  const trashDiff = diff(trash.before, trash.after, trashId);
+  return {
+    label,
+    undo: { tasks: taskDiff.undo, trash: trashDiff.undo },
+    redo: { tasks: taskDiff.redo, trash: trashDiff.redo }
+  };
+};
+
+// A reminder that has gone off stays that way, so undoing an edit made after it fired
+// doesn't fire it again; undoing a reminder move still brings back the older stamp
+const keepReminded = (current: Task, next: Task): Task =>
+  (current.reminded_at || '') > (next.reminded_at || '') ? { ...next, reminded_at: current.reminded_at } : next;
+
+export const applyHistory = (
+  tasks: Task[],
+  trash: TrashedTask[],
+  step: HistoryEntry['undo']
+) => ({
+  tasks: applyPatch(tasks, step.tasks, taskId, keepReminded),
+  trash: applyPatch(trash, step.trash, trashId)
+});
+
+export const pushHistory = (stack: HistoryEntry[], entry: HistoryEntry): HistoryEntry[] =>
+  [...stack, entry].slice(-MAX_HISTORY);
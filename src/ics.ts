@@ -0,0 +1,398 @@
+import { BoardConfig, Priority, ScheduledTask, Task } from './types';
+import { generateId } from './utils';
+import { formatDate, getWeekId, parseDate, shiftDate } from './dates';
+import { getActiveBoards, getBoard } from './boards';
+import { DEFAULT_DURATION_MIN } from './timeline';
+import { moveReminder } from './reminders';
+
+const PRODID = '-//Bea More Organised//Weekly Tasks//EN';
+// Exported tasks get `<id>@<domain>` so importing our own file finds them again
+const UID_DOMAIN = 'bea-more-organised';
+
+// How tasks without a time are exported
+export type UntimedExport = 'event' | 'todo';
+
+// One VEVENT or VTODO from an imported calendar, reduced to what a task can hold
+export interface CalendarEvent {
+  uid: string;
+  title: string;
+  notes?: string;
+  date: string;
+  // 'HH:MM'; missing for all-day events
+  start_time?: string;
+  duration_min?: number;
+  // Minutes before the start the alarm goes off
+  alarm_before?: number;
+  categories: string[];
+  done: boolean;
+  cancelled: boolean;
+  // Marked on our own export: the start is only the reminder, or the length was made up.
+  // Importing the file again leaves those out, so the task comes back as it was.
+  reminder_only: boolean;
+  default_duration: boolean;
+}
+
+export interface CalendarImport {
+  added: Task[];
+  updated: Task[];
+  unchanged: number;
+}
+
+const PRIORITY_VALUES: Record<Priority, number> = { high: 1, med: 5, low: 9 };
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Lines longer than 75 bytes carry on after a line break and a space (RFC 5545 3.1)
+const fold = (line: string): string => {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // The leading space counts towards a continuation line's 75
+    if (bytes + size > (lines.length === 0 ? 75 : 74)) {
+      lines.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  return [...lines, current].join('\r\n ');
+};
+
+const toIcsDate = (date: string) => date.replace(/-/g, '');
+const toIcsDateTime = (date: string, time: string) => `${toIcsDate(date)}T${time.replace(':', '')}00`;
+const toIcsDuration = (minutes: number) => `${minutes < 0 ? '-' : ''}PT${Math.abs(minutes)}M`;
+
+const toClock = (date: Date) =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+const getUid = (task: Task) => task.ics_uid || `${task.id}@${UID_DOMAIN}`;
+
+// Times are left floating, so the phone shows them at the same clock time as the app does
+const buildTask = (task: ScheduledTask, boards: BoardConfig[], untimed: UntimedExport, stamp: string): string[] => {
+  const reminder = task.remind_at?.split('T')[1]?.slice(0, 5);
+  const start = task.start_time || reminder;
+  const shared = [
+    `UID:${getUid(task)}`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeText(task.title)}`,
+    ...(task.notes ? [`DESCRIPTION:${escapeText(task.notes)}`] : []),
+    `CATEGORIES:${escapeText(getBoard(boards, task.board).name)}`
+  ];
+
+  if (start) {
+    const lines = [
+      'BEGIN:VEVENT',
+      ...shared,
+      `DTSTART:${toIcsDateTime(task.scheduled_for, start)}`,
+      `DURATION:${toIcsDuration(task.duration_min || DEFAULT_DURATION_MIN)}`,
+      ...(task.start_time ? [] : ['X-BEA-REMINDER-ONLY:TRUE']),
+      ...(task.start_time && !task.duration_min ? ['X-BEA-DEFAULT-DURATION:TRUE'] : []),
+      ...(task.status === 'skipped' ? ['STATUS:CANCELLED'] : [])
+    ];
+    if (reminder && task.status === 'open') {
+      const offset = Math.round(
+        (new Date(task.remind_at!).getTime() - new Date(`${task.scheduled_for}T${start}:00`).getTime()) / 60000
+      );
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(task.title)}`,
+        `TRIGGER:${toIcsDuration(offset)}`,
+        'END:VALARM'
+      );
+    }
+    return [...lines, 'END:VEVENT'];
+  }
+
+  if (untimed === 'todo') {
+    return [
+      'BEGIN:VTODO',
+      ...shared,
+      `DUE;VALUE=DATE:${toIcsDate(task.scheduled_for)}`,
+      `PRIORITY:${PRIORITY_VALUES[task.priority]}`,
+      `STATUS:${{ open: 'NEEDS-ACTION', done: 'COMPLETED', skipped: 'CANCELLED' }[task.status]}`,
+      'END:VTODO'
+    ];
+  }
+
+  return [
+    'BEGIN:VEVENT',
+    ...shared,
+    `DTSTART;VALUE=DATE:${toIcsDate(task.scheduled_for)}`,
+    `DTEND;VALUE=DATE:${toIcsDate(shiftDate(task.scheduled_for, 1))}`,
+    'TRANSP:TRANSPARENT',
+    ...(task.status === 'skipped' ? ['STATUS:CANCELLED'] : []),
+    'END:VEVENT'
+  ];
+};
+
+export const buildCalendar = (tasks: ScheduledTask[], boards: BoardConfig[], untimed: UntimedExport): string => {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    ...tasks.flatMap(task => buildTask(task, boards, untimed, stamp)),
+    'END:VCALENDAR'
+  ];
+  return lines.map(fold).join('\r\n') + '\r\n';
+};
+
+export const downloadCalendar = (text: string, name: string) => {
+  const blob = new Blob([text], { type: 'text/calendar' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name}.ics`;
+  link.click();
+  // Some browsers start the download only after click() returns
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// NAME;PARAM=x;PARAM="a:b":value, where the value starts at the first colon outside quotes
+const parseLine = (line: string): ContentLine | null => {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+// Whole days stay as they are. UTC times (trailing Z) are moved to local time; times with
+// a TZID are taken as already local, which holds for calendars shared around here.
+const parseDateTime = (value: string): { date: string; time?: string } | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, , utc] = match;
+  if (!hours) return { date: `${year}-${month}-${day}` };
+  if (utc) {
+    const local = new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes));
+    return { date: formatDate(local), time: toClock(local) };
+  }
+  return { date: `${year}-${month}-${day}`, time: `${hours}:${minutes}` };
+};
+
+// RFC 5545 durations such as PT1H30M, -PT15M or P1D, in minutes
+const parseDuration = (value: string): number | null => {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes] = match;
+  const total = (Number(weeks) || 0) * 7 * 24 * 60 + (Number(days) || 0) * 24 * 60
+    + (Number(hours) || 0) * 60 + (Number(minutes) || 0);
+  return sign === '-' ? -total : total;
+};
+
+const minutesBetween = (start: { date: string; time?: string }, end: { date: string; time?: string }) =>
+  Math.round(
+    (new Date(`${end.date}T${end.time || '00:00'}:00`).getTime()
+      - new Date(`${start.date}T${start.time || '00:00'}:00`).getTime()) / 60000
+  );
+
+const toEvent = (props: ContentLine[], alarms: ContentLine[][], todo: boolean): CalendarEvent | null => {
+  const get = (name: string) => props.find(p => p.name === name);
+  const startLine = todo ? get('DUE') || get('DTSTART') : get('DTSTART');
+  const start = startLine && parseDateTime(startLine.value);
+  if (!start) return null;
+
+  const title = unescapeText(get('SUMMARY')?.value || '').trim() || 'Untitled event';
+  let duration_min: number | undefined;
+  const end = get('DTEND') && parseDateTime(get('DTEND')!.value);
+  const duration = get('DURATION') && parseDuration(get('DURATION')!.value);
+  if (start.time && end?.time) duration_min = minutesBetween(start, end);
+  else if (start.time && duration) duration_min = duration;
+
+  // The earliest alarm set relative to the start wins
+  const before = alarms
+    .map(a => a.find(p => p.name === 'TRIGGER'))
+    .filter((t): t is ContentLine => !!t && t.params.VALUE !== 'DATE-TIME' && t.params.RELATED !== 'END')
+    .map(t => parseDuration(t.value))
+    .filter((offset): offset is number => offset !== null)
+    .map(offset => -offset);
+  const status = get('STATUS')?.value.toUpperCase();
+  const flag = (name: string) => get(name)?.value.toUpperCase() === 'TRUE';
+
+  return {
+    // Without a UID, the title and start are the best way to recognise it next time
+    uid: get('UID')?.value || `${startLine!.value}-${title}`,
+    title,
+    notes: get('DESCRIPTION') ? unescapeText(get('DESCRIPTION')!.value).trim() || undefined : undefined,
+    date: start.date,
+    start_time: start.time,
+    duration_min: duration_min && duration_min > 0 ? duration_min : undefined,
+    alarm_before: start.time && before.length > 0 ? Math.max(...before) : undefined,
+    categories: (get('CATEGORIES')?.value || '').split(/(?<!\\),/).map(c => unescapeText(c).trim()).filter(Boolean),
+    done: status === 'COMPLETED',
+    cancelled: status === 'CANCELLED',
+    reminder_only: flag('X-BEA-REMINDER-ONLY'),
+    default_duration: flag('X-BEA-DEFAULT-DURATION')
+  };
+};
+
+// Throws when the file is not a calendar at all. Repeating events come in as their
+// first occurrence only, and multi-day events as their first day.
+export const parseCalendar = (text: string): CalendarEvent[] => {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(Boolean);
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('This file is not an iCalendar (.ics) file');
+  }
+
+  const events: CalendarEvent[] = [];
+  let props: ContentLine[] | null = null;
+  let kind = '';
+  let alarm: ContentLine[] | null = null;
+  let alarms: ContentLine[][] = [];
+
+  lines.forEach(raw => {
+    const line = parseLine(raw.trim());
+    if (!line) return;
+    if (line.name === 'BEGIN') {
+      const component = line.value.toUpperCase();
+      if (component === 'VEVENT' || component === 'VTODO') {
+        props = [];
+        kind = component;
+        alarms = [];
+      } else if (component === 'VALARM' && props) {
+        alarm = [];
+      }
+      return;
+    }
+    if (line.name === 'END') {
+      const component = line.value.toUpperCase();
+      if (component === 'VALARM' && alarm) {
+        alarms.push(alarm);
+        alarm = null;
+      } else if (component === kind && props) {
+        const event = toEvent(props, alarms, kind === 'VTODO');
+        if (event) events.push(event);
+        props = null;
+      }
+      return;
+    }
+    (alarm || props)?.push(line);
+  });
+
+  return events;
+};
+
+const findTask = (tasks: Task[], uid: string) =>
+  tasks.find(t => t.ics_uid === uid)
+    || (uid.endsWith(`@${UID_DOMAIN}`) ? tasks.find(t => t.id === uid.slice(0, -UID_DOMAIN.length - 1)) : undefined);
+
+const toFields = (event: CalendarEvent): Partial<Task> => {
+  let remind_at: string | undefined;
+  if (event.start_time && event.alarm_before !== undefined) {
+    const at = new Date(`${event.date}T${event.start_time}:00`);
+    at.setMinutes(at.getMinutes() - event.alarm_before);
+    remind_at = `${formatDate(at)}T${toClock(at)}:00`;
+  }
+  return {
+    title: event.title,
+    notes: event.notes,
+    scheduled_for: event.date,
+    week_id: getWeekId(parseDate(event.date)),
+    start_time: event.reminder_only ? undefined : event.start_time,
+    duration_min: event.reminder_only || event.default_duration ? undefined : event.duration_min,
+    remind_at
+  };
+};
+
+// Reminders and start times compare to the minute: tasks may store them with or without seconds
+const sameValue = (key: keyof Task, a: unknown, b: unknown) => {
+  if (typeof a !== 'string' || typeof b !== 'string') return a === b;
+  if (key === 'remind_at') return a.slice(0, 16) === b.slice(0, 16);
+  if (key === 'start_time') return a.slice(0, 5) === b.slice(0, 5);
+  return a === b;
+};
+
+// Events that were imported before update their task in place, keeping its board, status
+// and anything else set in the app. Events go to the board named in their categories,
+// or the default board.
+export const planCalendarImport = (
+  events: CalendarEvent[],
+  tasks: Task[],
+  boards: BoardConfig[],
+  defaultBoard: string
+): CalendarImport => {
+  const now = new Date().toISOString();
+  const activeBoards = getActiveBoards(boards);
+  const result: CalendarImport = { added: [], updated: [], unchanged: 0 };
+  const seen = new Set<string>();
+
+  events.forEach(event => {
+    // Calendars repeat a UID for edited occurrences of one series; the first one is kept
+    if (seen.has(event.uid)) return;
+    seen.add(event.uid);
+    const existing = findTask(tasks, event.uid);
+    const fields = toFields(event);
+
+    if (existing) {
+      const moved = event.date !== existing.scheduled_for;
+      const cancelled = event.cancelled && existing.status === 'open';
+      // Notes, durations and reminders the event doesn't have are kept from the app
+      const updates: Partial<Task> = {
+        ...fields,
+        notes: fields.notes || existing.notes,
+        duration_min: fields.duration_min || existing.duration_min,
+        remind_at: fields.remind_at || (moved ? moveReminder(existing, event.date).remind_at : existing.remind_at),
+        ...(cancelled ? { status: 'skipped' as const, skip_reason: 'Cancelled in the calendar' } : {})
+      };
+      if ((Object.keys(updates) as (keyof Task)[]).every(key => sameValue(key, updates[key], existing[key]))) {
+        result.unchanged++;
+        return;
+      }
+      result.updated.push({
+        ...existing,
+        ...updates,
+        ...(!sameValue('remind_at', updates.remind_at, existing.remind_at) ? { snoozed_until: undefined, reminded_at: undefined } : {}),
+        // A place set by hand means nothing on the day the event moved to
+        sort_order: moved ? undefined : existing.sort_order,
+        ics_uid: event.uid.endsWith(`@${UID_DOMAIN}`) ? existing.ics_uid : event.uid,
+        updated_at: now
+      });
+      return;
+    }
+
+    if (event.cancelled) return;
+    const board = activeBoards.find(b => event.categories.some(c => c.toLowerCase() === b.name.toLowerCase()));
+    result.added.push({
+      ...fields,
+      id: generateId(),
+      board: board?.id || defaultBoard,
+      title: event.title,
+      status: event.done ? 'done' : 'open',
+      priority: 'med',
+      ics_uid: event.uid,
+      created_at: now,
+      updated_at: now
+    });
+  });
+
+  return result;
+};
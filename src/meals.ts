@@ -0,0 +1,54 @@
+import { Ingredient, Task } from './types';
+import { isScheduled } from './backlog';
+
+export interface ShoppingItem {
+  key: string;
+  name: string;
+  unit?: string;
+  // Undefined when none of the recipes gave an amount
+  quantity?: number;
+  meals: string[];
+}
+
+const normalise = (value?: string) => (value || '').trim().toLowerCase();
+
+export const getIngredientKey = (ingredient: Ingredient) =>
+  `${normalise(ingredient.name)}|${normalise(ingredient.unit)}`;
+
+// Merges identical ingredients (same name and unit) across the week's dinners
+export const buildShoppingList = (tasks: Task[], weekId: string): ShoppingItem[] => {
+  const items = new Map<string, ShoppingItem>();
+
+  tasks
+    .filter(isScheduled)
+    .filter(t => t.week_id === weekId && t.status !== 'skipped' && t.meta?.recipe)
+    .sort((a, b) => a.scheduled_for.localeCompare(b.scheduled_for))
+    .forEach(task => {
+      task.meta!.recipe!.ingredients
+        .filter(ingredient => ingredient.name.trim())
+        .forEach(ingredient => {
+          const key = getIngredientKey(ingredient);
+          const item = items.get(key) || {
+            key,
+            name: ingredient.name.trim(),
+            unit: ingredient.unit?.trim() || undefined,
+            meals: []
+          };
+          if (ingredient.quantity !== undefined) {
+            item.quantity = (item.quantity || 0) + ingredient.quantity;
+          }
+          if (!item.meals.includes(task.title)) {
+            item.meals.push(task.title);
+          }
+          items.set(key, item);
+        });
+    });
+
+  return Array.from(items.values()).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const formatQuantity = (item: { quantity?: number; unit?: string }) => {
+  if (item.quantity === undefined) return item.unit || '';
+  const amount = Number.isInteger(item.quantity) ? item.quantity : Math.round(item.quantity * 100) / 100;
+  return item.unit ? `${amount} ${item.unit}` : String(amount);
+};
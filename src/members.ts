@@ -0,0 +1,20 @@
+import { BoardKind, Member, Task } from './types';
+
+export const MEMBER_EMOJIS = ['🐝', '🦊', '🐻', '🐼', '🐨', '🐸', '🦁', '🐯', '🐙', '🦄', '🐧', '🐢'];
+
+// 'everyone', 'mine', or a member id
+export type AssigneeFilter = string;
+
+export const getActiveMembers = (members: Member[]): Member[] => members.filter(m => !m.archived);
+
+export const getMember = (members: Member[], id?: string): Member | undefined =>
+  id ? members.find(m => m.id === id) : undefined;
+
+// "Mine" shows nothing until this device knows who is using it
+export const matchesAssignee = (task: Task, filter: AssigneeFilter, memberId?: string): boolean => {
+  if (filter === 'everyone') return true;
+  if (filter === 'mine') return !!memberId && task.assignee === memberId;
+  return task.assignee === filter;
+};
+
+export const getAssigneeLabel = (boardKind: BoardKind) => boardKind === 'dinner' ? 'Cook' : 'Assigned to';
@@ -0,0 +1,145 @@
+import { Task, Week } from './types';
+import { formatDate, getWeekDates, getWeekId, parseDate, shiftDate } from './dates';
+import { DEFAULT_BOARDS } from './boards';
+
+// Raw records as saved; older versions may be missing fields the current types require
+export interface StoredData {
+  tasks: unknown[];
+  weeks: unknown[];
+  boards: unknown[];
+}
+
+// Migrations run before validation, so they only touch records and dates they can read.
+// Anything else passes through unchanged for validation to report.
+const isRecord = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object';
+const isDate = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: StoredData) => StoredData;
+}
+
+// Files every task under the week its date falls in, and merges week records onto the
+// ids the current week start gives them. Used after the week start changes.
+export const rekeyWeeks = ({ tasks, weeks }: { tasks: Task[]; weeks: Week[] }): { tasks: Task[]; weeks: Week[] } => {
+  const now = new Date().toISOString();
+  const merged = new Map<string, Week>();
+  weeks.forEach(week => {
+    const id = getWeekId(parseDate(week.start_date));
+    const dates = getWeekDates(id);
+    const existing = merged.get(id);
+    const checked = [...(existing?.shopping_checked || []), ...(week.shopping_checked || [])];
+    merged.set(id, {
+      ...week,
+      id,
+      start_date: formatDate(dates[0]),
+      end_date: formatDate(dates[6]),
+      created_at: existing && existing.created_at < week.created_at ? existing.created_at : week.created_at,
+      updated_at: id === week.id && !existing ? week.updated_at : now,
+      shopping_checked: checked.length > 0 ? Array.from(new Set(checked)) : undefined,
+      targets: week.targets || existing?.targets
+    });
+  });
+  return {
+    tasks: tasks.map(t => {
+      if (!isDate(t.scheduled_for)) return t;
+      const week_id = getWeekId(parseDate(t.scheduled_for));
+      return week_id === t.week_id ? t : { ...t, week_id, updated_at: now };
+    }),
+    weeks: Array.from(merged.values())
+  };
+};
+
+// Append new migrations here and bump SCHEMA_VERSION to match the last one
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Fill defaults for tasks saved before the schema was versioned',
+    migrate: ({ tasks, weeks, boards }) => ({
+      tasks: tasks.map(t => {
+        if (!isRecord(t)) return t;
+        const now = new Date().toISOString();
+        return {
+          ...t,
+          status: t.status || 'open',
+          priority: t.priority || 'med',
+          week_id: t.week_id || (isDate(t.scheduled_for) ? getWeekId(parseDate(t.scheduled_for)) : undefined),
+          created_at: t.created_at || now,
+          updated_at: t.updated_at || t.created_at || now
+        };
+      }),
+      weeks,
+      boards
+    })
+  },
+  {
+    version: 2,
+    description: 'Store boards as data, seeded with the built-in three',
+    migrate: ({ tasks, weeks, boards }) => {
+      const seeded = boards.length > 0 ? boards : DEFAULT_BOARDS;
+      const ids = new Set(seeded.filter(isRecord).map(b => b.id));
+      return {
+        tasks: tasks.map(t => (!isRecord(t) || ids.has(t.board) ? t : { ...t, board: 'todos' })),
+        weeks,
+        boards: seeded
+      };
+    }
+  },
+  {
+    version: 3,
+    description: 'Move dates saved through UTC back to the local day they were shown on',
+    migrate: ({ tasks, weeks, boards }) => {
+      // Dates used to be written with toISOString(), which east of UTC gives the day before
+      // for any time between local midnight and UTC midnight. West of UTC it never does.
+      if (new Date().getTimezoneOffset() >= 0) return { tasks, weeks, boards };
+      // Weeks always started at local midnight on a Monday, so a stored Sunday is a shifted one.
+      // Task dates can't be told apart that way; only those created in the gap are moved.
+      const shiftedWeek = (w: Record<string, any>) => parseDate(w.start_date).getDay() === 0;
+      const shiftedTask = (t: Record<string, any>) =>
+        typeof t.created_at === 'string'
+        && !Number.isNaN(Date.parse(t.created_at))
+        && formatDate(new Date(t.created_at)) !== t.created_at.slice(0, 10);
+      const shift = (date: unknown) => (isDate(date) ? shiftDate(date, 1) : date);
+      const shiftTime = (dateTime: unknown) =>
+        typeof dateTime === 'string' && isDate(dateTime.slice(0, 10))
+          ? `${shiftDate(dateTime.slice(0, 10), 1)}${dateTime.slice(10)}`
+          : dateTime;
+      const usableTasks = tasks.filter(isRecord);
+      const usableWeeks = weeks.filter((w): w is Record<string, any> => isRecord(w) && isDate(w.start_date));
+      const usable = new Set<unknown>(usableWeeks);
+      const shifted = rekeyWeeks({
+        tasks: usableTasks.map(t => (!shiftedTask(t) ? t : {
+          ...t,
+          scheduled_for: shift(t.scheduled_for),
+          remind_at: shiftTime(t.remind_at),
+          repeat: isRecord(t.repeat) ? {
+            ...t.repeat,
+            starts_on: shift(t.repeat.starts_on),
+            until: shift(t.repeat.until)
+          } : t.repeat
+        })) as Task[],
+        weeks: usableWeeks.map(w => (!shiftedWeek(w) ? w : {
+          ...w,
+          start_date: shift(w.start_date),
+          end_date: shift(w.end_date)
+        })) as Week[]
+      });
+      // Back in their original places, so validation errors still point at the right record
+      let next = 0;
+      return {
+        tasks: tasks.map(t => (isRecord(t) ? shifted.tasks[next++] : t)),
+        weeks: [...shifted.weeks, ...weeks.filter(w => !usable.has(w))],
+        boards
+      };
+    }
+  }
+];
+
+export const SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+export const runMigrations = (data: StoredData, fromVersion: number): StoredData =>
+  migrations
+    .filter(m => m.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce((acc, m) => m.migrate(acc), data);
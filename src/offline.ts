@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { getPendingWriteCount, subscribePendingWrites } from './storage';
+
+// Only production builds get a service worker; in dev it would cache Vite's modules
+export const registerServiceWorker = async (onUpdate: (worker: ServiceWorker) => void) => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  try {
+    const registration = await navigator.serviceWorker.register(`/sw.js?v=${__BUILD_ID__}`);
+    // A worker already waiting from an earlier visit is an update too
+    if (registration.waiting && navigator.serviceWorker.controller) {
+      onUpdate(registration.waiting);
+    }
+    registration.addEventListener('updatefound', () => {
+      const worker = registration.installing;
+      worker?.addEventListener('statechange', () => {
+        // Without a controller this is the first install, not an update
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+          onUpdate(worker);
+        }
+      });
+    });
+  } catch (error) {
+    console.warn('Service worker registration failed:', error);
+  }
+};
+
+export const useServiceWorkerUpdate = () => {
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+
+  useEffect(() => {
+    registerServiceWorker(setWaiting);
+  }, []);
+
+  const applyUpdate = () => {
+    if (!waiting) return;
+    navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+    waiting.postMessage('SKIP_WAITING');
+  };
+
+  return { updateReady: !!waiting, applyUpdate, dismissUpdate: () => setWaiting(null) };
+};
+
+export const usePendingWrites = () => {
+  const [count, setCount] = useState(getPendingWriteCount);
+  useEffect(() => subscribePendingWrites(setCount), []);
+  return count;
+};
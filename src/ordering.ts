@@ -0,0 +1,42 @@
+import { Task } from './types';
+
+// Open tasks first, then manual order, then oldest first
+export const compareTasks = (a: Task, b: Task): number => {
+  if (a.status !== 'open' && b.status === 'open') return 1;
+  if (a.status === 'open' && b.status !== 'open') return -1;
+  const orderA = a.sort_order ?? Number.MAX_SAFE_INTEGER;
+  const orderB = b.sort_order ?? Number.MAX_SAFE_INTEGER;
+  if (orderA !== orderB) return orderA - orderB;
+  return a.created_at.localeCompare(b.created_at);
+};
+
+// Position for a task joining the end of a day
+export const nextSortOrder = (tasks: Task[], date: string): number =>
+  tasks
+    .filter(t => t.scheduled_for === date && t.sort_order !== undefined)
+    .reduce((max, t) => Math.max(max, t.sort_order! + 1), 0);
+
+// Moves a task next to another one on the same day and renumbers the whole day, across
+// all boards, so the order holds whichever board tab is showing. Returns `tasks` unchanged
+// when nothing moves.
+export const reorderDay = (tasks: Task[], taskId: string, targetId: string, after: boolean): Task[] => {
+  const moving = tasks.find(t => t.id === taskId);
+  const target = tasks.find(t => t.id === targetId);
+  if (!moving || !target || moving.id === target.id || moving.scheduled_for !== target.scheduled_for) {
+    return tasks;
+  }
+
+  const day = tasks
+    .filter(t => t.scheduled_for === target.scheduled_for && t.id !== taskId)
+    .sort(compareTasks);
+  day.splice(day.indexOf(target) + (after ? 1 : 0), 0, moving);
+
+  const order = new Map(day.map((t, i) => [t.id, i]));
+  if (day.every(t => t.sort_order === order.get(t.id))) return tasks;
+  const now = new Date().toISOString();
+  return tasks.map(t =>
+    order.has(t.id) && t.sort_order !== order.get(t.id)
+      ? { ...t, sort_order: order.get(t.id)!, updated_at: now }
+      : t
+  );
+};
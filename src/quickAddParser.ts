@@ -0,0 +1,149 @@
+import { Board, BoardConfig, Priority } from './types';
+import { addDays, formatDate, getStartOfWeek } from './dates';
+import { getActiveBoards } from './boards';
+
+export interface QuickAddResult {
+  title: string;
+  board: Board;
+  // Missing when nothing in the text names a day and there is no default, i.e. the backlog
+  scheduled_for?: string;
+  remind_at?: string;
+  priority: Priority;
+}
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, weds: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6
+};
+
+const PRIORITY_WORDS: Record<string, Priority> = {
+  '!': 'high', '!!': 'high', high: 'high', urgent: 'high',
+  med: 'med', medium: 'med',
+  low: 'low'
+};
+
+// Words that suggest a board kind without naming the board; they stay in the title
+const KIND_KEYWORDS: Partial<Record<BoardConfig['kind'], string[]>> = {
+  exercise: ['gym', 'run', 'walk', 'swim', 'yoga', 'pilates', 'workout', 'ride', 'bike', 'cycle', 'hike'],
+  dinner: ['dinner', 'supper']
+};
+
+const TIME_PATTERN = /^(\d{1,2})(?:[:.](\d{2}))?(am|pm)?$/;
+const DATE_PATTERN = /^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/;
+
+// "next fri" is Friday of next week, "this fri" Friday of this week, and a bare "fri" the
+// first Friday from today onwards. Weeks start where the rest of the app starts them.
+const resolveWeekday = (today: Date, weekday: number, qualifier?: 'next' | 'this'): Date => {
+  if (!qualifier) return addDays(today, (weekday - today.getDay() + 7) % 7);
+  const weekStart = addDays(getStartOfWeek(today), qualifier === 'next' ? 7 : 0);
+  return addDays(weekStart, (weekday - weekStart.getDay() + 7) % 7);
+};
+
+const parseTime = (token: string): string | null => {
+  if (token === 'noon') return '12:00';
+  if (token === 'midnight') return '00:00';
+  const match = token.match(TIME_PATTERN);
+  // A bare number is more likely part of the title than a time
+  if (!match || (!match[2] && !match[3])) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] || 0);
+  if (match[3] === 'pm' && hours < 12) hours += 12;
+  if (match[3] === 'am' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+const parseDate = (token: string, today: Date): Date | null => {
+  const match = token.match(DATE_PATTERN);
+  if (!match) return null;
+  // Day first, as in en-AU; a date without a year that has passed means next year
+  const year = match[3] ? Number(match[3].length === 2 ? `20${match[3]}` : match[3]) : today.getFullYear();
+  let date = new Date(year, Number(match[2]) - 1, Number(match[1]));
+  if (date.getMonth() !== Number(match[2]) - 1) return null;
+  if (!match[3] && date < today) date = new Date(year + 1, date.getMonth(), date.getDate());
+  return date;
+};
+
+const findBoard = (boards: BoardConfig[], word: string): BoardConfig | undefined =>
+  getActiveBoards(boards).find(b => {
+    const name = b.name.toLowerCase().replace(/[^a-z0-9]/g, '');
+    return b.id === word || name === word || name === `${word}s`;
+  });
+
+export const parseQuickAdd = (
+  text: string,
+  options: { boards: BoardConfig[]; defaultBoard: Board; defaultDate?: string; today?: Date }
+): QuickAddResult => {
+  const { boards, defaultBoard, defaultDate } = options;
+  const now = options.today || new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  const kept: string[] = [];
+
+  let date: Date | null = null;
+  let time: string | null = null;
+  let priority: Priority | null = null;
+  let board: BoardConfig | undefined;
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i].toLowerCase();
+    const next = words[i + 1]?.toLowerCase();
+
+    if ((word === 'next' || word === 'this') && next !== undefined && next in WEEKDAYS && !date) {
+      date = resolveWeekday(today, WEEKDAYS[next], word);
+      i++;
+    } else if (word === 'next' && next === 'week' && !date) {
+      date = resolveWeekday(today, getStartOfWeek(today).getDay(), 'next');
+      i++;
+    } else if (word === 'in' && next && /^\d+$/.test(next) && /^days?$/.test(words[i + 2]?.toLowerCase() || '') && !date) {
+      date = addDays(today, Number(next));
+      i += 2;
+    } else if (word === 'today' || word === 'tonight') {
+      date = date || today;
+    } else if (['tomorrow', 'tmr', 'tmrw', 'tomoz'].includes(word)) {
+      date = date || addDays(today, 1);
+    } else if (word in WEEKDAYS && !date) {
+      date = resolveWeekday(today, WEEKDAYS[word]);
+    } else if (!date && parseDate(word, today)) {
+      date = parseDate(word, today);
+    } else if (word === 'at' && next && parseTime(next)) {
+      time = parseTime(next);
+      i++;
+    } else if (!time && parseTime(word)) {
+      time = parseTime(word);
+    } else if (word in PRIORITY_WORDS && !priority) {
+      priority = PRIORITY_WORDS[word];
+    } else if (word === 'on' && next && (next in WEEKDAYS || DATE_PATTERN.test(next))) {
+      // "on fri" reads naturally; the weekday itself is handled next time round
+    } else {
+      kept.push(words[i]);
+    }
+  }
+
+  // A leading board name picks the board and is dropped from the title ("dinner fri spag bol")
+  const named = kept.length > 1 ? findBoard(boards, kept[0].toLowerCase()) : undefined;
+  if (named) {
+    board = named;
+    kept.shift();
+  } else {
+    const lower = kept.map(w => w.toLowerCase());
+    const kind = (Object.keys(KIND_KEYWORDS) as BoardConfig['kind'][])
+      .find(k => KIND_KEYWORDS[k]!.some(keyword => lower.includes(keyword)));
+    board = kind ? getActiveBoards(boards).find(b => b.kind === kind) : undefined;
+  }
+
+  const title = kept.join(' ');
+  const scheduled_for = date ? formatDate(date) : defaultDate;
+  return {
+    title: title.charAt(0).toUpperCase() + title.slice(1),
+    board: board?.id || defaultBoard,
+    scheduled_for,
+    remind_at: time && scheduled_for ? `${scheduled_for}T${time}:00` : undefined,
+    priority: priority || 'med'
+  };
+};
@@ -0,0 +1,152 @@
+import { RepeatRule, ScheduledTask, SeriesFields, Task } from './types';
+import { formatDate, getWeekDates, getWeekdayLabel, getWeekdayOrder, parseDate } from './dates';
+import { isScheduled } from './backlog';
+
+const daysInMonth = (date: Date): number =>
+  new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+
+export const occursOn = (rule: RepeatRule, date: Date): boolean => {
+  const dateStr = formatDate(date);
+  if (dateStr < rule.starts_on) return false;
+  if (rule.until && dateStr > rule.until) return false;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return true;
+    case 'weekdays':
+      return (rule.weekdays || []).includes(date.getDay());
+    case 'weekly': {
+      const start = parseDate(rule.starts_on);
+      if (date.getDay() !== start.getDay()) return false;
+      const days = Math.round((date.getTime() - start.getTime()) / 86400000);
+      return Math.round(days / 7) % Math.max(1, rule.interval || 1) === 0;
+    }
+    case 'monthly': {
+      const target = Math.min(rule.day_of_month || parseDate(rule.starts_on).getDate(), daysInMonth(date));
+      return date.getDate() === target;
+    }
+  }
+};
+
+export const describeRepeat = (rule: RepeatRule): string => {
+  let text: string;
+  switch (rule.frequency) {
+    case 'daily':
+      text = 'Daily';
+      break;
+    case 'weekdays':
+      text = getWeekdayOrder().filter(d => (rule.weekdays || []).includes(d)).map(d => getWeekdayLabel(d)).join(', ') || 'No days';
+      break;
+    case 'weekly':
+      text = (rule.interval || 1) > 1 ? `Every ${rule.interval} weeks` : 'Weekly';
+      break;
+    case 'monthly':
+      text = `Monthly on the ${rule.day_of_month || parseDate(rule.starts_on).getDate()}`;
+      break;
+  }
+  return rule.until ? `${text} until ${rule.until}` : text;
+};
+
+// The occurrence scheduled last carries the most recent version of the rule
+export const getSeriesTemplates = (tasks: Task[]): ScheduledTask[] => {
+  const latest = new Map<string, ScheduledTask>();
+  tasks.forEach(t => {
+    if (!t.series_id || !t.repeat || !isScheduled(t)) return;
+    const current = latest.get(t.series_id);
+    if (!current || t.scheduled_for > current.scheduled_for) {
+      latest.set(t.series_id, t);
+    }
+  });
+  return Array.from(latest.values());
+};
+
+// Snapshot of what later occurrences copy, taken whenever the whole series is set or edited
+export const getSeriesFields = (task: SeriesFields & Pick<Task, 'remind_at'>): SeriesFields => ({
+  board: task.board,
+  title: task.title,
+  notes: task.notes,
+  priority: task.priority,
+  assignee: task.assignee,
+  start_time: task.start_time,
+  duration_min: task.duration_min,
+  checklist: task.checklist?.map(item => ({ ...item, done: false })),
+  meta: task.meta,
+  remind_time: task.remind_at?.split('T')[1]
+});
+
+// Dates a series must not fill again because an occurrence was deleted from them or moved
+// away. Recorded on every occurrence's rule, since any of them may end up the template.
+export const recordSeriesExceptions = (before: Task[], after: Task[]): Task[] => {
+  const afterById = new Map(after.map(t => [t.id, t]));
+  const skipped = new Map<string, string[]>();
+  before.forEach(t => {
+    if (!t.series_id || !t.scheduled_for || afterById.get(t.id)?.scheduled_for === t.scheduled_for) return;
+    skipped.set(t.series_id, [...(skipped.get(t.series_id) || []), t.scheduled_for]);
+  });
+  if (skipped.size === 0) return after;
+
+  const now = new Date().toISOString();
+  return after.map(t => {
+    const dates = t.series_id && skipped.get(t.series_id);
+    if (!dates || !t.repeat) return t;
+    const exceptions = Array.from(new Set([...(t.repeat.exceptions || []), ...dates])).sort();
+    return { ...t, repeat: { ...t.repeat, exceptions }, updated_at: now };
+  });
+};
+
+// The same on every device, so two phones filling the same week make the same records
+const occurrenceId = (seriesId: string, date: string) => `${seriesId}_${date}`;
+
+// Builds the occurrences missing from a week; existing ones are never duplicated
+export const materialiseWeek = (
+  tasks: Task[],
+  weekId: string,
+  options: { fromDate?: string; seriesId?: string } = {}
+): Task[] => {
+  const { fromDate, seriesId } = options;
+  const now = new Date().toISOString();
+  const existing = new Set(
+    tasks.filter(t => t.series_id).map(t => `${t.series_id}|${t.scheduled_for}`)
+  );
+  // An occurrence moved to another day keeps its id, and still stands for its first date
+  const ids = new Set(tasks.map(t => t.id));
+
+  return getSeriesTemplates(tasks)
+    .filter(template => !seriesId || template.series_id === seriesId)
+    .flatMap(template =>
+      getWeekDates(weekId)
+        .filter(date => {
+          const dateStr = formatDate(date);
+          return (!fromDate || dateStr >= fromDate)
+            && occursOn(template.repeat!, date)
+            && !template.repeat!.exceptions?.includes(dateStr)
+            && !existing.has(`${template.series_id}|${dateStr}`)
+            && !ids.has(occurrenceId(template.series_id!, dateStr));
+        })
+        .map(date => {
+          const scheduled_for = formatDate(date);
+          // Built from the series' own fields, so nothing done to one occurrence (a one-off
+          // edit, a skip reason, its place in the day) carries on into the next
+          const { remind_time, ...fields } = template.repeat!.fields || getSeriesFields(template);
+          return {
+            ...fields,
+            id: occurrenceId(template.series_id!, scheduled_for),
+            series_id: template.series_id,
+            repeat: template.repeat,
+            status: 'open' as const,
+            scheduled_for,
+            week_id: weekId,
+            remind_at: remind_time ? `${scheduled_for}T${remind_time}` : undefined,
+            created_at: now,
+            updated_at: now
+          };
+        })
+    );
+};
+
+// Caps a rule so it stops producing occurrences from `dateStr` onwards
+export const endSeriesBefore = (rule: RepeatRule, dateStr: string): RepeatRule => {
+  const d = parseDate(dateStr);
+  d.setDate(d.getDate() - 1);
+  return { ...rule, until: formatDate(d) };
+};
@@ -0,0 +1,173 @@
+import { useEffect, useRef } from 'react';
+import { Task } from './types';
+
+export type SnoozeOption = '10m' | '1h' | 'tomorrow';
+
+// Reminders this far behind the app starting were missed while it was closed
+const MISSED_GRACE_MS = 60 * 1000;
+// Long timers drift when a phone sleeps, so re-check at least hourly
+const MAX_TIMER_MS = 60 * 60 * 1000;
+
+export const getReminderTime = (task: Task): Date | null => {
+  const value = task.snoozed_until || task.remind_at;
+  if (!value) return null;
+  const time = new Date(value);
+  return isNaN(time.getTime()) ? null : time;
+};
+
+export const isReminderPending = (task: Task): boolean => {
+  if (task.status !== 'open') return false;
+  const time = getReminderTime(task);
+  if (!time) return false;
+  return !task.reminded_at || new Date(task.reminded_at) < time;
+};
+
+export const getSnoozeTime = (task: Task, option: SnoozeOption, now = new Date()): string => {
+  const time = new Date(now);
+  if (option === '10m') {
+    time.setMinutes(time.getMinutes() + 10);
+  } else if (option === '1h') {
+    time.setHours(time.getHours() + 1);
+  } else {
+    // Tomorrow at the task's usual reminder time
+    const [hours, minutes] = (task.remind_at?.split('T')[1] || '09:00').split(':').map(Number);
+    time.setDate(time.getDate() + 1);
+    time.setHours(hours, minutes, 0, 0);
+  }
+  return time.toISOString();
+};
+
+// Keeps a reminder on the same time of day when its task moves to another date
+export const moveReminder = (task: Task, scheduled_for: string): Partial<Task> => ({
+  remind_at: task.remind_at ? `${scheduled_for}T${task.remind_at.split('T')[1]}` : undefined,
+  snoozed_until: undefined,
+  reminded_at: undefined
+});
+
+export const canNotify = (): boolean =>
+  typeof Notification !== 'undefined' && Notification.permission === 'granted';
+
+// What the user picked on a system notification; 'open' is a tap on the notification itself
+export type ReminderAction = SnoozeOption | 'done' | 'open';
+
+// Not in TypeScript's DOM types, but supported by service worker notifications
+type ActionNotificationOptions = NotificationOptions & { actions?: { action: string; title: string }[] };
+
+const NOTIFICATION_ACTIONS = [
+  { action: 'done', title: 'Done' },
+  { action: '10m', title: 'Snooze 10 min' },
+  { action: '1h', title: 'Snooze 1 hour' },
+  { action: 'tomorrow', title: 'Tomorrow' }
+];
+
+const toReminderAction = (value: unknown): ReminderAction =>
+  value === 'done' || value === '10m' || value === '1h' || value === 'tomorrow' ? value : 'open';
+
+// Through the service worker the notification gets Done and snooze buttons, which public/sw.js
+// hands back to the page. Browsers show as many as they support (often two); the in-app toast
+// that a tap opens has them all. Without a service worker, e.g. in dev, a plain one is shown.
+export const showNotification = async (task: Task, onClick: () => void) => {
+  const title = `🐝 ${task.title}`;
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) {
+    const options: ActionNotificationOptions = {
+      body: task.notes || 'Tap to snooze or mark as done',
+      tag: task.id,
+      icon: '/icons/icon-192.png',
+      data: { taskId: task.id },
+      actions: NOTIFICATION_ACTIONS
+    };
+    await registration.showNotification(title, options);
+    return;
+  }
+  const notification = new Notification(title, {
+    body: task.notes || 'Tap to snooze or mark as done',
+    tag: task.id
+  });
+  notification.onclick = () => {
+    window.focus();
+    onClick();
+    notification.close();
+  };
+};
+
+// Picks up notification buttons, both from a running app (a service worker message) and
+// from one the service worker had to open (the ?reminder= query). Waits for `ready` so the
+// task list is loaded before anything is looked up in it.
+export const useReminderActions = (ready: boolean, onAction: (taskId: string, action: ReminderAction) => void) => {
+  const onActionRef = useRef(onAction);
+  onActionRef.current = onAction;
+
+  useEffect(() => {
+    if (!ready) return;
+    const params = new URLSearchParams(window.location.search);
+    const taskId = params.get('reminder');
+    if (taskId) {
+      window.history.replaceState(null, '', window.location.pathname);
+      onActionRef.current(taskId, toReminderAction(params.get('action')));
+    }
+
+    if (!('serviceWorker' in navigator)) return;
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'reminder-action' && typeof event.data.taskId === 'string') {
+        onActionRef.current(event.data.taskId, toReminderAction(event.data.action));
+      }
+    };
+    navigator.serviceWorker.addEventListener('message', onMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', onMessage);
+  }, [ready]);
+};
+
+export const useReminderScheduler = (
+  tasks: Task[],
+  onDue: (due: Task[], missed: Task[]) => void
+) => {
+  const tasksRef = useRef(tasks);
+  const onDueRef = useRef(onDue);
+  const startedAt = useRef(Date.now());
+  // Reminder time already handed to onDue per task, until the task state catches up
+  const handled = useRef(new Map<string, number>());
+  tasksRef.current = tasks;
+  onDueRef.current = onDue;
+
+  useEffect(() => {
+    let timer: number | undefined;
+
+    const check = () => {
+      window.clearTimeout(timer);
+      const now = Date.now();
+      const due: Task[] = [];
+      const missed: Task[] = [];
+      let next = Infinity;
+
+      tasksRef.current.filter(isReminderPending).forEach(task => {
+        const time = getReminderTime(task)!.getTime();
+        if (handled.current.get(task.id) === time) return;
+        if (time > now) {
+          next = Math.min(next, time);
+          return;
+        }
+        handled.current.set(task.id, time);
+        (time < startedAt.current - MISSED_GRACE_MS ? missed : due).push(task);
+      });
+
+      if (due.length > 0 || missed.length > 0) {
+        onDueRef.current(due, missed);
+      }
+      if (next !== Infinity) {
+        timer = window.setTimeout(check, Math.min(next - now, MAX_TIMER_MS));
+      }
+    };
+
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible') check();
+    };
+
+    check();
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      window.clearTimeout(timer);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [tasks]);
+};
@@ -0,0 +1,69 @@
+import { Board, Task, Week } from './types';
+import { formatDate, getWeekDates } from './dates';
+
+export interface CompletionStats {
+  total: number;
+  done: number;
+  skipped: number;
+  open: number;
+  // Share of tasks done, 0 when there were none
+  rate: number;
+}
+
+export interface WeekReview {
+  overall: CompletionStats;
+  byBoard: Record<Board, CompletionStats | undefined>;
+  // Keyed by member id; unassigned tasks are left out
+  byMember: Record<string, CompletionStats | undefined>;
+  byDay: { date: string; stats: CompletionStats }[];
+  rolledOver: number;
+  // Number of rolled tasks keyed by how many weeks they have been carried
+  rollCounts: Record<number, number>;
+}
+
+export const getCompletionStats = (tasks: Task[]): CompletionStats => {
+  const done = tasks.filter(t => t.status === 'done').length;
+  const skipped = tasks.filter(t => t.status === 'skipped').length;
+  return {
+    total: tasks.length,
+    done,
+    skipped,
+    open: tasks.length - done - skipped,
+    rate: tasks.length > 0 ? done / tasks.length : 0
+  };
+};
+
+export const getWeekReview = (tasks: Task[], weekId: string): WeekReview => {
+  const weekTasks = tasks.filter(t => t.week_id === weekId);
+  const rolled = weekTasks.filter(t => (t.roll_count || 0) > 0);
+  const rollCounts: Record<number, number> = {};
+  rolled.forEach(t => {
+    rollCounts[t.roll_count!] = (rollCounts[t.roll_count!] || 0) + 1;
+  });
+
+  return {
+    overall: getCompletionStats(weekTasks),
+    byBoard: Object.fromEntries(
+      Array.from(new Set(weekTasks.map(t => t.board)))
+        .map(board => [board, getCompletionStats(weekTasks.filter(t => t.board === board))])
+    ),
+    byMember: Object.fromEntries(
+      Array.from(new Set(weekTasks.map(t => t.assignee).filter((id): id is string => !!id)))
+        .map(id => [id, getCompletionStats(weekTasks.filter(t => t.assignee === id))])
+    ),
+    byDay: getWeekDates(weekId).map(date => {
+      const dateStr = formatDate(date);
+      return { date: dateStr, stats: getCompletionStats(weekTasks.filter(t => t.scheduled_for === dateStr)) };
+    }),
+    rolledOver: rolled.length,
+    rollCounts
+  };
+};
+
+// Completion for the `count` weeks ending with `weekId`, oldest first; weeks never opened are skipped
+export const getCompletionTrend = (tasks: Task[], weeks: Week[], weekId: string, count: number) =>
+  weeks
+    .filter(w => w.id <= weekId)
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .slice(-count)
+    .map(week => ({ week, stats: getCompletionStats(tasks.filter(t => t.week_id === week.id)) }));
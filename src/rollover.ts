@@ -0,0 +1,58 @@
+import { BoardConfig, Task } from './types';
+import { AppSettings, getRolloverRule } from './settings';
+import { getBoard } from './boards';
+import { formatDate, getWeekDates, getWeekStartsOn, parseDate } from './dates';
+import { moveReminder } from './reminders';
+import { isScheduled } from './backlog';
+
+// Copies unfinished tasks from one week into the next. Safe to run again: a task that
+// already has a copy in the target week is not rolled twice.
+export const rollTasks = (
+  tasks: Task[],
+  fromWeekId: string,
+  toWeekId: string,
+  settings: AppSettings,
+  boards: BoardConfig[]
+): Task[] => {
+  const alreadyRolled = new Set(
+    tasks.filter(t => t.week_id === toWeekId && t.rolled_from).map(t => t.rolled_from)
+  );
+  // The same on every device, so two phones rolling the same week make the same copies
+  const copyId = (t: Task) => `${t.id}_${toWeekId}`;
+  const ids = new Set(tasks.map(t => t.id));
+  const targetDates = getWeekDates(toWeekId);
+  const now = new Date().toISOString();
+  const ruleFor = (t: Task) => getRolloverRule(settings, getBoard(boards, t.board));
+
+  return tasks
+    .filter(isScheduled)
+    .filter(t =>
+      t.week_id === fromWeekId
+      && t.status === 'open'
+      // Recurring tasks are regenerated by their series instead
+      && !t.series_id
+      && ruleFor(t).mode === 'roll'
+      && !alreadyRolled.has(t.id)
+      && !ids.has(copyId(t))
+    )
+    .map(t => {
+      // Position within the target week, which may not start on a Monday
+      const dayOfWeek = ruleFor(t).day === 'monday' ? 1 : parseDate(t.scheduled_for).getDay();
+      const newDate = targetDates[(dayOfWeek - getWeekStartsOn() + 7) % 7];
+      const scheduled_for = formatDate(newDate);
+
+      return {
+        ...t,
+        ...moveReminder(t, scheduled_for),
+        id: copyId(t),
+        rolled_from: t.id,
+        roll_count: (t.roll_count || 0) + 1,
+        // Ticked items stay behind with the original
+        checklist: t.checklist?.filter(item => !item.done),
+        week_id: toWeekId,
+        scheduled_for,
+        created_at: now,
+        updated_at: now
+      };
+    });
+};
@@ -0,0 +1,56 @@
+import { Board, Priority, Task, TaskStatus } from './types';
+import { compareTasks } from './ordering';
+
+export interface TaskFilters {
+  query: string;
+  // An empty list means no restriction
+  boards: Board[];
+  statuses: TaskStatus[];
+  priorities: Priority[];
+  from?: string;
+  to?: string;
+}
+
+export interface WeekResults {
+  weekId: string;
+  tasks: Task[];
+}
+
+export const EMPTY_FILTERS: TaskFilters = { query: '', boards: [], statuses: [], priorities: [] };
+
+export const countActiveFilters = (filters: TaskFilters): number =>
+  [filters.query.trim(), filters.boards.length, filters.statuses.length, filters.priorities.length, filters.from, filters.to]
+    .filter(Boolean).length;
+
+const normalise = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Every word of the query has to appear somewhere in the title, notes or checklist
+export const matchesFilters = (task: Task, filters: TaskFilters): boolean => {
+  if (filters.boards.length > 0 && !filters.boards.includes(task.board)) return false;
+  if (filters.statuses.length > 0 && !filters.statuses.includes(task.status)) return false;
+  if (filters.priorities.length > 0 && !filters.priorities.includes(task.priority)) return false;
+  // A date range leaves out the backlog, which has no dates
+  if (filters.from && (!task.scheduled_for || task.scheduled_for < filters.from)) return false;
+  if (filters.to && (!task.scheduled_for || task.scheduled_for > filters.to)) return false;
+
+  const words = normalise(filters.query).split(' ').filter(Boolean);
+  if (words.length === 0) return true;
+  const text = normalise(`${task.title} ${task.notes || ''} ${(task.checklist || []).map(i => i.title).join(' ')}`);
+  return words.every(word => text.includes(word));
+};
+
+// Matches grouped by week, most recent week first so "when did we last..." is at the top.
+// Backlog matches come last under an empty week id.
+export const searchTasks = (tasks: Task[], filters: TaskFilters): WeekResults[] => {
+  const byWeek = new Map<string, Task[]>();
+  tasks
+    .filter(t => matchesFilters(t, filters))
+    .forEach(t => byWeek.set(t.week_id || '', [...(byWeek.get(t.week_id || '') || []), t]));
+
+  return Array.from(byWeek.entries())
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([weekId, weekTasks]) => ({
+      weekId,
+      tasks: weekTasks.sort((a, b) => (a.scheduled_for || '').localeCompare(b.scheduled_for || '') || compareTasks(a, b))
+    }));
+};
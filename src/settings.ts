@@ -0,0 +1,48 @@
+import { Board, BoardConfig, BoardKind } from './types';
+
+export interface RolloverRule {
+  // 'drop' leaves unfinished tasks behind in the old week
+  mode: 'roll' | 'drop';
+  // Keep the task on the same weekday, or land everything on Monday
+  day: 'same' | 'monday';
+}
+
+export interface AppSettings {
+  rollover: Record<Board, RolloverRule>;
+  // The household member using this device, for the "Mine" filter
+  member_id?: string;
+  // Template applied to every week as it is created
+  new_week_template?: string;
+  // 0 = Sunday ... 6 = Saturday
+  week_starts_on: number;
+  // Used for weekday names, dates and times
+  locale: string;
+}
+
+// Dinners are planned fresh each week, so they never roll
+export const FIXED_ROLLOVER: Partial<Record<BoardKind, RolloverRule>> = {
+  dinner: { mode: 'drop', day: 'same' }
+};
+
+const DEFAULT_ROLLOVER: RolloverRule = { mode: 'roll', day: 'same' };
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  rollover: {
+    todos: { mode: 'roll', day: 'same' },
+    exercise: { mode: 'roll', day: 'same' },
+    dinner: { mode: 'drop', day: 'same' }
+  },
+  week_starts_on: 1,
+  locale: 'en-AU'
+};
+
+// Fills anything missing from settings saved by an older version
+export const withDefaults = (saved: Partial<AppSettings> | null): AppSettings => ({
+  ...DEFAULT_SETTINGS,
+  ...saved,
+  rollover: { ...DEFAULT_SETTINGS.rollover, ...saved?.rollover }
+});
+
+// Boards added after the settings were saved fall back to rolling on the same weekday
+export const getRolloverRule = (settings: AppSettings, board: BoardConfig): RolloverRule =>
+  FIXED_ROLLOVER[board.kind] || settings.rollover[board.id] || DEFAULT_ROLLOVER;
@@ -0,0 +1,367 @@
+import { BoardConfig, Member, Recipe, RejectedRecord, Task, TrashedTask, Week, WeekTemplate } from './types';
+import { SCHEMA_VERSION, runMigrations } from './migrations';
+import { AppSettings, withDefaults } from './settings';
+import type { SyncState } from './sync';
+
+declare global {
+  interface Window {
+    // Key-value store provided by the host the app is embedded in, when there is one
+    storage?: {
+      get(key: string): Promise<{ key: string; value: string } | null>;
+      set(key: string, value: string): Promise<unknown>;
+    };
+  }
+}
+
+export interface StorageAdapter {
+  name: string;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+}
+
+const KEY_PREFIX = 'bea-more-organised:';
+const DB_NAME = 'bea-more-organised';
+const DB_STORE = 'kv';
+
+export const createHostAdapter = (): StorageAdapter => ({
+  name: 'host',
+  async get(key) {
+    const result = await window.storage!.get(key);
+    return result ? result.value : null;
+  },
+  async set(key, value) {
+    await window.storage!.set(key, value);
+  }
+});
+
+export const createLocalStorageAdapter = (): StorageAdapter => ({
+  name: 'localStorage',
+  async get(key) {
+    return window.localStorage.getItem(KEY_PREFIX + key);
+  },
+  async set(key, value) {
+    window.localStorage.setItem(KEY_PREFIX + key, value);
+  }
+});
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDbAdapter = async (): Promise<StorageAdapter> => {
+  const open = window.indexedDB.open(DB_NAME, 1);
+  open.onupgradeneeded = () => open.result.createObjectStore(DB_STORE);
+  const db = await requestToPromise(open);
+
+  const store = (mode: IDBTransactionMode) =>
+    db.transaction(DB_STORE, mode).objectStore(DB_STORE);
+
+  return {
+    name: 'indexedDB',
+    async get(key) {
+      const value = await requestToPromise(store('readonly').get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    async set(key, value) {
+      await requestToPromise(store('readwrite').put(value, key));
+    }
+  };
+};
+
+// Last resort so the app still runs; nothing survives a reload
+export const createMemoryAdapter = (): StorageAdapter => {
+  const values = new Map<string, string>();
+  return {
+    name: 'memory',
+    async get(key) {
+      return values.get(key) ?? null;
+    },
+    async set(key, value) {
+      values.set(key, value);
+    }
+  };
+};
+
+// Prefer the host store, then IndexedDB, then localStorage
+export const selectAdapter = async (): Promise<StorageAdapter> => {
+  if (window.storage) {
+    return createHostAdapter();
+  }
+  if (window.indexedDB) {
+    try {
+      return await createIndexedDbAdapter();
+    } catch (error) {
+      console.warn('IndexedDB unavailable:', error);
+    }
+  }
+  try {
+    const probe = `${KEY_PREFIX}probe`;
+    window.localStorage.setItem(probe, '1');
+    window.localStorage.removeItem(probe);
+    return createLocalStorageAdapter();
+  } catch (error) {
+    console.warn('localStorage unavailable:', error);
+  }
+  console.warn('No persistent storage available, changes will be lost on reload');
+  return createMemoryAdapter();
+};
+
+let adapterPromise: Promise<StorageAdapter> | null = null;
+
+const getAdapter = (): Promise<StorageAdapter> => {
+  if (!adapterPromise) {
+    adapterPromise = selectAdapter().then(async adapter => {
+      // A failed migration leaves the version alone so it runs again next time, but the
+      // app still opens on whatever is stored
+      try {
+        await migrate(adapter);
+      } catch (error) {
+        console.error('Could not migrate stored data:', error);
+      }
+      return adapter;
+    });
+  }
+  return adapterPromise;
+};
+
+// Writes the adapter rejected, e.g. while the host store is offline. Only the newest value
+// per key is kept, mirrored to localStorage so a reload doesn't lose them either.
+const PENDING_KEY = `${KEY_PREFIX}pending-writes`;
+const RETRY_MIN_MS = 2000;
+const RETRY_MAX_MS = 60 * 1000;
+
+const loadPending = (): [string, string][] => {
+  try {
+    return JSON.parse(window.localStorage.getItem(PENDING_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const pending = new Map<string, string>(loadPending());
+// Sequence number of the newest write per key, so a slow failure never replaces a later success
+const latestWrite = new Map<string, number>();
+const pendingListeners = new Set<(count: number) => void>();
+let writeCount = 0;
+let retryTimer: number | undefined;
+let retryDelay = RETRY_MIN_MS;
+
+const pendingChanged = () => {
+  try {
+    if (pending.size > 0) {
+      window.localStorage.setItem(PENDING_KEY, JSON.stringify(Array.from(pending.entries())));
+    } else {
+      window.localStorage.removeItem(PENDING_KEY);
+    }
+  } catch {
+    // Nowhere else to keep them; they stay queued in memory
+  }
+  pendingListeners.forEach(listener => listener(pending.size));
+};
+
+const scheduleRetry = () => {
+  window.clearTimeout(retryTimer);
+  retryTimer = window.setTimeout(flushPendingWrites, retryDelay);
+  retryDelay = Math.min(retryDelay * 2, RETRY_MAX_MS);
+};
+
+export const flushPendingWrites = async () => {
+  window.clearTimeout(retryTimer);
+  if (pending.size === 0) return;
+  try {
+    const adapter = await getAdapter();
+    for (const [key, value] of Array.from(pending.entries())) {
+      if (pending.get(key) !== value) continue;
+      await adapter.set(key, value);
+      // A newer write may have been queued while this one was in flight
+      if (pending.get(key) === value) pending.delete(key);
+    }
+    retryDelay = RETRY_MIN_MS;
+  } catch (error) {
+    console.warn('Saving queued changes failed, will retry:', error);
+    scheduleRetry();
+  }
+  pendingChanged();
+};
+
+export const getPendingWriteCount = () => pending.size;
+
+export const subscribePendingWrites = (listener: (count: number) => void) => {
+  pendingListeners.add(listener);
+  return () => {
+    pendingListeners.delete(listener);
+  };
+};
+
+// Never throws: a failed write is queued and retried instead of lost
+const write = async (key: string, value: string) => {
+  const seq = ++writeCount;
+  latestWrite.set(key, seq);
+  try {
+    await (await getAdapter()).set(key, value);
+    if (latestWrite.get(key) === seq && pending.delete(key)) pendingChanged();
+  } catch (error) {
+    if (latestWrite.get(key) !== seq) return;
+    console.warn(`Saving ${key} failed, queued for retry:`, error);
+    pending.set(key, value);
+    pendingChanged();
+    scheduleRetry();
+  }
+};
+
+window.addEventListener('online', () => {
+  retryDelay = RETRY_MIN_MS;
+  flushPendingWrites();
+});
+if (pending.size > 0) scheduleRetry();
+
+// Queued values are newer than whatever the adapter still holds
+const readValue = async (adapter: StorageAdapter, key: string): Promise<string | null> =>
+  pending.has(key) ? pending.get(key)! : adapter.get(key);
+
+// Adds records to the rejected list, skipping any already kept from an earlier load
+const appendRejected = async (adapter: StorageAdapter, records: RejectedRecord[]) => {
+  const value = await readValue(adapter, 'rejected');
+  let kept: RejectedRecord[] = [];
+  try {
+    kept = value ? JSON.parse(value) : [];
+  } catch (error) {
+    console.error('Could not parse stored rejected records:', error);
+  }
+  const seen = new Set(kept.map(r => `${r.key}:${JSON.stringify(r.record)}`));
+  const added = records.filter(r => !seen.has(`${r.key}:${JSON.stringify(r.record)}`));
+  if (added.length === 0) return;
+  // Straight to the adapter, since this also runs during the migration getAdapter() waits on
+  try {
+    await adapter.set('rejected', JSON.stringify([...kept, ...added]));
+  } catch (error) {
+    console.error('Could not keep rejected records:', error);
+  }
+};
+
+// Chained so keys read at the same time don't overwrite each other's additions
+let keeping: Promise<void> = Promise.resolve();
+const keepRejected = (adapter: StorageAdapter, records: RejectedRecord[]) =>
+  (keeping = keeping.then(() => appendRejected(adapter, records)));
+
+// Null when the stored value isn't a list. The raw text is kept aside, because the
+// empty list the app carries on with gets saved over it with the next change.
+const readList = async (adapter: StorageAdapter, key: string): Promise<unknown[] | null> => {
+  const value = await readValue(adapter, key);
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) return parsed;
+    console.error(`Stored ${key} is not a list`);
+  } catch (error) {
+    console.error(`Could not parse stored ${key}:`, error);
+  }
+  await keepRejected(adapter, [
+    { key, record: value, problem: 'could not be parsed', rejected_at: new Date().toISOString() }
+  ]);
+  return null;
+};
+
+// Typed as what this app saved; tasks and weeks are validated again where they're loaded
+const readJson = async <T>(adapter: StorageAdapter, key: string): Promise<T[]> =>
+  ((await readList(adapter, key)) || []) as T[];
+
+const migrate = async (adapter: StorageAdapter) => {
+  const stored = await adapter.get('schema_version');
+  const version = stored ? Number(stored) : 0;
+  if (version === SCHEMA_VERSION) return;
+  if (version > SCHEMA_VERSION) {
+    console.warn(`Stored data is schema v${version}, newer than this app (v${SCHEMA_VERSION})`);
+    return;
+  }
+
+  const [tasks, weeks, boards] = await Promise.all([
+    readList(adapter, 'tasks'),
+    readList(adapter, 'weeks'),
+    readList(adapter, 'boards')
+  ]);
+  const migrated = runMigrations({ tasks: tasks || [], weeks: weeks || [], boards: boards || [] }, version);
+  // Writing back a key that didn't parse would replace it with an empty list
+  if (tasks) await adapter.set('tasks', JSON.stringify(migrated.tasks));
+  if (weeks) await adapter.set('weeks', JSON.stringify(migrated.weeks));
+  if (boards) await adapter.set('boards', JSON.stringify(migrated.boards));
+  await adapter.set('schema_version', String(SCHEMA_VERSION));
+};
+
+// Storage wrapper
+export const storage = {
+  async getTasks(): Promise<Task[]> {
+    return readJson(await getAdapter(), 'tasks');
+  },
+  async saveTasks(tasks: Task[]): Promise<void> {
+    await write('tasks', JSON.stringify(tasks));
+  },
+  async getWeeks(): Promise<Week[]> {
+    return readJson(await getAdapter(), 'weeks');
+  },
+  async saveWeeks(weeks: Week[]): Promise<void> {
+    await write('weeks', JSON.stringify(weeks));
+  },
+  async getBoards(): Promise<BoardConfig[]> {
+    return readJson(await getAdapter(), 'boards');
+  },
+  async saveBoards(boards: BoardConfig[]): Promise<void> {
+    await write('boards', JSON.stringify(boards));
+  },
+  async getMembers(): Promise<Member[]> {
+    return readJson(await getAdapter(), 'members');
+  },
+  async saveMembers(members: Member[]): Promise<void> {
+    await write('members', JSON.stringify(members));
+  },
+  async getRecipes(): Promise<Recipe[]> {
+    return readJson(await getAdapter(), 'recipes');
+  },
+  async saveRecipes(recipes: Recipe[]): Promise<void> {
+    await write('recipes', JSON.stringify(recipes));
+  },
+  async getTemplates(): Promise<WeekTemplate[]> {
+    return readJson(await getAdapter(), 'templates');
+  },
+  async saveTemplates(templates: WeekTemplate[]): Promise<void> {
+    await write('templates', JSON.stringify(templates));
+  },
+  async getTrash(): Promise<TrashedTask[]> {
+    return readJson(await getAdapter(), 'trash');
+  },
+  async saveTrash(trash: TrashedTask[]): Promise<void> {
+    await write('trash', JSON.stringify(trash));
+  },
+  async getSettings(): Promise<AppSettings> {
+    const value = await readValue(await getAdapter(), 'settings');
+    try {
+      return withDefaults(value ? JSON.parse(value) : null);
+    } catch (error) {
+      console.error('Could not parse stored settings:', error);
+      return withDefaults(null);
+    }
+  },
+  async saveSettings(settings: AppSettings): Promise<void> {
+    await write('settings', JSON.stringify(settings));
+  },
+  async getSyncState(): Promise<SyncState | null> {
+    const value = await readValue(await getAdapter(), 'sync');
+    try {
+      return value ? JSON.parse(value) : null;
+    } catch (error) {
+      console.error('Could not parse stored sync state:', error);
+      return null;
+    }
+  },
+  async saveSyncState(state: SyncState): Promise<void> {
+    await write('sync', JSON.stringify(state));
+  },
+  async getRejected(): Promise<RejectedRecord[]> {
+    return readJson(await getAdapter(), 'rejected');
+  },
+  async keepRejected(records: RejectedRecord[]): Promise<void> {
+    await keepRejected(await getAdapter(), records);
+  }
+};
@@ -0,0 +1,379 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Task, Week } from './types';
+import { generateId } from './utils';
+import { storage } from './storage';
+import { validateTasks, validateWeeks } from './validation';
+
+export type SyncKind = 'task' | 'week';
+
+// What travels over the wire; `data` is null for a deletion tombstone
+export interface SyncRecord {
+  kind: SyncKind;
+  id: string;
+  updated_at: string;
+  data: Task | Week | null;
+}
+
+export interface SyncConflict {
+  at: string;
+  kind: SyncKind;
+  id: string;
+  title: string;
+  field: string;
+  kept: unknown;
+  discarded: unknown;
+}
+
+export interface SyncConfig {
+  enabled: boolean;
+  endpoint: string;
+  device_id: string;
+}
+
+export interface SyncState {
+  config: SyncConfig;
+  // Server revision everything up to has been pulled
+  cursor: number;
+  // Each record as last agreed with the server: the base for three-way merges, and how
+  // local edits and deletions are spotted without rewriting every save
+  shadows: Record<string, SyncRecord>;
+  conflicts: SyncConflict[];
+  last_synced_at?: string;
+}
+
+export interface SyncTransport {
+  pull(since: number): Promise<{ rev: number; changes: SyncRecord[] }>;
+  push(changes: SyncRecord[]): Promise<{ rev: number; accepted: string[]; rejected: SyncRecord[] }>;
+}
+
+export type SyncStatus = 'off' | 'idle' | 'syncing' | 'error';
+
+const MAX_CONFLICTS = 100;
+const SYNC_INTERVAL_MS = 60 * 1000;
+// Wait for a burst of edits to settle before pushing them
+const SYNC_DEBOUNCE_MS = 5000;
+
+export const createSyncState = (): SyncState => ({
+  config: { enabled: false, endpoint: '', device_id: generateId('dev') },
+  cursor: 0,
+  shadows: {},
+  conflicts: []
+});
+
+export const recordKey = (record: { kind: SyncKind; id: string }) => `${record.kind}:${record.id}`;
+
+export const toRecords = (tasks: Task[], weeks: Week[]): SyncRecord[] => [
+  ...tasks.map(t => ({ kind: 'task' as const, id: t.id, updated_at: t.updated_at, data: t })),
+  ...weeks.map(w => ({ kind: 'week' as const, id: w.id, updated_at: w.updated_at || w.created_at, data: w }))
+];
+
+// Key order and undefined fields differ between copies of the same record
+const stable = (value: unknown): string =>
+  JSON.stringify(value, (_, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v).filter(([, x]) => x !== undefined).sort(([a], [b]) => a.localeCompare(b))
+        )
+      : v
+  ) ?? 'undefined';
+
+const sameData = (a: SyncRecord | undefined, b: SyncRecord | undefined) =>
+  stable(a?.data ?? null) === stable(b?.data ?? null);
+
+const describeRecord = (record: SyncRecord | undefined) =>
+  record?.data && 'title' in record.data ? record.data.title : record?.id || '';
+
+// Three-way merge of one record. Fields changed on one side only take that side; fields
+// changed on both take the newer record's value and are logged. Between an edit and a
+// deletion the edit wins, so nothing typed on either phone is silently lost. A record both
+// devices made on their own (a new week, its occurrences) merges quietly when only the
+// creation time differs.
+// Returns the record to store locally, or undefined when the local copy stands.
+export const mergeRecord = (
+  base: SyncRecord | undefined,
+  local: SyncRecord | undefined,
+  remote: SyncRecord
+): { apply?: SyncRecord; conflicts: SyncConflict[] } => {
+  const at = new Date().toISOString();
+  const conflict = (field: string, kept: unknown, discarded: unknown): SyncConflict => ({
+    at, kind: remote.kind, id: remote.id, title: describeRecord(local) || describeRecord(remote), field, kept, discarded
+  });
+  const baseData = base?.data ?? null;
+
+  if (!local) {
+    if (!remote.data) return { conflicts: [] };
+    // Deleted here while the other device edited it
+    if (baseData && remote.data && !sameData(base, remote)) {
+      return { apply: remote, conflicts: [conflict('deleted', 'edit from other device', 'deletion on this device')] };
+    }
+    return { apply: baseData && sameData(base, remote) ? undefined : remote, conflicts: [] };
+  }
+  if (sameData(local, remote)) return { conflicts: [] };
+
+  const localChanged = !baseData || !sameData(base, local);
+  const remoteChanged = !baseData || !sameData(base, remote);
+  if (!localChanged) return { apply: remote, conflicts: [] };
+  if (!remoteChanged) return { conflicts: [] };
+
+  if (!remote.data) {
+    // Re-stamped so the server takes the edit over its newer tombstone
+    const data = { ...local.data!, updated_at: at };
+    return {
+      apply: { ...local, updated_at: at, data },
+      conflicts: [conflict('deleted', 'edit on this device', 'deletion from other device')]
+    };
+  }
+
+  const localData = local.data as unknown as Record<string, unknown>;
+  const remoteData = remote.data as unknown as Record<string, unknown>;
+  const original = (baseData || {}) as Record<string, unknown>;
+  const remoteNewer = remote.updated_at > local.updated_at;
+  const merged: Record<string, unknown> = {};
+  const conflicts: SyncConflict[] = [];
+
+  new Set([...Object.keys(localData), ...Object.keys(remoteData)]).forEach(field => {
+    const mine = localData[field];
+    const theirs = remoteData[field];
+    if (field === 'updated_at' || stable(mine) === stable(theirs)) {
+      merged[field] = mine;
+    } else if (field === 'created_at') {
+      merged[field] = String(mine) < String(theirs) ? mine : theirs;
+    } else if (stable(mine) === stable(original[field])) {
+      merged[field] = theirs;
+    } else if (stable(theirs) === stable(original[field])) {
+      merged[field] = mine;
+    } else {
+      merged[field] = remoteNewer ? theirs : mine;
+      conflicts.push(conflict(field, remoteNewer ? theirs : mine, remoteNewer ? mine : theirs));
+    }
+  });
+
+  // Never older than the server's copy, so the push of the merge is accepted
+  const updated_at = remoteNewer ? remote.updated_at : local.updated_at;
+  merged.updated_at = updated_at;
+  return {
+    apply: { ...remote, updated_at, data: merged as unknown as Task | Week },
+    conflicts
+  };
+};
+
+// Records that differ from what the server last agreed to, plus tombstones for deletions
+export const getLocalChanges = (records: SyncRecord[], shadows: Record<string, SyncRecord>): SyncRecord[] => {
+  const present = new Set(records.map(recordKey));
+  const deleted_at = new Date().toISOString();
+  return [
+    ...records.filter(r => !sameData(shadows[recordKey(r)], r)),
+    ...Object.values(shadows)
+      .filter(shadow => shadow.data && !present.has(recordKey(shadow)))
+      .map(shadow => ({ kind: shadow.kind, id: shadow.id, updated_at: deleted_at, data: null }))
+  ];
+};
+
+// Pulled data goes through the same checks as data loaded from storage. A record this
+// version can't use is dropped before merging, shadow and all, so it is neither applied
+// nor answered with a deletion; the local copy, if any, is pushed over it instead.
+const checkRecord = (record: SyncRecord): SyncRecord | null => {
+  if (!record.data) return record;
+  const result = record.kind === 'task' ? validateTasks([record.data]) : validateWeeks([record.data]);
+  if (result.valid.length === 0 || result.valid[0].id !== record.id) {
+    console.warn('Skipped synced record:', result.errors[0] || `${record.kind} ${record.id}: id does not match`);
+    return null;
+  }
+  return { ...record, data: result.valid[0] };
+};
+
+const applyRecords = (records: SyncRecord[], updates: SyncRecord[]): SyncRecord[] => {
+  const byKey = new Map(records.map(r => [recordKey(r), r]));
+  updates.forEach(update => {
+    if (update.data) {
+      byKey.set(recordKey(update), update);
+    } else {
+      byKey.delete(recordKey(update));
+    }
+  });
+  return Array.from(byKey.values());
+};
+
+// Pull, merge into the local records, then push whatever is still different. `applyRemote`
+// is called synchronously straight after reading `getLocal`, so edits made while a request
+// is in flight are never overwritten; they are pushed on the next round.
+export const runSync = async (
+  state: SyncState,
+  transport: SyncTransport,
+  getLocal: () => SyncRecord[],
+  applyRemote: (updates: SyncRecord[]) => void | Promise<void>
+): Promise<SyncState> => {
+  const pulled = await transport.pull(state.cursor);
+  const shadows = { ...state.shadows };
+  const conflicts: SyncConflict[] = [];
+  const updates: SyncRecord[] = [];
+
+  const local = getLocal();
+  const localByKey = new Map(local.map(r => [recordKey(r), r]));
+  pulled.changes.map(checkRecord).forEach(remote => {
+    if (!remote) return;
+    const key = recordKey(remote);
+    const result = mergeRecord(shadows[key], localByKey.get(key), remote);
+    if (result.apply) updates.push(result.apply);
+    conflicts.push(...result.conflicts);
+    shadows[key] = remote;
+  });
+  if (updates.length > 0) await applyRemote(updates);
+
+  const changes = getLocalChanges(applyRecords(local, updates), shadows);
+  if (changes.length > 0) {
+    const pushed = await transport.push(changes);
+    const accepted = new Set(pushed.accepted);
+    changes.filter(c => accepted.has(recordKey(c))).forEach(c => {
+      shadows[recordKey(c)] = c;
+    });
+
+    // The server keeps its copy when it is newer, e.g. when this device's clock is behind.
+    // Merging it like a pulled change, and re-stamping an edit that still stands, means the
+    // next round pushes something the server takes instead of the same losing edit.
+    const latest = new Map(getLocal().map(r => [recordKey(r), r]));
+    const restamped: SyncRecord[] = [];
+    pushed.rejected.map(checkRecord).forEach(remote => {
+      if (!remote) return;
+      const key = recordKey(remote);
+      const mine = latest.get(key);
+      const result = mergeRecord(shadows[key], mine, remote);
+      conflicts.push(...result.conflicts);
+      shadows[key] = remote;
+      if (result.apply) {
+        restamped.push(result.apply);
+      } else if (mine?.data && !sameData(mine, remote)) {
+        const now = new Date().toISOString();
+        const updated_at = remote.updated_at > now ? remote.updated_at : now;
+        restamped.push({ ...mine, updated_at, data: { ...mine.data, updated_at } });
+      }
+    });
+    if (restamped.length > 0) await applyRemote(restamped);
+  }
+
+  return {
+    ...state,
+    cursor: Math.max(state.cursor, pulled.rev),
+    shadows,
+    conflicts: [...conflicts.reverse(), ...state.conflicts].slice(0, MAX_CONFLICTS),
+    last_synced_at: new Date().toISOString()
+  };
+};
+
+export const createHttpTransport = (endpoint: string, deviceId: string): SyncTransport => {
+  const url = `${endpoint.replace(/\/+$/, '')}/changes`;
+  const request = async (input: string, init?: RequestInit) => {
+    const response = await fetch(input, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', 'X-Device-Id': deviceId }
+    });
+    if (!response.ok) throw new Error(`Sync server answered ${response.status}`);
+    return response.json();
+  };
+  return {
+    pull: (since) => request(`${url}?since=${since}`),
+    push: (changes) => request(url, { method: 'POST', body: JSON.stringify({ changes }) })
+  };
+};
+
+export const useSync = (
+  tasks: Task[],
+  weeks: Week[],
+  applyRemote: (updates: SyncRecord[]) => void | Promise<void>
+) => {
+  const [state, setState] = useState<SyncState | null>(null);
+  const [status, setStatus] = useState<SyncStatus>('off');
+  const [error, setError] = useState<string | null>(null);
+  const localRef = useRef({ tasks, weeks });
+  const applyRef = useRef(applyRemote);
+  const stateRef = useRef(state);
+  const running = useRef(false);
+  localRef.current = { tasks, weeks };
+  applyRef.current = applyRemote;
+  stateRef.current = state;
+
+  useEffect(() => {
+    storage.getSyncState().then(saved => setState(saved || createSyncState()));
+  }, []);
+
+  const saveState = useCallback(async (updated: SyncState) => {
+    stateRef.current = updated;
+    setState(updated);
+    await storage.saveSyncState(updated);
+  }, []);
+
+  // Reads everything through refs, so timers set up once still use the current endpoint
+  const syncNow = useCallback(async () => {
+    const current = stateRef.current;
+    if (!current?.config.enabled || !current.config.endpoint || running.current) return;
+    running.current = true;
+    setStatus('syncing');
+    try {
+      const updated = await runSync(
+        current,
+        createHttpTransport(current.config.endpoint, current.config.device_id),
+        () => toRecords(localRef.current.tasks, localRef.current.weeks),
+        (updates) => applyRef.current(updates)
+      );
+      // The config may have been edited while the request was in flight
+      await saveState({ ...updated, config: stateRef.current!.config });
+      setError(null);
+      setStatus('idle');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Sync failed');
+      setStatus('error');
+    } finally {
+      running.current = false;
+    }
+  }, [saveState]);
+
+  const enabled = !!state?.config.enabled && !!state.config.endpoint;
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus('off');
+      return;
+    }
+    syncNow();
+    const timer = window.setInterval(syncNow, SYNC_INTERVAL_MS);
+    window.addEventListener('online', syncNow);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('online', syncNow);
+    };
+  }, [enabled, state?.config.endpoint, syncNow]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const timer = window.setTimeout(syncNow, SYNC_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [enabled, tasks, weeks, syncNow]);
+
+  const shadows = state?.shadows;
+  const pendingChanges = useMemo(
+    () => (shadows ? getLocalChanges(toRecords(tasks, weeks), shadows).length : 0),
+    [tasks, weeks, shadows]
+  );
+
+  // Shadows and the cursor belong to one server; a new endpoint starts from scratch
+  const updateConfig = (config: Partial<SyncConfig>) => {
+    const current = stateRef.current;
+    if (!current) return;
+    const moved = config.endpoint !== undefined && config.endpoint !== current.config.endpoint;
+    return saveState({
+      ...current,
+      config: { ...current.config, ...config },
+      ...(moved ? { cursor: 0, shadows: {} } : {})
+    });
+  };
+
+  return {
+    state,
+    status,
+    error,
+    pendingChanges,
+    syncNow,
+    updateConfig,
+    clearConflicts: () => stateRef.current && saveState({ ...stateRef.current, conflicts: [] })
+  };
+};
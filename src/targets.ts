@@ -0,0 +1,73 @@
+import { Board, Task, TargetMetric, Week, WeekTarget } from './types';
+import { addDays, formatDate, getWeekDates, getWeekId } from './dates';
+
+export const targetMetrics: Record<TargetMetric, { label: string; unit: string }> = {
+  done: { label: 'Tasks done', unit: '' },
+  workout_minutes: { label: 'Workout minutes', unit: 'min' },
+  workout_km: { label: 'Workout distance', unit: 'km' },
+  planned_minutes: { label: 'Minutes of done tasks', unit: 'min' }
+};
+
+export interface TargetProgress {
+  value: number;
+  goal: number;
+  // 0..1, for progress bars
+  fraction: number;
+  met: boolean;
+}
+
+const measure = (task: Task, metric: TargetMetric): number => {
+  switch (metric) {
+    case 'done': return 1;
+    case 'workout_minutes': return task.meta?.workout?.duration_min || 0;
+    case 'workout_km': return task.meta?.workout?.distance_km || 0;
+    case 'planned_minutes': return task.duration_min || 0;
+  }
+};
+
+export const getTarget = (week: Week | undefined, board: Board): WeekTarget | undefined =>
+  week?.targets?.find(t => t.board === board);
+
+// Only done tasks count, whatever the metric
+export const getTargetProgress = (tasks: Task[], weekId: string, target: WeekTarget): TargetProgress => {
+  const value = tasks
+    .filter(t => t.board === target.board && t.week_id === weekId && t.status === 'done')
+    .reduce((sum, t) => sum + measure(t, target.metric), 0);
+  return {
+    value: Math.round(value * 10) / 10,
+    goal: target.goal,
+    fraction: target.goal > 0 ? Math.min(1, value / target.goal) : 1,
+    met: value >= target.goal
+  };
+};
+
+// Consecutive weeks ending at weekId that hit the board's target. The week itself
+// only counts once it has been hit, so an unfinished week doesn't break the streak.
+export const getStreak = (tasks: Task[], weeks: Week[], weekId: string, board: Board): number => {
+  const byId = new Map(weeks.map(w => [w.id, w]));
+  const isMet = (id: string) => {
+    const target = getTarget(byId.get(id), board);
+    return !!target && getTargetProgress(tasks, id, target).met;
+  };
+  let streak = isMet(weekId) ? 1 : 0;
+  let id = getWeekId(addDays(getWeekDates(weekId)[0], -7));
+  while (isMet(id)) {
+    streak++;
+    id = getWeekId(addDays(getWeekDates(id)[0], -7));
+  }
+  return streak;
+};
+
+// A new week carries on with whatever the latest earlier week was aiming for
+export const inheritTargets = (weeks: Week[], weekId: string): WeekTarget[] | undefined => {
+  const start = formatDate(getWeekDates(weekId)[0]);
+  const previous = weeks
+    .filter(w => w.start_date < start)
+    .sort((a, b) => b.start_date.localeCompare(a.start_date))[0];
+  return previous?.targets && previous.targets.length > 0 ? previous.targets : undefined;
+};
+
+export const formatTargetValue = (value: number, metric: TargetMetric): string => {
+  const unit = targetMetrics[metric].unit;
+  return unit ? `${value} ${unit}` : String(value);
+};
@@ -0,0 +1,86 @@
+import { ScheduledTask, Task, TemplateTask, WeekTemplate } from './types';
+import { isScheduled } from './backlog';
+import { generateId } from './utils';
+import { formatDate, getWeekDates } from './dates';
+import { compareTasks } from './ordering';
+
+export interface TemplatePreview {
+  added: ScheduledTask[];
+  // Already in the week, so applying the template again adds nothing twice
+  skipped: TemplateTask[];
+}
+
+const normalise = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const taskKey = (board: string, title: string, date: string) => `${board}|${normalise(title)}|${date}`;
+
+// Recurring tasks are left out; their series fills every week already
+export const createTemplate = (name: string, tasks: Task[], weekId: string): WeekTemplate => {
+  const dates = getWeekDates(weekId).map(formatDate);
+  const now = new Date().toISOString();
+  return {
+    id: generateId('tpl'),
+    name,
+    tasks: tasks
+      .filter(isScheduled)
+      .filter(t => t.week_id === weekId && !t.series_id)
+      .sort((a, b) => a.scheduled_for.localeCompare(b.scheduled_for) || compareTasks(a, b))
+      .map(t => ({
+        id: generateId('tpt'),
+        board: t.board,
+        title: t.title,
+        notes: t.notes,
+        priority: t.priority,
+        day_offset: Math.max(0, dates.indexOf(t.scheduled_for)),
+        remind_time: t.remind_at?.split('T')[1]?.slice(0, 5),
+        start_time: t.start_time,
+        duration_min: t.duration_min,
+        assignee: t.assignee,
+        checklist: t.checklist?.map(item => ({ ...item, done: false })),
+        meta: t.meta
+      })),
+    created_at: now,
+    updated_at: now
+  };
+};
+
+export const previewTemplate = (template: WeekTemplate, weekId: string, tasks: Task[]): TemplatePreview => {
+  const dates = getWeekDates(weekId).map(formatDate);
+  const existing = new Set(
+    tasks.filter(isScheduled).filter(t => t.week_id === weekId).map(t => taskKey(t.board, t.title, t.scheduled_for))
+  );
+  const ids = new Set(tasks.map(t => t.id));
+  const now = new Date().toISOString();
+  const preview: TemplatePreview = { added: [], skipped: [] };
+
+  template.tasks.forEach(item => {
+    const scheduled_for = dates[Math.min(Math.max(item.day_offset, 0), 6)];
+    const key = taskKey(item.board, item.title, scheduled_for);
+    // The same on every device, so two phones opening the same new week add the same tasks
+    const id = `${template.id}_${item.id}_${weekId}`;
+    if (existing.has(key) || ids.has(id)) {
+      preview.skipped.push(item);
+      return;
+    }
+    existing.add(key);
+    preview.added.push({
+      id,
+      board: item.board,
+      title: item.title,
+      notes: item.notes,
+      status: 'open',
+      scheduled_for,
+      week_id: weekId,
+      remind_at: item.remind_time ? `${scheduled_for}T${item.remind_time}:00` : undefined,
+      start_time: item.start_time,
+      duration_min: item.duration_min,
+      priority: item.priority,
+      assignee: item.assignee,
+      checklist: item.checklist?.map(c => ({ ...c, done: false })),
+      meta: item.meta,
+      created_at: now,
+      updated_at: now
+    });
+  });
+  return preview;
+};
@@ -0,0 +1,85 @@
+import { Task } from './types';
+import { getLocale } from './dates';
+
+// The part of the day counted as available when working out free hours
+export const DAY_START_HOUR = 7;
+export const DAY_END_HOUR = 22;
+// Timed tasks without an estimate still take up a slot on the timeline
+export const DEFAULT_DURATION_MIN = 30;
+export const SNAP_MIN = 15;
+
+export interface TimelineBlock {
+  task: Task;
+  start: number;
+  end: number;
+  overlaps: boolean;
+  // Side-by-side placement for blocks that overlap
+  column: number;
+  columns: number;
+}
+
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export const fromMinutes = (total: number): string => {
+  const clamped = Math.min(Math.max(Math.round(total), 0), 24 * 60 - SNAP_MIN);
+  return `${String(Math.floor(clamped / 60)).padStart(2, '0')}:${String(clamped % 60).padStart(2, '0')}`;
+};
+
+export const snapMinutes = (minutes: number) => Math.round(minutes / SNAP_MIN) * SNAP_MIN;
+
+export const formatDuration = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+export const formatTime = (time: string): string => {
+  const minutes = toMinutes(time);
+  const date = new Date(2000, 0, 1, Math.floor(minutes / 60), minutes % 60);
+  return date.toLocaleTimeString(getLocale(), { hour: 'numeric', minute: '2-digit' });
+};
+
+// Skipped tasks free their slot, so they are left off the timeline
+export const layoutTimeline = (tasks: Task[]): TimelineBlock[] => {
+  const blocks: TimelineBlock[] = tasks
+    .filter(t => t.start_time && t.status !== 'skipped')
+    .map(t => {
+      const start = toMinutes(t.start_time!);
+      return { task: t, start, end: start + (t.duration_min || DEFAULT_DURATION_MIN), overlaps: false, column: 0, columns: 1 };
+    })
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  // Walk clusters of blocks that overlap one another, giving each the first free column
+  let cluster: TimelineBlock[] = [];
+  let clusterEnd = -1;
+  const closeCluster = () => {
+    const columns = Math.max(1, ...cluster.map(b => b.column + 1));
+    cluster.forEach(b => {
+      b.columns = columns;
+      b.overlaps = cluster.length > 1;
+    });
+    cluster = [];
+  };
+  blocks.forEach(block => {
+    if (block.start >= clusterEnd) closeCluster();
+    const taken = new Set(cluster.filter(b => b.end > block.start).map(b => b.column));
+    while (taken.has(block.column)) block.column++;
+    cluster.push(block);
+    clusterEnd = Math.max(clusterEnd, block.end);
+  });
+  closeCluster();
+  return blocks;
+};
+
+// Timed tasks without a duration count as long as the timeline draws them
+export const getDayLoad = (tasks: Task[]) => {
+  const planned = tasks
+    .filter(t => t.status !== 'skipped')
+    .reduce((sum, t) => sum + (t.duration_min || (t.start_time ? DEFAULT_DURATION_MIN : 0)), 0);
+  const available = (DAY_END_HOUR - DAY_START_HOUR) * 60;
+  return { planned, available, free: Math.max(available - planned, 0), overloaded: planned > available };
+};
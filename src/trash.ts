@@ -0,0 +1,13 @@
+import { TrashedTask } from './types';
+
+export const TRASH_RETENTION_DAYS = 30;
+
+export const purgeExpired = (trash: TrashedTask[], now = new Date()): TrashedTask[] => {
+  const cutoff = now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  return trash.filter(item => new Date(item.deleted_at).getTime() >= cutoff);
+};
+
+export const daysUntilPurge = (item: TrashedTask, now = new Date()): number => {
+  const elapsed = (now.getTime() - new Date(item.deleted_at).getTime()) / (24 * 60 * 60 * 1000);
+  return Math.max(0, Math.ceil(TRASH_RETENTION_DAYS - elapsed));
+};
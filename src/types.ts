@@ -0,0 +1,194 @@
+// Types
+// Id of a BoardConfig; the built-in boards are 'todos', 'exercise' and 'dinner'
+export type Board = string;
+export type TaskStatus = 'open' | 'done' | 'skipped';
+export type Priority = 'low' | 'med' | 'high';
+
+// Decides which extra fields a board's tasks get
+export type BoardKind = 'list' | 'exercise' | 'dinner';
+
+export interface BoardConfig {
+  id: Board;
+  name: string;
+  icon: string;
+  color: string;
+  kind: BoardKind;
+  sort_order: number;
+  archived: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Someone in the household tasks can be assigned to
+export interface Member {
+  id: string;
+  name: string;
+  color: string;
+  emoji: string;
+  archived: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RepeatFrequency = 'daily' | 'weekdays' | 'weekly' | 'monthly';
+
+export interface RepeatRule {
+  frequency: RepeatFrequency;
+  starts_on: string;
+  until?: string;
+  // 0 = Sunday ... 6 = Saturday, used by 'weekdays'
+  weekdays?: number[];
+  // Every N weeks on the starting weekday, used by 'weekly'
+  interval?: number;
+  // Used by 'monthly'; clamped to the last day of shorter months
+  day_of_month?: number;
+  // Dates the rule would fill but an occurrence was deleted from or moved away from
+  exceptions?: string[];
+  // What each new occurrence starts as. Missing on series saved before it existed.
+  fields?: SeriesFields;
+}
+
+// The parts of a task every occurrence in a series shares, with the reminder as a time of day
+export type SeriesFields = Pick<
+  Task, 'board' | 'title' | 'notes' | 'priority' | 'assignee' | 'start_time' | 'duration_min' | 'checklist' | 'meta'
+> & { remind_time?: string };
+
+export interface Ingredient {
+  name: string;
+  quantity?: number;
+  unit?: string;
+}
+
+export interface Recipe {
+  id: string;
+  name: string;
+  servings?: number;
+  ingredients: Ingredient[];
+  url?: string;
+}
+
+export type ActivityType = 'run' | 'walk' | 'cycle' | 'swim' | 'strength' | 'yoga' | 'other';
+
+export interface ExerciseEntry {
+  name: string;
+  sets?: number;
+  reps?: number;
+  weight_kg?: number;
+}
+
+export interface Workout {
+  activity: ActivityType;
+  duration_min?: number;
+  distance_km?: number;
+  exercises: ExerciseEntry[];
+}
+
+export interface ChecklistItem {
+  id: string;
+  title: string;
+  done: boolean;
+}
+
+export interface TaskMeta {
+  // Copied from the library so later library edits don't rewrite planned meals
+  recipe?: Recipe;
+  workout?: Workout;
+}
+
+export interface Task {
+  id: string;
+  board: Board;
+  title: string;
+  notes?: string;
+  status: TaskStatus;
+  // Both missing while the task waits in the backlog
+  scheduled_for?: string;
+  week_id?: string;
+  remind_at?: string;
+  // 'HH:MM' the task is planned to start, and how long it should take
+  start_time?: string;
+  duration_min?: number;
+  snoozed_until?: string;
+  reminded_at?: string;
+  priority: Priority;
+  // Member id; on dinner boards this is the cook
+  assignee?: string;
+  created_at: string;
+  updated_at: string;
+  repeat?: RepeatRule;
+  series_id?: string;
+  // The task this one was carried over from, and how many weeks it has been carried
+  rolled_from?: string;
+  roll_count?: number;
+  skip_reason?: string;
+  // Manual position within its day; tasks never dragged sort after ordered ones
+  sort_order?: number;
+  checklist?: ChecklistItem[];
+  meta?: TaskMeta;
+  // UID of the calendar event this task was imported from, so importing again updates it
+  ics_uid?: string;
+}
+
+// Anything on a day of a week, which is every task outside the backlog
+export type ScheduledTask = Task & { scheduled_for: string; week_id: string };
+
+// A task as stored in a week template: by day of the week rather than date
+export interface TemplateTask {
+  id: string;
+  board: Board;
+  title: string;
+  notes?: string;
+  priority: Priority;
+  // 0 = first day of the week
+  day_offset: number;
+  // 'HH:MM'
+  remind_time?: string;
+  start_time?: string;
+  duration_min?: number;
+  assignee?: string;
+  checklist?: ChecklistItem[];
+  meta?: TaskMeta;
+}
+
+export interface WeekTemplate {
+  id: string;
+  name: string;
+  tasks: TemplateTask[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TrashedTask {
+  task: Task;
+  deleted_at: string;
+}
+
+// A stored record that failed to load, kept as it was so saving the rest doesn't lose it
+export interface RejectedRecord {
+  key: string;
+  record: unknown;
+  problem: string;
+  rejected_at: string;
+}
+
+// What a weekly target adds up: done tasks, or a number recorded on them
+export type TargetMetric = 'done' | 'workout_minutes' | 'workout_km' | 'planned_minutes';
+
+export interface WeekTarget {
+  board: Board;
+  metric: TargetMetric;
+  goal: number;
+}
+
+export interface Week {
+  id: string;
+  start_date: string;
+  end_date: string;
+  created_at: string;
+  // Missing on weeks saved before sync existed; created_at stands in
+  updated_at?: string;
+  // Ingredient keys ticked off on this week's shopping list
+  shopping_checked?: string[];
+  // At most one per board; new weeks start with the previous week's
+  targets?: WeekTarget[];
+}
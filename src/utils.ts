@@ -0,0 +1,2 @@
+// Utility functions
+export const generateId = (prefix = 'tsk') => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
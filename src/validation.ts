@@ -0,0 +1,91 @@
+import { Task, Week } from './types';
+import { getWeekId, parseDate } from './dates';
+
+const STATUSES = ['open', 'done', 'skipped'];
+const PRIORITIES = ['low', 'med', 'high'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+
+export interface ValidationResult<T> {
+  valid: T[];
+  errors: string[];
+  // The raw records behind each error, in the same order
+  rejected: unknown[];
+}
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+export const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+// Returns a description of the first problem found, or null when the record is usable
+const checkTask = (raw: unknown): string | null => {
+  if (!isObject(raw)) return 'not an object';
+  if (typeof raw.id !== 'string' || !raw.id) return 'missing id';
+  if (typeof raw.title !== 'string') return 'missing title';
+  if (typeof raw.board !== 'string' || !raw.board) return 'missing board';
+  if (!STATUSES.includes(raw.status as string)) return `unknown status "${raw.status}"`;
+  if (!PRIORITIES.includes(raw.priority as string)) return `unknown priority "${raw.priority}"`;
+  // Backlog tasks have no date at all
+  if (raw.scheduled_for !== undefined && (typeof raw.scheduled_for !== 'string' || !DATE_PATTERN.test(raw.scheduled_for))) {
+    return `invalid scheduled_for "${raw.scheduled_for}"`;
+  }
+  if (!isOptionalString(raw.notes) || !isOptionalString(raw.remind_at)) return 'invalid notes or remind_at';
+  if (!isOptionalString(raw.assignee)) return 'invalid assignee';
+  if (!isOptionalString(raw.ics_uid)) return 'invalid ics_uid';
+  if (raw.checklist !== undefined && !Array.isArray(raw.checklist)) return 'invalid checklist';
+  if (raw.start_time !== undefined && (typeof raw.start_time !== 'string' || !TIME_PATTERN.test(raw.start_time))) return `invalid start_time "${raw.start_time}"`;
+  if (raw.duration_min !== undefined && typeof raw.duration_min !== 'number') return 'invalid duration_min';
+  return null;
+};
+
+const checkWeek = (raw: unknown): string | null => {
+  if (!isObject(raw)) return 'not an object';
+  if (typeof raw.id !== 'string' || !raw.id.startsWith('wk_')) return `invalid id "${raw.id}"`;
+  if (typeof raw.start_date !== 'string' || !DATE_PATTERN.test(raw.start_date)
+    || typeof raw.end_date !== 'string' || !DATE_PATTERN.test(raw.end_date)) {
+    return 'invalid dates';
+  }
+  if (raw.targets !== undefined && !Array.isArray(raw.targets)) return 'invalid targets';
+  return null;
+};
+
+const describe = (raw: unknown, index: number) =>
+  isObject(raw) && typeof raw.id === 'string' ? raw.id : `#${index + 1}`;
+
+export const validateTasks = (records: unknown): ValidationResult<Task> => {
+  if (!Array.isArray(records)) return { valid: [], errors: ['Tasks are not a list'], rejected: [records] };
+  const result: ValidationResult<Task> = { valid: [], errors: [], rejected: [] };
+  records.forEach((raw, index) => {
+    const problem = checkTask(raw);
+    if (problem) {
+      result.errors.push(`Task ${describe(raw, index)}: ${problem}`);
+      result.rejected.push(raw);
+      return;
+    }
+    const now = new Date().toISOString();
+    result.valid.push({
+      ...raw,
+      week_id: typeof raw.week_id === 'string' || !raw.scheduled_for ? raw.week_id : getWeekId(parseDate(raw.scheduled_for)),
+      created_at: typeof raw.created_at === 'string' ? raw.created_at : now,
+      updated_at: typeof raw.updated_at === 'string' ? raw.updated_at : now
+    });
+  });
+  return result;
+};
+
+export const validateWeeks = (records: unknown): ValidationResult<Week> => {
+  if (!Array.isArray(records)) return { valid: [], errors: ['Weeks are not a list'], rejected: [records] };
+  const result: ValidationResult<Week> = { valid: [], errors: [], rejected: [] };
+  records.forEach((raw, index) => {
+    const problem = checkWeek(raw);
+    if (problem) {
+      result.errors.push(`Week ${describe(raw, index)}: ${problem}`);
+      result.rejected.push(raw);
+      return;
+    }
+    result.valid.push({
+      ...raw,
+      created_at: typeof raw.created_at === 'string' ? raw.created_at : new Date().toISOString()
+    });
+  });
+  return result;
+};
@@ -0,0 +1,98 @@
+import { ActivityType, Board, Task, Workout } from './types';
+import { isScheduled } from './backlog';
+
+export const activityLabels: Record<ActivityType, string> = {
+  run: 'Run',
+  walk: 'Walk',
+  cycle: 'Cycle',
+  swim: 'Swim',
+  strength: 'Strength',
+  yoga: 'Yoga',
+  other: 'Other'
+};
+
+export interface WeekTotals {
+  minutes: number;
+  sessionsDone: number;
+  sessionsPlanned: number;
+  distanceByActivity: Partial<Record<ActivityType, number>>;
+}
+
+export interface PersonalBest {
+  label: string;
+  value: number;
+  unit: string;
+  date: string;
+  title: string;
+}
+
+// Minutes and distance only count sessions that were actually done
+export const getWeekTotals = (tasks: Task[], weekId: string, board: Board): WeekTotals => {
+  const weekTasks = tasks.filter(t => t.board === board && t.week_id === weekId && t.status !== 'skipped');
+  const done = weekTasks.filter(t => t.status === 'done');
+  const distanceByActivity: Partial<Record<ActivityType, number>> = {};
+
+  done.forEach(t => {
+    const workout = t.meta?.workout;
+    if (workout?.distance_km) {
+      distanceByActivity[workout.activity] = (distanceByActivity[workout.activity] || 0) + workout.distance_km;
+    }
+  });
+
+  return {
+    minutes: done.reduce((sum, t) => sum + (t.meta?.workout?.duration_min || 0), 0),
+    sessionsDone: done.length,
+    sessionsPlanned: weekTasks.length,
+    distanceByActivity
+  };
+};
+
+const getRecords = (workout: Workout): { label: string; value: number; unit: string }[] => {
+  const label = activityLabels[workout.activity];
+  const records = [];
+  if (workout.distance_km) records.push({ label: `${label} distance`, value: workout.distance_km, unit: 'km' });
+  if (workout.duration_min) records.push({ label: `${label} duration`, value: workout.duration_min, unit: 'min' });
+  workout.exercises
+    .filter(e => e.name.trim() && e.weight_kg)
+    .forEach(e => records.push({ label: e.name.trim(), value: e.weight_kg!, unit: 'kg' }));
+  return records;
+};
+
+// Every time a record was beaten, oldest first, so the list doubles as a progress history
+export const getPersonalBestHistory = (tasks: Task[]): PersonalBest[] => {
+  const best = new Map<string, number>();
+  const history: PersonalBest[] = [];
+
+  tasks
+    .filter(isScheduled)
+    .filter(t => t.status === 'done' && t.meta?.workout)
+    .sort((a, b) => a.scheduled_for.localeCompare(b.scheduled_for))
+    .forEach(t => {
+      getRecords(t.meta!.workout!).forEach(record => {
+        const key = record.label.toLowerCase();
+        if (record.value > (best.get(key) || 0)) {
+          best.set(key, record.value);
+          history.push({ ...record, date: t.scheduled_for, title: t.title });
+        }
+      });
+    });
+
+  return history;
+};
+
+// The current best for each record, taken from the end of the history
+export const getCurrentBests = (history: PersonalBest[]): PersonalBest[] => {
+  const current = new Map<string, PersonalBest>();
+  history.forEach(pb => current.set(pb.label.toLowerCase(), pb));
+  return Array.from(current.values()).sort((a, b) => a.label.localeCompare(b.label));
+};
+
+export const describeWorkout = (workout: Workout): string => {
+  const parts = [activityLabels[workout.activity]];
+  if (workout.duration_min) parts.push(`${workout.duration_min} min`);
+  if (workout.distance_km) parts.push(`${workout.distance_km} km`);
+  if (workout.exercises.length > 0) {
+    parts.push(`${workout.exercises.length} ${workout.exercises.length === 1 ? 'exercise' : 'exercises'}`);
+  }
+  return parts.join(' · ');
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { applyBulkAction, describeBulkAction, getBulkTargetWeeks } from '../src/bulk';
+import { Task } from '../src/types';
+
+const task = (id: string, updates: Partial<Task> = {}): Task => ({
+  id,
+  week_id: 'wk_2024-10-07',
+  board: 'todos',
+  title: id,
+  status: 'open',
+  priority: 'med',
+  scheduled_for: '2024-10-08',
+  created_at: '2024-10-01T00:00:00.000Z',
+  updated_at: '2024-10-01T00:00:00.000Z',
+  ...updates
+});
+
+const tasks = [
+  task('tsk_a', { remind_at: '2024-10-08T07:30:00', sort_order: 0 }),
+  task('tsk_b', { status: 'skipped', skip_reason: 'Raining', sort_order: 1 }),
+  task('tsk_c', { scheduled_for: '2024-10-10', sort_order: 4 }),
+  task('tsk_backlog', { scheduled_for: undefined, week_id: undefined })
+];
+
+describe('applyBulkAction', () => {
+  it('sets the status of the selected tasks only', () => {
+    const result = applyBulkAction(tasks, ['tsk_a', 'tsk_b'], { type: 'status', status: 'done' });
+    expect(result.map(t => t.status)).toEqual(['done', 'done', 'open', 'open']);
+    expect(result[1].skip_reason).toBeUndefined();
+    expect(result[0].updated_at).not.toBe(tasks[0].updated_at);
+    expect(result[2]).toBe(tasks[2]);
+  });
+
+  it('changes board and priority', () => {
+    expect(applyBulkAction(tasks, ['tsk_c'], { type: 'board', board: 'exercise' })[2].board).toBe('exercise');
+    expect(applyBulkAction(tasks, ['tsk_c'], { type: 'priority', priority: 'high' })[2].priority).toBe('high');
+  });
+
+  it('deletes the selected tasks', () => {
+    expect(applyBulkAction(tasks, ['tsk_a', 'tsk_backlog'], { type: 'delete' }).map(t => t.id)).toEqual(['tsk_b', 'tsk_c']);
+  });
+
+  it('moves tasks to the end of the new day in the order they were in', () => {
+    const result = applyBulkAction(tasks, ['tsk_a', 'tsk_b', 'tsk_backlog'], { type: 'move', date: '2024-10-10' });
+    expect(result.map(t => [t.id, t.scheduled_for, t.sort_order])).toEqual([
+      ['tsk_a', '2024-10-10', 5],
+      ['tsk_b', '2024-10-10', 6],
+      ['tsk_c', '2024-10-10', 4],
+      ['tsk_backlog', '2024-10-10', 7]
+    ]);
+    expect(result[0].remind_at).toBe('2024-10-10T07:30:00');
+    expect(result[3].week_id).toBe('wk_2024-10-07');
+  });
+
+  it('leaves tasks already on the target day where they are', () => {
+    const result = applyBulkAction(tasks, ['tsk_c'], { type: 'move', date: '2024-10-10' });
+    expect(result[2]).toBe(tasks[2]);
+  });
+
+  it('shifts tasks by whole weeks and skips the backlog', () => {
+    const result = applyBulkAction(tasks, ['tsk_a', 'tsk_backlog'], { type: 'shift', weeks: -1 });
+    expect(result[0]).toMatchObject({ scheduled_for: '2024-10-01', week_id: 'wk_2024-09-30', sort_order: 0 });
+    expect(result[3]).toBe(tasks[3]);
+  });
+});
+
+describe('getBulkTargetWeeks', () => {
+  it('lists each week a move lands in once', () => {
+    expect(getBulkTargetWeeks(tasks, ['tsk_a', 'tsk_c'], { type: 'shift', weeks: 1 })).toEqual(['wk_2024-10-14']);
+    expect(getBulkTargetWeeks(tasks, ['tsk_a'], { type: 'move', date: '2024-10-20' })).toEqual(['wk_2024-10-14']);
+  });
+
+  it('is empty for actions that keep the dates', () => {
+    expect(getBulkTargetWeeks(tasks, ['tsk_a'], { type: 'priority', priority: 'low' })).toEqual([]);
+    expect(getBulkTargetWeeks(tasks, ['tsk_backlog'], { type: 'shift', weeks: 1 })).toEqual([]);
+  });
+});
+
+describe('describeBulkAction', () => {
+  it('counts the tasks', () => {
+    expect(describeBulkAction({ type: 'status', status: 'done' }, 1)).toBe('1 task marked done');
+    expect(describeBulkAction({ type: 'status', status: 'skipped' }, 3)).toBe('3 tasks skipped');
+    expect(describeBulkAction({ type: 'priority', priority: 'med' }, 2)).toBe('2 tasks set to medium priority');
+    expect(describeBulkAction({ type: 'delete' }, 2)).toBe('2 tasks deleted');
+  });
+});
@@ -0,0 +1,157 @@
+// Run with TZ=Australia/Sydney (see the test script): east of UTC, with DST
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  addDays, configureDates, formatDate, getStartOfWeek, getWeekDates, getWeekId, getWeekdayOrder, parseDate, shiftDate
+} from '../src/dates';
+import { rekeyWeeks, runMigrations } from '../src/migrations';
+import { Task, Week } from '../src/types';
+
+const task = (scheduled_for: string, week_id: string): Task => ({
+  id: `tsk_${scheduled_for}`,
+  week_id,
+  board: 'todos',
+  title: 'Task',
+  status: 'open',
+  priority: 'med',
+  scheduled_for,
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z'
+});
+
+const week = (start_date: string, end_date: string, shopping_checked?: string[]): Week => ({
+  id: `wk_${start_date}`,
+  start_date,
+  end_date,
+  created_at: '2024-01-01T00:00:00.000Z',
+  shopping_checked
+});
+
+afterEach(() => configureDates({ week_starts_on: 1, locale: 'en-AU' }));
+
+describe('formatDate', () => {
+  it('keeps local midnight on its own day', () => {
+    expect(formatDate(new Date(2024, 0, 1))).toBe('2024-01-01');
+    expect(formatDate(new Date(2024, 5, 30, 0, 0, 0))).toBe('2024-06-30');
+  });
+
+  it('round-trips through parseDate', () => {
+    ['2024-01-01', '2024-02-29', '2024-10-06', '2025-04-06', '2024-12-31'].forEach(date => {
+      expect(formatDate(parseDate(date))).toBe(date);
+    });
+  });
+});
+
+describe('addDays', () => {
+  it('moves whole calendar days across DST changes', () => {
+    // Clocks go forward on 6 October 2024 and back on 6 April 2025 in Sydney
+    expect(formatDate(addDays(parseDate('2024-10-05'), 1))).toBe('2024-10-06');
+    expect(formatDate(addDays(parseDate('2024-10-05'), 2))).toBe('2024-10-07');
+    expect(formatDate(addDays(parseDate('2025-04-05'), 1))).toBe('2025-04-06');
+    expect(formatDate(addDays(parseDate('2025-04-05'), 2))).toBe('2025-04-07');
+    expect(shiftDate('2025-04-07', -2)).toBe('2025-04-05');
+  });
+
+  it('crosses month and year ends', () => {
+    expect(shiftDate('2024-02-28', 1)).toBe('2024-02-29');
+    expect(shiftDate('2024-12-31', 1)).toBe('2025-01-01');
+    expect(shiftDate('2025-01-01', -1)).toBe('2024-12-31');
+  });
+});
+
+describe('getWeekDates', () => {
+  it.each(['wk_2024-09-30', 'wk_2025-03-31', 'wk_2024-10-06', 'wk_2025-04-06'])(
+    'gives seven consecutive days for %s',
+    (weekId) => {
+      const dates = getWeekDates(weekId).map(formatDate);
+      expect(new Set(dates).size).toBe(7);
+      dates.slice(1).forEach((date, i) => expect(shiftDate(dates[i], 1)).toBe(date));
+      expect(dates[0]).toBe(weekId.replace('wk_', ''));
+    }
+  );
+});
+
+describe('getWeekId', () => {
+  it('starts weeks on Monday by default', () => {
+    expect(getWeekId(parseDate('2024-10-06'))).toBe('wk_2024-09-30');
+    expect(getWeekId(parseDate('2024-10-07'))).toBe('wk_2024-10-07');
+    expect(getWeekId(new Date(2024, 9, 7, 23, 59))).toBe('wk_2024-10-07');
+  });
+
+  it('keeps weeks that span the new year in one piece', () => {
+    expect(getWeekId(parseDate('2024-12-31'))).toBe('wk_2024-12-30');
+    expect(getWeekId(parseDate('2025-01-05'))).toBe('wk_2024-12-30');
+    expect(getWeekId(parseDate('2025-01-01'), 0)).toBe('wk_2024-12-29');
+    expect(getWeekId(parseDate('2026-01-03'), 0)).toBe('wk_2025-12-28');
+  });
+
+  it('follows the configured week start', () => {
+    configureDates({ week_starts_on: 0, locale: 'en-US' });
+    expect(getWeekId(parseDate('2024-10-06'))).toBe('wk_2024-10-06');
+    expect(formatDate(getStartOfWeek(parseDate('2024-10-12')))).toBe('2024-10-06');
+    expect(getWeekdayOrder()).toEqual([0, 1, 2, 3, 4, 5, 6]);
+  });
+});
+
+describe('rekeyWeeks', () => {
+  it('refiles tasks and weeks for a Sunday start', () => {
+    configureDates({ week_starts_on: 0, locale: 'en-AU' });
+    const { tasks, weeks } = rekeyWeeks({
+      tasks: [task('2024-12-31', 'wk_2024-12-30'), task('2025-01-05', 'wk_2024-12-30')],
+      weeks: [week('2024-12-30', '2025-01-05', ['milk'])]
+    });
+    expect(tasks.map(t => t.week_id)).toEqual(['wk_2024-12-29', 'wk_2025-01-05']);
+    expect(weeks).toHaveLength(1);
+    expect(weeks[0]).toMatchObject({
+      id: 'wk_2024-12-29', start_date: '2024-12-29', end_date: '2025-01-04', shopping_checked: ['milk']
+    });
+  });
+
+  it('merges weeks that land on the same id', () => {
+    const { weeks } = rekeyWeeks({
+      tasks: [],
+      weeks: [week('2024-12-31', '2025-01-06', ['milk']), week('2024-12-30', '2025-01-05', ['eggs', 'milk'])]
+    });
+    expect(weeks).toHaveLength(1);
+    expect(weeks[0].id).toBe('wk_2024-12-30');
+    expect(weeks[0].shopping_checked).toEqual(['milk', 'eggs']);
+  });
+});
+
+describe('migration to v3', () => {
+  // 7am on 7 October in Sydney, still 6 October in UTC
+  const early = '2024-10-06T20:00:00.000Z';
+
+  it('moves the dates of tasks created between local and UTC midnight forward a day', () => {
+    const saved = {
+      ...task('2024-10-06', 'wk_2024-09-29'),
+      created_at: early,
+      remind_at: '2024-10-06T09:00:00',
+      repeat: { frequency: 'weekly' as const, starts_on: '2024-10-06', until: '2024-12-31' }
+    };
+    const { tasks } = runMigrations({ tasks: [saved], weeks: [], boards: [] }, 2);
+    expect(tasks[0]).toMatchObject({
+      scheduled_for: '2024-10-07',
+      week_id: 'wk_2024-10-07',
+      remind_at: '2024-10-07T09:00:00',
+      repeat: { starts_on: '2024-10-07', until: '2025-01-01' }
+    });
+  });
+
+  it('leaves tasks created later in the day on their date', () => {
+    // 2pm on 6 October in Sydney
+    const saved = { ...task('2024-10-06', 'wk_2024-09-29'), created_at: '2024-10-06T03:00:00.000Z' };
+    const { tasks } = runMigrations({ tasks: [saved], weeks: [], boards: [] }, 2);
+    expect(tasks[0]).toMatchObject({ scheduled_for: '2024-10-06', week_id: 'wk_2024-09-30' });
+  });
+
+  it('moves weeks saved as starting on a Sunday to the Monday', () => {
+    const { weeks } = runMigrations(
+      { tasks: [], weeks: [week('2024-09-29', '2024-10-05'), week('2024-10-07', '2024-10-13')], boards: [] },
+      2
+    );
+    expect(weeks.map(w => [w.id, w.start_date, w.end_date])).toEqual([
+      ['wk_2024-09-30', '2024-09-30', '2024-10-06'],
+      ['wk_2024-10-07', '2024-10-07', '2024-10-13']
+    ]);
+  });
+});
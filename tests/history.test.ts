@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { applyHistory, createHistoryEntry } from '../src/history';
+import { Task } from '../src/types';
+
+const task = (id: string, updates: Partial<Task> = {}): Task => ({
+  id,
+  week_id: 'wk_2024-10-07',
+  board: 'todos',
+  title: id,
+  status: 'open',
+  priority: 'med',
+  scheduled_for: '2024-10-08',
+  remind_at: '2024-10-08T07:30:00',
+  created_at: '2024-10-01T00:00:00.000Z',
+  updated_at: '2024-10-01T00:00:00.000Z',
+  ...updates
+});
+
+describe('applyHistory', () => {
+  it('patches only the tasks the change touched', () => {
+    const before = [task('tsk_a'), task('tsk_b')];
+    const after = [{ ...before[0], title: 'Bins' }, before[1]];
+    const entry = createHistoryEntry('Task updated', { before, after }, { before: [], after: [] });
+    const added = task('tsk_c');
+    expect(applyHistory([...after, added], [], entry.undo).tasks).toEqual([before[0], before[1], added]);
+  });
+
+  it('does not make a reminder that went off since the change go off again', () => {
+    const before = [task('tsk_a')];
+    const after = [{ ...before[0], title: 'Bins' }];
+    const entry = createHistoryEntry('Task updated', { before, after }, { before: [], after: [] });
+    const reminded = [{ ...after[0], reminded_at: '2024-10-07T20:30:00.000Z' }];
+    expect(applyHistory(reminded, [], entry.undo).tasks).toEqual([
+      { ...before[0], reminded_at: '2024-10-07T20:30:00.000Z' }
+    ]);
+  });
+
+  it('brings back the reminded stamp a reminder move cleared', () => {
+    const before = [task('tsk_a', { reminded_at: '2024-10-07T20:30:00.000Z' })];
+    const after = [{ ...before[0], remind_at: '2024-10-08T09:00:00', reminded_at: undefined }];
+    const entry = createHistoryEntry('Reminder moved', { before, after }, { before: [], after: [] });
+    expect(applyHistory(after, [], entry.undo).tasks).toEqual(before);
+  });
+});
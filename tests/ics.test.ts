@@ -0,0 +1,165 @@
+// Run with TZ=Australia/Sydney (see the test script): UTC times land on local clock times
+import { describe, expect, it } from 'vitest';
+import { buildCalendar, parseCalendar, planCalendarImport } from '../src/ics';
+import { DEFAULT_BOARDS } from '../src/boards';
+import { ScheduledTask } from '../src/types';
+
+const task = (id: string, updates: Partial<ScheduledTask> = {}): ScheduledTask => ({
+  id,
+  week_id: 'wk_2024-10-07',
+  board: 'todos',
+  title: id,
+  status: 'open',
+  priority: 'med',
+  scheduled_for: '2024-10-08',
+  created_at: '2024-10-01T00:00:00.000Z',
+  updated_at: '2024-10-01T00:00:00.000Z',
+  ...updates
+});
+
+const calendar = (...lines: string[]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+const event = (...lines: string[]) => ['BEGIN:VEVENT', 'UID:evt-1', 'SUMMARY:Swimming', ...lines, 'END:VEVENT'];
+
+describe('buildCalendar', () => {
+  it('folds long lines at 75 bytes without splitting characters', () => {
+    const title = `Pack the 🎒 for camp: ${'sleeping bag, torch, '.repeat(10)}`.trim();
+    const text = buildCalendar([task('tsk_1', { title })], DEFAULT_BOARDS, 'event');
+    text.split('\r\n').forEach(line => {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    });
+    expect(text).toContain('\r\n ');
+    expect(parseCalendar(text)[0].title).toBe(title);
+  });
+
+  it('escapes text values', () => {
+    const text = buildCalendar(
+      [task('tsk_1', { title: 'Fruit; apples, pears \\ more', notes: 'Line one\nLine two' })],
+      DEFAULT_BOARDS,
+      'event'
+    );
+    expect(text).toContain('SUMMARY:Fruit\\; apples\\, pears \\\\ more');
+    expect(text).toContain('DESCRIPTION:Line one\\nLine two');
+    expect(parseCalendar(text)[0]).toMatchObject({
+      title: 'Fruit; apples, pears \\ more',
+      notes: 'Line one\nLine two'
+    });
+  });
+
+  it('sets the alarm relative to the start', () => {
+    const text = buildCalendar(
+      [task('tsk_1', { start_time: '16:00', duration_min: 45, remind_at: '2024-10-08T15:30:00' })],
+      DEFAULT_BOARDS,
+      'event'
+    );
+    expect(text).toContain('DTSTART:20241008T160000');
+    expect(text).toContain('DURATION:PT45M');
+    expect(text).toContain('TRIGGER:-PT30M');
+  });
+});
+
+describe('parseCalendar', () => {
+  it('unfolds continuation lines starting with a space or a tab', () => {
+    const [parsed] = parseCalendar(calendar(
+      'BEGIN:VEVENT',
+      'UID:evt-1',
+      'SUMMARY:Swim',
+      ' ming carnival',
+      'DESCRIPTION:Bring a hat\\,',
+      '\t sunscreen and lunch',
+      'DTSTART;VALUE=DATE:20241011',
+      'END:VEVENT'
+    ));
+    expect(parsed).toMatchObject({ title: 'Swimming carnival', notes: 'Bring a hat, sunscreen and lunch' });
+  });
+
+  it('moves UTC times to local time and leaves floating times alone', () => {
+    const [utc] = parseCalendar(calendar(...event('DTSTART:20241007T083000Z', 'DTEND:20241007T093000Z')));
+    const [floating] = parseCalendar(calendar(...event('DTSTART:20241007T083000', 'DURATION:PT1H')));
+    const [zoned] = parseCalendar(calendar(...event('DTSTART;TZID=Australia/Sydney:20241007T083000')));
+    // Sydney is UTC+11 once daylight saving starts on 6 October
+    expect(utc).toMatchObject({ date: '2024-10-07', start_time: '19:30', duration_min: 60 });
+    expect(floating).toMatchObject({ date: '2024-10-07', start_time: '08:30', duration_min: 60 });
+    expect(zoned).toMatchObject({ date: '2024-10-07', start_time: '08:30' });
+  });
+
+  it('moves UTC times across midnight to the next local day', () => {
+    const [parsed] = parseCalendar(calendar(...event('DTSTART:20241007T140000Z')));
+    expect(parsed).toMatchObject({ date: '2024-10-08', start_time: '01:00' });
+  });
+
+  it('takes the earliest alarm set relative to the start', () => {
+    const [parsed] = parseCalendar(calendar(
+      ...event(
+        'DTSTART:20241007T083000',
+        'BEGIN:VALARM', 'TRIGGER:-PT15M', 'END:VALARM',
+        'BEGIN:VALARM', 'TRIGGER:-P1D', 'END:VALARM',
+        'BEGIN:VALARM', 'TRIGGER;RELATED=END:-P2D', 'END:VALARM',
+        'BEGIN:VALARM', 'TRIGGER;VALUE=DATE-TIME:20241001T000000Z', 'END:VALARM'
+      )
+    ));
+    expect(parsed.alarm_before).toBe(24 * 60);
+  });
+
+  it('ignores alarms on all-day events', () => {
+    const [parsed] = parseCalendar(calendar(
+      ...event('DTSTART;VALUE=DATE:20241007', 'BEGIN:VALARM', 'TRIGGER:-PT15M', 'END:VALARM')
+    ));
+    expect(parsed.alarm_before).toBeUndefined();
+  });
+
+  it('rejects files that are not calendars', () => {
+    expect(() => parseCalendar('not a calendar')).toThrow('not an iCalendar');
+  });
+});
+
+describe('planCalendarImport', () => {
+  const tasks = [
+    task('tsk_reminder', { remind_at: '2024-10-08T07:15:00' }),
+    task('tsk_timed', { start_time: '09:00' }),
+    task('tsk_lesson', { start_time: '16:00', duration_min: 45, remind_at: '2024-10-08T15:30:00', notes: 'Room 4' }),
+    task('tsk_allday', { board: 'exercise', scheduled_for: '2024-10-09' }),
+    task('tsk_skipped', { status: 'skipped', start_time: '18:00', duration_min: 60 }),
+    task('tsk_done', { status: 'done' })
+  ];
+
+  it.each(['event', 'todo'] as const)('leaves tasks unchanged when their own %s export comes back', (untimed) => {
+    const events = parseCalendar(buildCalendar(tasks, DEFAULT_BOARDS, untimed));
+    const result = planCalendarImport(events, tasks, DEFAULT_BOARDS, 'todos');
+    expect(result.added).toEqual([]);
+    expect(result.updated).toEqual([]);
+    expect(result.unchanged).toBe(tasks.length);
+  });
+
+  it('treats times saved without seconds as the same time', () => {
+    const saved = [
+      task('tsk_reminder', { remind_at: '2024-10-08T07:15' }),
+      task('tsk_lesson', { start_time: '16:00', duration_min: 45, remind_at: '2024-10-08T15:30' })
+    ];
+    const events = parseCalendar(buildCalendar(saved, DEFAULT_BOARDS, 'event'));
+    const result = planCalendarImport(events, saved, DEFAULT_BOARDS, 'todos');
+    expect(result.updated).toEqual([]);
+    expect(result.unchanged).toBe(saved.length);
+  });
+
+  it('keeps reminder-only tasks without a start time when new', () => {
+    const events = parseCalendar(buildCalendar([tasks[0]], DEFAULT_BOARDS, 'event'));
+    const [added] = planCalendarImport(events, [], DEFAULT_BOARDS, 'todos').added;
+    expect(added).toMatchObject({ scheduled_for: '2024-10-08', remind_at: '2024-10-08T07:15:00' });
+    expect(added.start_time).toBeUndefined();
+    expect(added.duration_min).toBeUndefined();
+  });
+
+  it('updates a task whose event moved and takes its time from the calendar', () => {
+    const moved = buildCalendar([tasks[2]], DEFAULT_BOARDS, 'event').replace('20241008T160000', '20241010T170000');
+    const { updated } = planCalendarImport(parseCalendar(moved), tasks, DEFAULT_BOARDS, 'todos');
+    expect(updated).toHaveLength(1);
+    expect(updated[0]).toMatchObject({
+      id: 'tsk_lesson',
+      scheduled_for: '2024-10-10',
+      start_time: '17:00',
+      remind_at: '2024-10-10T16:30:00'
+    });
+  });
+});
@@ -0,0 +1,72 @@
+// Run with TZ=Australia/Sydney (see the test script), so the v3 date shift applies to tasks
+// created between local and UTC midnight
+import { describe, expect, it } from 'vitest';
+import { runMigrations } from '../src/migrations';
+import { parseBackup } from '../src/backup';
+
+const backup = (tasks: unknown[], weeks: unknown[] = []) => JSON.stringify({
+  app: 'bea-more-organised',
+  schema_version: 0,
+  exported_at: '2024-10-01T00:00:00.000Z',
+  tasks,
+  weeks
+});
+
+const saved = {
+  id: 'tsk_1',
+  board: 'todos',
+  title: 'Bins out',
+  scheduled_for: '2024-10-06',
+  // 7am on 7 October in Sydney
+  created_at: '2024-10-06T20:00:00.000Z'
+};
+
+describe('runMigrations', () => {
+  it('passes records it cannot read through unchanged', () => {
+    const { tasks, weeks } = runMigrations(
+      { tasks: [null, 'junk', saved], weeks: [null, { id: 'wk_bad', start_date: 42 }], boards: [] },
+      0
+    );
+    expect(tasks).toHaveLength(3);
+    expect(tasks).toContain(null);
+    expect(tasks).toContain('junk');
+    expect(tasks.find(t => t?.id === 'tsk_1')).toMatchObject({
+      status: 'open',
+      priority: 'med',
+      scheduled_for: '2024-10-07',
+      week_id: 'wk_2024-10-07'
+    });
+    expect(weeks).toContainEqual({ id: 'wk_bad', start_date: 42 });
+  });
+
+  it('leaves backlog tasks without a date or week', () => {
+    const { tasks } = runMigrations(
+      { tasks: [{ id: 'tsk_2', board: 'todos', title: 'Someday' }], weeks: [], boards: [] },
+      0
+    );
+    expect(tasks[0].scheduled_for).toBeUndefined();
+    expect(tasks[0].week_id).toBeUndefined();
+  });
+
+  it('does not shift dates that are not dates', () => {
+    const { tasks } = runMigrations(
+      { tasks: [{ ...saved, scheduled_for: 'soon', remind_at: 7 }], weeks: [], boards: [] },
+      0
+    );
+    expect(tasks[0]).toMatchObject({ scheduled_for: 'soon', remind_at: 7 });
+  });
+});
+
+describe('parseBackup', () => {
+  it('reports malformed records from an old backup instead of throwing', () => {
+    const parsed = parseBackup(backup([null, { ...saved, scheduled_for: undefined, id: 'tsk_2' }, saved]));
+    expect(parsed.tasks.map(t => t.id)).toEqual(['tsk_2', 'tsk_1']);
+    expect(parsed.errors).toEqual(['Task #1: not an object']);
+  });
+
+  it('reports a task whose date cannot be read', () => {
+    const parsed = parseBackup(backup([{ ...saved, scheduled_for: 20241006 }]));
+    expect(parsed.tasks).toEqual([]);
+    expect(parsed.errors).toEqual(['Task tsk_1: invalid scheduled_for "20241006"']);
+  });
+});
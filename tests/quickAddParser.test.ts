@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { parseQuickAdd } from '../src/quickAddParser';
+import { configureDates } from '../src/dates';
+import { DEFAULT_BOARDS } from '../src/boards';
+
+// A Wednesday
+const today = new Date(2024, 9, 9, 15, 20);
+
+const parse = (text: string, defaultDate?: string) =>
+  parseQuickAdd(text, { boards: DEFAULT_BOARDS, defaultBoard: 'todos', defaultDate, today });
+
+afterEach(() => configureDates({ week_starts_on: 1, locale: 'en-AU' }));
+
+describe('parseQuickAdd', () => {
+  it('takes the date and time out of the title', () => {
+    expect(parse('buy milk tomorrow at 5pm')).toEqual({
+      title: 'Buy milk',
+      board: 'todos',
+      scheduled_for: '2024-10-10',
+      remind_at: '2024-10-10T17:00:00',
+      priority: 'med'
+    });
+  });
+
+  it.each([
+    ['today', '2024-10-09'],
+    ['tonight', '2024-10-09'],
+    ['tmrw', '2024-10-10'],
+    ['wed', '2024-10-09'],
+    ['fri', '2024-10-11'],
+    ['on monday', '2024-10-14'],
+    ['this mon', '2024-10-07'],
+    ['this sun', '2024-10-13'],
+    ['next fri', '2024-10-18'],
+    ['next week', '2024-10-14'],
+    ['in 3 days', '2024-10-12'],
+    ['in 1 day', '2024-10-10']
+  ])('reads "%s" as %s', (words, date) => {
+    const result = parse(`call the dentist ${words}`);
+    expect(result.scheduled_for).toBe(date);
+    expect(result.title).toBe('Call the dentist');
+  });
+
+  it('follows the week start for "this" and "next"', () => {
+    configureDates({ week_starts_on: 0, locale: 'en-AU' });
+    expect(parse('bins this sun').scheduled_for).toBe('2024-10-06');
+    expect(parse('bins next week').scheduled_for).toBe('2024-10-13');
+  });
+
+  it.each([
+    ['25/12', '2024-12-25'],
+    ['1/2', '2025-02-01'],
+    ['3/10/25', '2025-10-03'],
+    ['3/10/2026', '2026-10-03']
+  ])('reads the day-first date %s as %s', (token, date) => {
+    expect(parse(`party ${token}`).scheduled_for).toBe(date);
+  });
+
+  it('keeps dates that do not exist in the title', () => {
+    expect(parse('party 31/2')).toMatchObject({ title: 'Party 31/2', scheduled_for: undefined });
+  });
+
+  it.each([
+    ['7.30am', '07:30'],
+    ['12am', '00:00'],
+    ['12pm', '12:00'],
+    ['noon', '12:00'],
+    ['18:45', '18:45'],
+    ['at 9pm', '21:00']
+  ])('reads the time %s as %s', (token, time) => {
+    expect(parse(`swim today ${token}`).remind_at).toBe(`2024-10-09T${time}:00`);
+  });
+
+  it('keeps bare numbers and impossible times in the title', () => {
+    expect(parse('read 3 chapters today')).toMatchObject({ title: 'Read 3 chapters', remind_at: undefined });
+    expect(parse('band 25:00 today')).toMatchObject({ title: 'Band 25:00', remind_at: undefined });
+  });
+
+  it('picks up the first priority word', () => {
+    expect(parse('! pay rego')).toMatchObject({ title: 'Pay rego', priority: 'high' });
+    expect(parse('pay rego low urgent')).toMatchObject({ title: 'Pay rego urgent', priority: 'low' });
+  });
+
+  it('uses a leading board name and drops it from the title', () => {
+    expect(parse('dinner fri spag bol')).toMatchObject({ title: 'Spag bol', board: 'dinner', scheduled_for: '2024-10-11' });
+    expect(parse('exercise 5km loop')).toMatchObject({ title: '5km loop', board: 'exercise' });
+  });
+
+  it('guesses the board from keywords but keeps them in the title', () => {
+    expect(parse('gym tomorrow')).toMatchObject({ title: 'Gym', board: 'exercise' });
+    expect(parse('pizza for dinner')).toMatchObject({ title: 'Pizza for dinner', board: 'dinner' });
+  });
+
+  it('falls back to the default date, or the backlog without one', () => {
+    expect(parse('renew passport', '2024-10-15').scheduled_for).toBe('2024-10-15');
+    expect(parse('renew passport at 9am')).toMatchObject({ scheduled_for: undefined, remind_at: undefined });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { getSeriesFields, materialiseWeek, recordSeriesExceptions } from '../src/recurrence';
+import { Task } from '../src/types';
+
+const first: Task = {
+  id: 'tsk_bins',
+  series_id: 'tsk_bins',
+  week_id: 'wk_2024-09-30',
+  board: 'todos',
+  title: 'Bins out',
+  status: 'open',
+  priority: 'med',
+  scheduled_for: '2024-09-30',
+  remind_at: '2024-09-30T19:00',
+  checklist: [{ id: 'chk_1', title: 'Recycling', done: false }],
+  created_at: '2024-09-30T00:00:00.000Z',
+  updated_at: '2024-09-30T00:00:00.000Z'
+};
+
+const series = (rule: Partial<Task['repeat']> = {}): Task => ({
+  ...first,
+  repeat: { frequency: 'weekly', starts_on: '2024-09-30', fields: getSeriesFields(first), ...rule }
+});
+
+describe('materialiseWeek', () => {
+  it('copies the series fields, not what was done to the last occurrence', () => {
+    const edited: Task = {
+      ...series(),
+      title: 'Bins out (council strike)',
+      status: 'skipped',
+      skip_reason: 'No pickup',
+      sort_order: 3,
+      rolled_from: 'tsk_old',
+      roll_count: 2,
+      checklist: [{ id: 'chk_1', title: 'Recycling', done: true }]
+    };
+    const [next] = materialiseWeek([edited], 'wk_2024-10-07');
+    expect(next).toMatchObject({
+      id: 'tsk_bins_2024-10-07',
+      series_id: 'tsk_bins',
+      title: 'Bins out',
+      status: 'open',
+      scheduled_for: '2024-10-07',
+      week_id: 'wk_2024-10-07',
+      remind_at: '2024-10-07T19:00',
+      checklist: [{ id: 'chk_1', title: 'Recycling', done: false }]
+    });
+    expect(next.skip_reason).toBeUndefined();
+    expect(next.sort_order).toBeUndefined();
+    expect(next.rolled_from).toBeUndefined();
+    expect(next.roll_count).toBeUndefined();
+  });
+
+  it('falls back to the last occurrence for series saved without fields', () => {
+    const old: Task = { ...series({ fields: undefined }), sort_order: 3, skip_reason: 'Away' };
+    const [next] = materialiseWeek([old], 'wk_2024-10-07');
+    expect(next.title).toBe('Bins out');
+    expect(next.sort_order).toBeUndefined();
+    expect(next.skip_reason).toBeUndefined();
+  });
+
+  it('skips exception dates', () => {
+    expect(materialiseWeek([series({ exceptions: ['2024-10-07'] })], 'wk_2024-10-07')).toEqual([]);
+  });
+});
+
+describe('recordSeriesExceptions', () => {
+  const week: Task[] = [series(), ...materialiseWeek([series()], 'wk_2024-10-07')];
+
+  it('keeps deleted occurrences from coming back', () => {
+    const after = recordSeriesExceptions(week, week.filter(t => t.id !== 'tsk_bins_2024-10-07'));
+    expect(after[0].repeat?.exceptions).toEqual(['2024-10-07']);
+    expect(materialiseWeek(after, 'wk_2024-10-07')).toEqual([]);
+  });
+
+  it('keeps moved occurrences from being made again on their old day', () => {
+    const moved = week.map(t => (t.id === 'tsk_bins' ? { ...t, scheduled_for: '2024-10-01' } : t));
+    const after = recordSeriesExceptions(week, moved);
+    expect(after.every(t => t.repeat?.exceptions?.includes('2024-09-30'))).toBe(true);
+    expect(materialiseWeek(after, 'wk_2024-09-30')).toEqual([]);
+  });
+
+  it('leaves the list alone when no occurrence moved', () => {
+    const renamed = week.map(t => ({ ...t, title: 'Bins' }));
+    expect(recordSeriesExceptions(week, renamed)).toBe(renamed);
+  });
+});
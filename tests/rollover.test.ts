@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { rollTasks } from '../src/rollover';
+import { DEFAULT_SETTINGS, RolloverRule, withDefaults } from '../src/settings';
+import { configureDates } from '../src/dates';
+import { DEFAULT_BOARDS } from '../src/boards';
+import { BoardConfig, Task } from '../src/types';
+
+const task = (id: string, updates: Partial<Task> = {}): Task => ({
+  id,
+  week_id: 'wk_2024-09-30',
+  board: 'todos',
+  title: id,
+  status: 'open',
+  priority: 'med',
+  // A Wednesday
+  scheduled_for: '2024-10-02',
+  created_at: '2024-09-30T00:00:00.000Z',
+  updated_at: '2024-09-30T00:00:00.000Z',
+  ...updates
+});
+
+const withRules = (rules: Record<string, RolloverRule>) =>
+  withDefaults({ rollover: { ...DEFAULT_SETTINGS.rollover, ...rules } });
+
+const roll = (
+  tasks: Task[],
+  settings = withDefaults(null),
+  boards: BoardConfig[] = DEFAULT_BOARDS,
+  toWeekId = 'wk_2024-10-07'
+) => rollTasks(tasks, 'wk_2024-09-30', toWeekId, settings, boards);
+
+const toMonday = withRules({ exercise: { mode: 'roll', day: 'monday' } });
+
+afterEach(() => configureDates({ week_starts_on: 1, locale: 'en-AU' }));
+
+describe('rollTasks', () => {
+  it('rolls open tasks only', () => {
+    const rolled = roll([
+      task('tsk_open'),
+      task('tsk_done', { status: 'done' }),
+      task('tsk_skipped', { status: 'skipped' }),
+      task('tsk_series', { series_id: 'tsk_series', repeat: { frequency: 'weekly', starts_on: '2024-10-02' } }),
+      task('tsk_backlog', { scheduled_for: undefined, week_id: undefined }),
+      task('tsk_other_week', { week_id: 'wk_2024-09-23', scheduled_for: '2024-09-25' })
+    ]);
+    expect(rolled.map(t => t.id)).toEqual(['tsk_open_wk_2024-10-07']);
+  });
+
+  it('follows the rule set for each board', () => {
+    const settings = withRules({ exercise: { mode: 'drop', day: 'same' } });
+    const rolled = roll([task('tsk_todo'), task('tsk_run', { board: 'exercise' })], settings);
+    expect(rolled.map(t => t.rolled_from)).toEqual(['tsk_todo']);
+  });
+
+  it('always drops dinners, whatever the settings say', () => {
+    const lunches: BoardConfig = {
+      ...DEFAULT_BOARDS[2],
+      id: 'lunches',
+      name: 'Lunches',
+      sort_order: 3
+    };
+    const settings = withRules({ dinner: { mode: 'roll', day: 'same' }, lunches: { mode: 'roll', day: 'same' } });
+    const rolled = roll(
+      [task('tsk_pasta', { board: 'dinner' }), task('tsk_wraps', { board: 'lunches' })],
+      settings,
+      [...DEFAULT_BOARDS, lunches]
+    );
+    expect(rolled).toEqual([]);
+  });
+
+  it('keeps the weekday or moves to the Monday', () => {
+    const rolled = roll([task('tsk_todo'), task('tsk_run', { board: 'exercise', remind_at: '2024-10-02T06:30:00' })], toMonday);
+    expect(rolled.map(t => [t.rolled_from, t.scheduled_for, t.week_id])).toEqual([
+      ['tsk_todo', '2024-10-09', 'wk_2024-10-07'],
+      ['tsk_run', '2024-10-07', 'wk_2024-10-07']
+    ]);
+    expect(rolled[1].remind_at).toBe('2024-10-07T06:30:00');
+  });
+
+  it('finds the same weekday in a week that starts on Sunday', () => {
+    configureDates({ week_starts_on: 0, locale: 'en-AU' });
+    const rolled = roll(
+      [task('tsk_todo'), task('tsk_run', { board: 'exercise' })],
+      toMonday,
+      DEFAULT_BOARDS,
+      'wk_2024-10-06'
+    );
+    expect(rolled.map(t => t.scheduled_for)).toEqual(['2024-10-09', '2024-10-07']);
+  });
+
+  it('does not roll a task twice into the same week', () => {
+    const tasks = [task('tsk_todo'), task('tsk_gym', { board: 'exercise' })];
+    const rolled = roll(tasks);
+    expect(rolled.map(t => t.id)).toEqual(['tsk_todo_wk_2024-10-07', 'tsk_gym_wk_2024-10-07']);
+    expect(roll([...tasks, ...rolled])).toEqual([]);
+  });
+
+  it('does not roll a task already copied under an older random id', () => {
+    const copy = task('tsk_1728000000000_abc', {
+      week_id: 'wk_2024-10-07',
+      scheduled_for: '2024-10-09',
+      rolled_from: 'tsk_todo'
+    });
+    expect(roll([task('tsk_todo'), copy])).toEqual([]);
+  });
+
+  it('carries only the unticked checklist items and counts the roll', () => {
+    const [rolled] = roll([task('tsk_pack', {
+      roll_count: 1,
+      checklist: [
+        { id: 'chk_hat', title: 'Hat', done: true },
+        { id: 'chk_towel', title: 'Towel', done: false }
+      ]
+    })]);
+    expect(rolled.checklist).toEqual([{ id: 'chk_towel', title: 'Towel', done: false }]);
+    expect(rolled.roll_count).toBe(2);
+  });
+});
@@ -0,0 +1,267 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChildProcess, spawn } from 'node:child_process';
+import { once } from 'node:events';
+import {
+  SyncRecord,
+  SyncTransport,
+  createHttpTransport,
+  createSyncState,
+  mergeRecord,
+  recordKey,
+  runSync,
+  toRecords
+} from '../src/sync';
+import { materialiseWeek } from '../src/recurrence';
+import { rollTasks } from '../src/rollover';
+import { withDefaults } from '../src/settings';
+import { DEFAULT_BOARDS } from '../src/boards';
+import { Task, Week } from '../src/types';
+
+// sync.ts saves its state through storage, which needs a browser
+vi.mock('../src/storage', () => ({ storage: {} }));
+
+const task = (id: string, scheduled_for: string, updates: Partial<Task> = {}): Task => ({
+  id,
+  week_id: 'wk_2024-09-30',
+  board: 'todos',
+  title: id,
+  status: 'open',
+  priority: 'med',
+  scheduled_for,
+  created_at: '2024-09-30T00:00:00.000Z',
+  updated_at: '2024-09-30T00:00:00.000Z',
+  ...updates
+});
+
+const base = [
+  task('tsk_bins', '2024-09-30', {
+    series_id: 'tsk_bins',
+    repeat: { frequency: 'weekly', starts_on: '2024-09-30' }
+  }),
+  task('tsk_tax', '2024-10-02')
+];
+
+// What a device does when it first opens a new week: the week record, the series'
+// occurrences and last week's unfinished tasks
+const openWeek = (tasks: Task[], weekId: string, now: string) => {
+  vi.setSystemTime(new Date(now));
+  const week: Week = { id: weekId, start_date: '2024-10-07', end_date: '2024-10-13', created_at: now };
+  const occurrences = materialiseWeek(tasks, weekId);
+  const rolled = rollTasks(tasks, 'wk_2024-09-30', weekId, withDefaults(null), DEFAULT_BOARDS);
+  return { tasks: [...tasks, ...occurrences, ...rolled], weeks: [week] };
+};
+
+// The reference server in a child process, fresh for each test, so the push rule under
+// test is the server's own: a copy older than the stored one comes back in `rejected`
+let server: ChildProcess;
+let endpoint: string;
+
+beforeEach(async () => {
+  const port = 20000 + Math.floor(Math.random() * 20000);
+  server = spawn(process.execPath, ['server/sync-server.mjs'], {
+    env: { ...process.env, PORT: String(port) },
+    stdio: ['ignore', 'pipe', 'inherit']
+  });
+  await once(server.stdout!, 'data');
+  server.stdout!.resume();
+  endpoint = `http://localhost:${port}`;
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  server.kill();
+  await once(server, 'exit');
+});
+
+// Remembers what the server rejected so tests can check the clock rule was hit
+const connect = (deviceId: string) => {
+  const transport = createHttpTransport(endpoint, deviceId);
+  const rejected: SyncRecord[] = [];
+  return {
+    rejected,
+    pull: transport.pull,
+    push: async (changes) => {
+      const result = await transport.push(changes);
+      rejected.push(...result.rejected);
+      return result;
+    }
+  } satisfies SyncTransport & { rejected: SyncRecord[] };
+};
+
+const createDevice = (name: string, data: { tasks: Task[]; weeks: Week[] }) => {
+  let records = toRecords(data.tasks, data.weeks);
+  let state = createSyncState();
+  const transport = connect(name);
+  return {
+    rejected: transport.rejected,
+    records: () => records,
+    task: (id: string) => records.find(r => r.kind === 'task' && r.id === id)?.data as Task | undefined,
+    conflicts: () => state.conflicts,
+    edit: (id: string, updates: Partial<Task>) => {
+      records = records.map(r => {
+        if (r.kind !== 'task' || r.id !== id) return r;
+        const data = { ...(r.data as Task), ...updates };
+        return { ...r, updated_at: data.updated_at, data };
+      });
+    },
+    remove: (id: string) => {
+      records = records.filter(r => r.kind !== 'task' || r.id !== id);
+    },
+    sync: async () => {
+      state = await runSync(state, transport, () => records, updates => {
+        const byKey = new Map(records.map(r => [recordKey(r), r]));
+        updates.forEach(u => (u.data ? byKey.set(recordKey(u), u) : byKey.delete(recordKey(u))));
+        records = Array.from(byKey.values());
+      });
+    }
+  };
+};
+
+// Two devices that have both synced the same two tasks
+const pairUp = async () => {
+  const phone = createDevice('dev_phone', { tasks: base, weeks: [] });
+  const tablet = createDevice('dev_tablet', { tasks: [], weeks: [] });
+  await phone.sync();
+  await tablet.sync();
+  return { phone, tablet };
+};
+
+describe('generated records', () => {
+  it('get the same ids on every device', () => {
+    vi.useFakeTimers();
+    const first = openWeek(base, 'wk_2024-10-07', '2024-10-07T07:00:00.000Z');
+    const second = openWeek(base, 'wk_2024-10-07', '2024-10-07T09:30:00.000Z');
+    expect(first.tasks.map(t => t.id)).toEqual(second.tasks.map(t => t.id));
+    expect(first.tasks.map(t => t.id)).toEqual([
+      'tsk_bins', 'tsk_tax', 'tsk_bins_2024-10-07', 'tsk_tax_wk_2024-10-07'
+    ]);
+  });
+
+  it('are not made again once they exist', () => {
+    vi.useFakeTimers();
+    const { tasks } = openWeek(base, 'wk_2024-10-07', '2024-10-07T07:00:00.000Z');
+    expect(openWeek(tasks, 'wk_2024-10-07', '2024-10-07T08:00:00.000Z').tasks).toEqual(tasks);
+  });
+});
+
+describe('runSync', () => {
+  it('merges a week both devices created without conflicts or copies', async () => {
+    // Only the clock, so the requests to the server still run
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const phone = createDevice('dev_phone', openWeek(base, 'wk_2024-10-07', '2024-10-07T07:00:00.000Z'));
+    const tablet = createDevice('dev_tablet', openWeek(base, 'wk_2024-10-07', '2024-10-07T09:30:00.000Z'));
+
+    await phone.sync();
+    await tablet.sync();
+    await phone.sync();
+
+    expect(phone.conflicts()).toEqual([]);
+    expect(tablet.conflicts()).toEqual([]);
+    const keys = (records: SyncRecord[]) => records.map(recordKey).sort();
+    expect(keys(tablet.records())).toEqual(keys(phone.records()));
+    expect(tablet.records()).toHaveLength(5);
+    const week = tablet.records().find(r => r.kind === 'week')!.data as Week;
+    // The first device to make it wins
+    expect(week.created_at).toBe('2024-10-07T07:00:00.000Z');
+  });
+
+  it('sends a deletion to the other device and does not bring it back', async () => {
+    const { phone, tablet } = await pairUp();
+    phone.remove('tsk_tax');
+    await phone.sync();
+    await tablet.sync();
+    expect(tablet.task('tsk_tax')).toBeUndefined();
+
+    await tablet.sync();
+    await phone.sync();
+    expect(phone.task('tsk_tax')).toBeUndefined();
+    expect(tablet.task('tsk_tax')).toBeUndefined();
+    expect(phone.conflicts()).toEqual([]);
+    expect(tablet.conflicts()).toEqual([]);
+  });
+
+  it('keeps an edit made while the other device deleted the task', async () => {
+    const { phone, tablet } = await pairUp();
+    phone.remove('tsk_tax');
+    tablet.edit('tsk_tax', { title: 'Lodge tax return', updated_at: '2024-10-01T09:00:00.000Z' });
+    await phone.sync();
+    await tablet.sync();
+    await phone.sync();
+
+    expect(tablet.task('tsk_tax')?.title).toBe('Lodge tax return');
+    expect(phone.task('tsk_tax')?.title).toBe('Lodge tax return');
+    expect(tablet.conflicts().map(c => [c.id, c.field, c.kept])).toEqual([
+      ['tsk_tax', 'deleted', 'edit on this device']
+    ]);
+  });
+
+  it('merges different fields both devices changed since they last agreed', async () => {
+    const { phone, tablet } = await pairUp();
+    phone.edit('tsk_tax', { notes: 'Receipts in the drawer', updated_at: '2024-10-01T09:00:00.000Z' });
+    tablet.edit('tsk_tax', { priority: 'high', updated_at: '2024-10-01T10:00:00.000Z' });
+    await phone.sync();
+    await tablet.sync();
+    await phone.sync();
+
+    expect(phone.task('tsk_tax')).toMatchObject({ notes: 'Receipts in the drawer', priority: 'high' });
+    expect(tablet.task('tsk_tax')).toEqual(phone.task('tsk_tax'));
+    expect(tablet.conflicts()).toEqual([]);
+  });
+
+  it('takes the server copy when it is newer, then pushes the edit again over it', async () => {
+    const { phone, tablet } = await pairUp();
+    phone.edit('tsk_tax', { notes: 'Receipts in the drawer', updated_at: '2024-10-01T10:00:00.000Z' });
+    await phone.sync();
+    await tablet.sync();
+    // The tablet's clock is behind, so its later edit looks older to the server
+    tablet.edit('tsk_tax', { title: 'Lodge tax return', updated_at: '2024-10-01T09:00:00.000Z' });
+    await tablet.sync();
+    expect(tablet.rejected.map(recordKey)).toEqual(['task:tsk_tax']);
+
+    await tablet.sync();
+    await phone.sync();
+    expect(tablet.rejected).toHaveLength(1);
+    expect(phone.task('tsk_tax')).toMatchObject({ title: 'Lodge tax return', notes: 'Receipts in the drawer' });
+    expect(tablet.task('tsk_tax')).toEqual(phone.task('tsk_tax'));
+  });
+
+  it('skips a pulled record this version cannot read', async () => {
+    const { phone, tablet } = await pairUp();
+    const broken = { ...(phone.task('tsk_tax') as Task), status: 'archived', updated_at: '2024-10-02T00:00:00.000Z' };
+    await connect('dev_other').push([{ kind: 'task', id: 'tsk_tax', updated_at: broken.updated_at, data: broken as unknown as Task }]);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await tablet.sync();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+    expect(tablet.task('tsk_tax')?.status).toBe('open');
+  });
+});
+
+describe('mergeRecord', () => {
+  const record = (data: Task): SyncRecord => ({ kind: 'task', id: data.id, updated_at: data.updated_at, data });
+
+  it('takes the change each side made to a different field against a shared base', () => {
+    const shared = record(task('tsk_1', '2024-10-07'));
+    const local = record(task('tsk_1', '2024-10-07', { notes: 'Blue bin', updated_at: '2024-10-07T01:00:00.000Z' }));
+    const remote = record(task('tsk_1', '2024-10-08', { updated_at: '2024-10-07T02:00:00.000Z' }));
+    const { apply, conflicts } = mergeRecord(shared, local, remote);
+    expect(apply!.data).toMatchObject({ notes: 'Blue bin', scheduled_for: '2024-10-08', updated_at: '2024-10-07T02:00:00.000Z' });
+    expect(conflicts).toEqual([]);
+  });
+
+  it('keeps an edit from the other device over a deletion here', () => {
+    const shared = record(task('tsk_1', '2024-10-07'));
+    const remote = record(task('tsk_1', '2024-10-07', { title: 'Recycling', updated_at: '2024-10-07T02:00:00.000Z' }));
+    const { apply, conflicts } = mergeRecord(shared, undefined, remote);
+    expect(apply).toBe(remote);
+    expect(conflicts.map(c => c.kept)).toEqual(['edit from other device']);
+  });
+
+  it('still reports fields both sides set differently without a base', () => {
+    const local = record(task('tsk_1', '2024-10-07', { title: 'Bins', updated_at: '2024-10-07T01:00:00.000Z' }));
+    const remote = record(task('tsk_1', '2024-10-07', { title: 'Recycling', updated_at: '2024-10-07T02:00:00.000Z' }));
+    const { apply, conflicts } = mergeRecord(undefined, local, remote);
+    expect((apply!.data as Task).title).toBe('Recycling');
+    expect(conflicts.map(c => c.field)).toEqual(['title']);
+  });
+});
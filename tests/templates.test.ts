@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { previewTemplate } from '../src/templates';
+import { WeekTemplate } from '../src/types';
+
+const template: WeekTemplate = {
+  id: 'tpl_school',
+  name: 'School week',
+  tasks: [
+    { id: 'tpt_lunch', board: 'todos', title: 'Pack lunches', priority: 'med', day_offset: 0, remind_time: '07:00' },
+    {
+      id: 'tpt_bag',
+      board: 'todos',
+      title: 'Library bag',
+      priority: 'low',
+      day_offset: 3,
+      checklist: [{ id: 'chk_book', title: 'Book', done: true }]
+    }
+  ],
+  created_at: '2024-10-01T00:00:00.000Z',
+  updated_at: '2024-10-01T00:00:00.000Z'
+};
+
+describe('previewTemplate', () => {
+  it('gives each task an id made from the template, item and week', () => {
+    const { added } = previewTemplate(template, 'wk_2024-10-07', []);
+    expect(added.map(t => [t.id, t.scheduled_for])).toEqual([
+      ['tpl_school_tpt_lunch_wk_2024-10-07', '2024-10-07'],
+      ['tpl_school_tpt_bag_wk_2024-10-07', '2024-10-10']
+    ]);
+    expect(added[0].remind_at).toBe('2024-10-07T07:00:00');
+    expect(added[1].checklist).toEqual([{ id: 'chk_book', title: 'Book', done: false }]);
+  });
+
+  it('adds nothing when applied to the same week twice', () => {
+    const first = previewTemplate(template, 'wk_2024-10-07', []).added;
+    const second = previewTemplate(template, 'wk_2024-10-07', first);
+    expect(second.added).toEqual([]);
+    expect(second.skipped.map(item => item.id)).toEqual(['tpt_lunch', 'tpt_bag']);
+  });
+
+  it('skips a task already added from the template even after it was renamed', () => {
+    const [lunch, bag] = previewTemplate(template, 'wk_2024-10-07', []).added;
+    const { added } = previewTemplate(template, 'wk_2024-10-07', [{ ...lunch, title: 'Lunches (no nuts)' }, bag]);
+    expect(added).toEqual([]);
+  });
+});
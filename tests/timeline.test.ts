@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DURATION_MIN, fromMinutes, getDayLoad, layoutTimeline, toMinutes } from '../src/timeline';
+import { Task } from '../src/types';
+
+const task = (id: string, updates: Partial<Task> = {}): Task => ({
+  id,
+  week_id: 'wk_2024-10-07',
+  board: 'todos',
+  title: id,
+  status: 'open',
+  priority: 'med',
+  scheduled_for: '2024-10-08',
+  created_at: '2024-10-01T00:00:00.000Z',
+  updated_at: '2024-10-01T00:00:00.000Z',
+  ...updates
+});
+
+const layout = (tasks: Task[]) =>
+  layoutTimeline(tasks).map(b => [b.task.id, b.column, b.columns, b.overlaps]);
+
+describe('layoutTimeline', () => {
+  it('gives blocks that do not overlap the full width', () => {
+    expect(layout([
+      task('tsk_school', { start_time: '08:30', duration_min: 30 }),
+      // Starts as the first one ends
+      task('tsk_shop', { start_time: '09:00', duration_min: 60 })
+    ])).toEqual([
+      ['tsk_school', 0, 1, false],
+      ['tsk_shop', 0, 1, false]
+    ]);
+  });
+
+  it('puts overlapping blocks side by side in the first free column', () => {
+    expect(layout([
+      task('tsk_swim', { start_time: '16:00', duration_min: 60 }),
+      task('tsk_work', { start_time: '15:00', duration_min: 180 }),
+      task('tsk_call', { start_time: '15:30', duration_min: 15 }),
+      task('tsk_tea', { start_time: '17:30', duration_min: 30 })
+    ])).toEqual([
+      ['tsk_work', 0, 2, true],
+      ['tsk_call', 1, 2, true],
+      // The call is over, so its column is free again
+      ['tsk_swim', 1, 2, true],
+      ['tsk_tea', 1, 2, true]
+    ]);
+  });
+
+  it('draws timed tasks without a duration at the default length and leaves out skipped ones', () => {
+    const blocks = layoutTimeline([
+      task('tsk_bins', { start_time: '07:00' }),
+      task('tsk_run', { start_time: '07:15', status: 'skipped' }),
+      task('tsk_untimed')
+    ]);
+    expect(blocks.map(b => [b.task.id, b.start, b.end])).toEqual([
+      ['tsk_bins', toMinutes('07:00'), toMinutes('07:00') + DEFAULT_DURATION_MIN]
+    ]);
+  });
+});
+
+describe('getDayLoad', () => {
+  it('counts timed tasks without a duration at the default length', () => {
+    const load = getDayLoad([
+      task('tsk_bins', { start_time: '07:00' }),
+      task('tsk_lesson', { start_time: '16:00', duration_min: 45 }),
+      task('tsk_untimed'),
+      task('tsk_skipped', { start_time: '18:00', duration_min: 60, status: 'skipped' })
+    ]);
+    expect(load).toEqual({ planned: DEFAULT_DURATION_MIN + 45, available: 15 * 60, free: 15 * 60 - 75, overloaded: false });
+  });
+
+  it('reports a day planned past the available hours without going below no free time', () => {
+    const load = getDayLoad([
+      task('tsk_work', { duration_min: 10 * 60 }),
+      task('tsk_study', { start_time: '19:00', duration_min: 6 * 60 })
+    ]);
+    expect(load).toEqual({ planned: 16 * 60, available: 15 * 60, free: 0, overloaded: true });
+  });
+
+  it('is not overloaded when the plan fills the day exactly', () => {
+    expect(getDayLoad([task('tsk_day', { duration_min: 15 * 60 })]).overloaded).toBe(false);
+  });
+});
+
+describe('fromMinutes', () => {
+  it('keeps times within the day', () => {
+    expect(fromMinutes(toMinutes('09:45'))).toBe('09:45');
+    expect(fromMinutes(-30)).toBe('00:00');
+    expect(fromMinutes(25 * 60)).toBe('23:45');
+  });
+});
@@ -3,4 +3,8 @@ import react from '@vitejs/plugin-react'
 
 export default defineConfig({
   plugins: [react()],
+  define: {
+    // Versions the service worker, so every deploy is offered as an update
+    __BUILD_ID__: JSON.stringify(Date.now().toString(36)),
+  },
 })